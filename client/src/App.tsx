@@ -3,46 +3,82 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { trpc } from '@/utils/trpc';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getSessionToken, setSessionToken, takeOAuthState } from '@/utils/trpc';
 import { GameBoard } from '@/components/GameBoard';
 import { PuzzleCreator } from '@/components/PuzzleCreator';
 import { PuzzleGallery } from '@/components/PuzzleGallery';
 import { UserAuth } from '@/components/UserAuth';
 import { UserProfile } from '@/components/UserProfile';
 import { DailyPuzzle } from '@/components/DailyPuzzle';
-import type { User, Puzzle, DifficultyLevel } from '../../server/src/schema';
+import { ReplayViewer } from '@/components/ReplayViewer';
+import { AdminPanel } from '@/components/AdminPanel';
+import type { User, Session, Puzzle, DifficultyLevel } from '../../server/src/schema';
+import { canUnpublishPuzzles } from '../../server/src/auth/permissions';
 
 function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [selectedPuzzle, setSelectedPuzzle] = useState<Puzzle | null>(null);
+  const [replayAttemptId, setReplayAttemptId] = useState<number | null>(null);
   const [activeTab, setActiveTab] = useState<string>('play');
   const [isLoading, setIsLoading] = useState(false);
 
-  // Load user from localStorage on app start
+  const [signInError, setSignInError] = useState<string | null>(null);
+
+  // Finish a Google or Facebook sign-in when the provider redirects back with a code for the
+  // sign-in this tab started; otherwise resume the saved session, which the server decides
+  // is still valid or not
   useEffect(() => {
-    const savedUser = localStorage.getItem('dotfit-user');
-    if (savedUser) {
-      try {
-        setCurrentUser(JSON.parse(savedUser));
-      } catch (error) {
-        console.error('Failed to parse saved user:', error);
-        localStorage.removeItem('dotfit-user');
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('code');
+    const state = params.get('state');
+    const expectedState = takeOAuthState();
+    if (code && state) {
+      window.history.replaceState(null, '', window.location.pathname);
+      if (state !== expectedState) {
+        setSignInError('This sign-in was not started in this browser. Please try again.');
+        return;
       }
+      trpc.completeOAuthSignIn.mutate({ code, state })
+        .then(handleUserLogin)
+        .catch((error: unknown) => {
+          console.error('Failed to complete sign-in:', error);
+          setSignInError(error instanceof Error ? error.message : 'Failed to complete sign-in');
+        });
+      return;
+    }
+    if (params.get('error')) {
+      window.history.replaceState(null, '', window.location.pathname);
+      setSignInError('Sign-in was cancelled');
+      return;
     }
+
+    if (!getSessionToken()) return;
+    trpc.getCurrentUser.query()
+      .then(user => {
+        if (!user) setSessionToken(null);
+        setCurrentUser(user);
+      })
+      .catch(error => console.error('Failed to restore session:', error));
   }, []);
 
-  const handleUserLogin = (user: User) => {
-    setCurrentUser(user);
-    localStorage.setItem('dotfit-user', JSON.stringify(user));
+  const handleUserLogin = (session: Session) => {
+    setSessionToken(session.token);
+    setSignInError(null);
+    setCurrentUser(session.user);
   };
 
   const handleUserLogout = () => {
     setCurrentUser(null);
-    localStorage.removeItem('dotfit-user');
+    setSessionToken(null);
     setSelectedPuzzle(null);
+    setReplayAttemptId(null);
     setActiveTab('play');
   };
 
+  // Moderators get the admin tab too, with only the tools their role allows
+  const isAdmin = currentUser !== null && canUnpublishPuzzles(currentUser);
+
   const handlePuzzleSelect = (puzzle: Puzzle) => {
     setSelectedPuzzle(puzzle);
     setActiveTab('game');
@@ -62,6 +98,16 @@ function App() {
     }
   };
 
+  if (replayAttemptId !== null) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50">
+        <div className="container mx-auto px-4 py-8">
+          <ReplayViewer attemptId={replayAttemptId} onClose={() => setReplayAttemptId(null)} />
+        </div>
+      </div>
+    );
+  }
+
   if (selectedPuzzle) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50">
@@ -112,16 +158,22 @@ function App() {
           </div>
           <div className="flex items-center gap-4">
             {currentUser ? (
-              <UserProfile user={currentUser} onLogout={handleUserLogout} />
+              <UserProfile user={currentUser} onLogout={handleUserLogout} onReplay={setReplayAttemptId} />
             ) : (
               <UserAuth onLogin={handleUserLogin} />
             )}
           </div>
         </header>
 
+        {signInError && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{signInError}</AlertDescription>
+          </Alert>
+        )}
+
         {/* Main Content */}
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-4 mb-6">
+          <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-5' : 'grid-cols-4'} mb-6`}>
             <TabsTrigger value="play" className="flex items-center gap-2">
               🎮 Play
             </TabsTrigger>
@@ -134,6 +186,11 @@ function App() {
             <TabsTrigger value="gallery" className="flex items-center gap-2">
               🖼️ Gallery
             </TabsTrigger>
+            {isAdmin && (
+              <TabsTrigger value="admin" className="flex items-center gap-2">
+                🛠️ Admin
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="play" className="space-y-6">
@@ -226,6 +283,12 @@ function App() {
           <TabsContent value="gallery">
             <PuzzleGallery onPuzzleSelect={handlePuzzleSelect} user={currentUser} />
           </TabsContent>
+
+          {isAdmin && currentUser && (
+            <TabsContent value="admin">
+              <AdminPanel user={currentUser} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,201 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { userRoleSchema, type User, type UserRole, type Puzzle } from '../../../server/src/schema';
+import { canScheduleDailyPuzzles } from '../../../server/src/auth/permissions';
+
+interface AdminPanelProps {
+  user: User;
+}
+
+const formatDate = (date: Date) => new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+// Site administration: account roles and the daily schedule for admins, unpublishing for
+// moderators as well
+export function AdminPanel({ user }: AdminPanelProps) {
+  const isAdmin = canScheduleDailyPuzzles(user);
+  const [users, setUsers] = useState<User[]>([]);
+  const [schedule, setSchedule] = useState<Puzzle[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({ puzzleId: '', date: '' });
+  const [unpublishId, setUnpublishId] = useState('');
+
+  const loadAdminData = useCallback(async () => {
+    if (!isAdmin) return;
+    try {
+      const [loadedUsers, loadedSchedule] = await Promise.all([
+        trpc.listUsers.query({}),
+        trpc.getDailySchedule.query()
+      ]);
+      setUsers(loadedUsers);
+      setSchedule(loadedSchedule);
+    } catch (error) {
+      console.error('Failed to load admin data:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load admin data');
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    loadAdminData();
+  }, [loadAdminData]);
+
+  // Runs an admin action, reporting how it went
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      setNotice(success);
+    } catch (error) {
+      console.error('Admin action failed:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  const handleRoleChange = (target: User, role: UserRole) => runAction(async () => {
+    const updated = await trpc.updateUserRole.mutate({ user_id: target.id, role });
+    setUsers(current => current.map(u => (u.id === updated.id ? updated : u)));
+  }, `${target.display_name} is now ${role}`);
+
+  const handleSchedule = () => runAction(async () => {
+    await trpc.scheduleDailyPuzzle.mutate({ puzzle_id: Number(scheduleForm.puzzleId), date: new Date(scheduleForm.date) });
+    setScheduleForm({ puzzleId: '', date: '' });
+    setSchedule(await trpc.getDailySchedule.query());
+  }, 'Daily puzzle scheduled');
+
+  const handleUnschedule = (puzzle: Puzzle) => runAction(async () => {
+    await trpc.unscheduleDailyPuzzle.mutate({ puzzleId: puzzle.id });
+    setSchedule(current => current.filter(p => p.id !== puzzle.id));
+  }, `"${puzzle.title}" is no longer a daily puzzle`);
+
+  const handleUnpublish = () => runAction(async () => {
+    const puzzle = await trpc.unpublishPuzzle.mutate({ puzzleId: Number(unpublishId) });
+    setUnpublishId('');
+    setSchedule(current => current.filter(p => p.id !== puzzle.id));
+  }, 'Puzzle unpublished');
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {isAdmin && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">👥 Users</CardTitle>
+              <CardDescription>Newest accounts first. You cannot change your own role.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {users.map(u => (
+                <div key={u.id} className="flex items-center justify-between gap-4 border-b pb-2">
+                  <div>
+                    <div className="font-medium">{u.display_name}</div>
+                    <div className="text-sm text-gray-500">{u.email} · {u.auth_provider}</div>
+                  </div>
+                  <Select
+                    value={u.role}
+                    onValueChange={(role: UserRole) => handleRoleChange(u, role)}
+                    disabled={u.id === user.id}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {userRoleSchema.options.map(role => (
+                        <SelectItem key={role} value={role}>{role}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">📅 Daily Schedule</CardTitle>
+              <CardDescription>Scheduling a date that is taken replaces its puzzle.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {schedule.length === 0 && <p className="text-sm text-gray-500">No upcoming daily puzzles.</p>}
+              {schedule.map(puzzle => (
+                <div key={puzzle.id} className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{puzzle.daily_puzzle_date && formatDate(puzzle.daily_puzzle_date)}</Badge>
+                    <span>#{puzzle.id} {puzzle.title}</span>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleUnschedule(puzzle)}>
+                    Remove
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="schedule-puzzle">Puzzle id</Label>
+                  <Input
+                    id="schedule-puzzle"
+                    type="number"
+                    value={scheduleForm.puzzleId}
+                    onChange={e => setScheduleForm(form => ({ ...form, puzzleId: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="schedule-date">Date</Label>
+                  <Input
+                    id="schedule-date"
+                    type="date"
+                    value={scheduleForm.date}
+                    onChange={e => setScheduleForm(form => ({ ...form, date: e.target.value }))}
+                  />
+                </div>
+                <Button onClick={handleSchedule} disabled={!scheduleForm.puzzleId || !scheduleForm.date}>
+                  Schedule
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">🚫 Unpublish a Puzzle</CardTitle>
+          <CardDescription>Takes any puzzle out of the gallery and off the daily schedule.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="unpublish-puzzle">Puzzle id</Label>
+              <Input
+                id="unpublish-puzzle"
+                type="number"
+                value={unpublishId}
+                onChange={e => setUnpublishId(e.target.value)}
+              />
+            </div>
+            <Button variant="destructive" onClick={handleUnpublish} disabled={!unpublishId}>
+              Unpublish
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,196 +1,291 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, type KeyboardEvent as ReactKeyboardEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { trpc } from '@/utils/trpc';
-import type { Puzzle, User, PuzzleAttempt } from '../../../server/src/schema';
+import {
+  getRegionColorClass,
+  getConditionText,
+  getDominoCells,
+  getDominoPosition,
+  turnClockwise,
+  type DominoRotation
+} from '@/lib/puzzle';
+import {
+  applyMove,
+  pushMove,
+  canUndo,
+  canRedo,
+  createDominoData,
+  invertMove,
+  EMPTY_HISTORY,
+  type DominoData,
+  type DominoMove,
+  type MoveHistory,
+  type ReplayEvent
+} from '@/lib/moves';
+import {
+  clearCandidates,
+  edgeKey,
+  readAnnotations,
+  toggleCandidate,
+  toggleEdge,
+  EMPTY_ANNOTATIONS,
+  type Annotations
+} from '@/lib/annotations';
+import { usePointerDrag, type DragSource, type DropTarget } from '@/hooks/usePointerDrag';
+import { cellKey, isInsideGrid } from '../../../server/src/puzzle/grid';
+import { parsePuzzleContent, type PuzzleContent } from '../../../server/src/puzzle/content';
+import { evaluateBoard, type BoardEvaluation } from '../../../server/src/puzzle/board';
+import type { Hint } from '../../../server/src/puzzle/hints';
+import type { Puzzle, User, PuzzleAttempt, Achievement, Cell, DominoPlacement, Region, HintLevel, PlayMode } from '../../../server/src/schema';
+
+// A recorded moment of an attempt, shown on a read-only board instead of a live game
+export interface Playback {
+  dominoes: DominoData[];
+  hint: Hint | null;
+  elapsed: number; // milliseconds into the attempt
+}
 
 interface GameBoardProps {
   puzzle: Puzzle;
   user: User | null;
   onComplete: () => void;
-}
-
-interface BoardData {
-  regions: { [key: string]: { color: string; cells: string[] } };
-  conditions: { [key: string]: { type: string; value: number | string } };
-}
-
-interface DominoData {
-  id: string;
-  values: [number, number];
-  position?: { x: number; y: number };
-  rotation: 'horizontal' | 'vertical';
-  isPlaced: boolean;
+  playback?: Playback;
 }
 
 interface GameState {
   dominoes: DominoData[];
-  boardState: { [key: string]: { dominoId: string; value: number } };
+  boardState: { [key: string]: { dominoId: number; value: number; half: 0 | 1 } }; // half as laid out
+  history: MoveHistory;
+  replay: ReplayEvent[];
+  annotations: Annotations;
   isComplete: boolean;
-  violatedConditions: string[];
+  violatedConditions: number[];
   startTime: number;
+  pausedAt: number | null; // when the clock was paused, null while it runs
+  pausedMs: number; // time spent in earlier pauses
   completionTime?: number;
 }
 
-export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
+// Milliseconds of play since the attempt started, leaving out time spent paused
+const activeTime = ({ startTime, pausedAt, pausedMs }: Pick<GameState, 'startTime' | 'pausedAt' | 'pausedMs'>) =>
+  (pausedAt ?? Date.now()) - startTime - pausedMs;
+
+// Domino placements in the shape the server verifies. Pencil marks are left out, so they
+// never affect whether the board counts as solved.
+const collectPlacements = (state: GameState): DominoPlacement[] =>
+  state.dominoes.flatMap(domino => domino.position ? [{ domino_id: domino.id, position: domino.position }] : []);
+
+// Cell contents are always derived from the placed dominoes, so moving a domino frees its old cells
+const buildBoardState = (dominoes: DominoData[]): GameState['boardState'] => {
+  const boardState: GameState['boardState'] = {};
+  dominoes.forEach(domino => domino.position?.forEach((cell, index) => {
+    const half = (domino.flipped ? 1 - index : index) as 0 | 1;
+    boardState[cellKey(cell)] = { dominoId: domino.id, value: domino.values[index], half };
+  }));
+  return boardState;
+};
+
+// Brings back a saved attempt's board, move history, replay log and pencil marks on top
+// of a fresh state. Saved data that does not fit the puzzle is ignored. The clock comes
+// from the server, so it carries on from where it was, paused or not.
+const restoreGameState = (attempt: PuzzleAttempt, freshState: GameState): GameState => {
+  const clock = {
+    startTime: new Date(attempt.started_at).getTime(),
+    pausedAt: attempt.paused_at ? new Date(attempt.paused_at).getTime() : null,
+    pausedMs: attempt.paused_ms
+  };
+  try {
+    const saved = JSON.parse(attempt.attempt_data) as Partial<GameState>;
+    const savedDominoes = new Map((Array.isArray(saved.dominoes) ? saved.dominoes : []).map(domino => [domino.id, domino]));
+    const dominoes = freshState.dominoes.map(domino => {
+      const savedDomino = savedDominoes.get(domino.id);
+      if (!savedDomino) return domino;
+      const position = Array.isArray(savedDomino.position) && savedDomino.position.length === 2 ? savedDomino.position : undefined;
+      return {
+        ...domino,
+        position,
+        isPlaced: position !== undefined,
+        rotation: savedDomino.rotation === 'vertical' ? 'vertical' as const : 'horizontal' as const,
+        flipped: savedDomino.flipped === true
+      };
+    });
+    const history = saved.history && Array.isArray(saved.history.moves) && typeof saved.history.cursor === 'number'
+      ? saved.history
+      : EMPTY_HISTORY;
+    const replay = Array.isArray(saved.replay) ? saved.replay : [];
+    return { ...freshState, dominoes, history, replay, annotations: readAnnotations(saved.annotations), ...clock };
+  } catch {
+    return { ...freshState, ...clock };
+  }
+};
+
+export function GameBoard({ puzzle, user, onComplete, playback }: GameBoardProps) {
+  const isReadOnly = playback !== undefined;
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [currentAttempt, setCurrentAttempt] = useState<PuzzleAttempt | null>(null);
-  const [draggedDomino, setDraggedDomino] = useState<string | null>(null);
+  const [placementError, setPlacementError] = useState<string | null>(null);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [achievement, setAchievement] = useState<Achievement | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [hintMessage, setHintMessage] = useState<string | null>(null);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [isHinting, setIsHinting] = useState(false);
+  const [wrongDominoIds, setWrongDominoIds] = useState<number[]>([]);
+  const [checkMessage, setCheckMessage] = useState<string | null>(null);
+  const [mistakes, setMistakes] = useState(0);
+  const [isChecking, setIsChecking] = useState(false);
+  const [cursor, setCursor] = useState<Cell>([0, 0]);
+  const [selectedDominoId, setSelectedDominoId] = useState<number | null>(null);
+  const [isBoardFocused, setIsBoardFocused] = useState(false);
+  const [isPencilMode, setIsPencilMode] = useState(false);
+  const [mode, setMode] = useState<PlayMode | null>(null); // chosen by a logged-in player before play starts
+  const [modeError, setModeError] = useState<string | null>(null);
 
-  // Parse puzzle data
-  const boardData = useMemo<BoardData>(() => {
-    try {
-      const board = JSON.parse(puzzle.board_data);
-      const conditions = JSON.parse(puzzle.conditions_data);
-      return { regions: board, conditions };
-    } catch (error) {
-      console.error('Failed to parse puzzle data:', error);
-      return { regions: {}, conditions: {} };
+  // Parse puzzle data against the shared puzzle model
+  const content = useMemo<PuzzleContent | null>(() => {
+    const result = parsePuzzleContent({ ...puzzle, solution_data: null });
+    if (!result.success) {
+      console.error('Failed to parse puzzle data:', result.error);
+      return null;
     }
-  }, [puzzle.board_data, puzzle.conditions_data]);
+    return result.data;
+  }, [puzzle]);
 
-  const dominoesData = useMemo<DominoData[]>(() => {
-    try {
-      const dominoes = JSON.parse(puzzle.dominoes_data);
-      return dominoes.map((domino: any, index: number) => ({
-        id: `domino-${index}`,
-        values: domino.values,
-        rotation: 'horizontal' as const,
-        isPlaced: false
-      }));
-    } catch (error) {
-      console.error('Failed to parse dominoes data:', error);
-      return [];
-    }
-  }, [puzzle.dominoes_data]);
+  const regions = useMemo(() => content?.board_data.regions ?? [], [content]);
+  const conditions = useMemo(() => content?.conditions_data.conditions ?? [], [content]);
+  const voidCells = useMemo(() => new Set((content?.board_data.voids ?? []).map(cellKey)), [content]);
+
+  // Region lookup by cell key
+  const cellRegions = useMemo(() => {
+    const lookup = new Map<string, Region>();
+    regions.forEach(region => region.cells.forEach(cell => lookup.set(cellKey(cell), region)));
+    return lookup;
+  }, [regions]);
+
+  const dominoesData = useMemo(() => createDominoData(content?.dominoes_data.dominoes ?? []), [content]);
+
+  // The pip values worth pencilling in
+  const pipValues = useMemo(() => [...new Set(dominoesData.flatMap(domino => domino.values))].sort((a, b) => a - b), [dominoesData]);
 
-  // Initialize game state
+  // Timer effect, counting active time only
+  const startTime = gameState?.startTime;
+  const pausedAt = gameState?.pausedAt ?? null;
+  const pausedMs = gameState?.pausedMs ?? 0;
   useEffect(() => {
-    const newGameState: GameState = {
-      dominoes: dominoesData,
-      boardState: {},
-      isComplete: false,
-      violatedConditions: [],
-      startTime: Date.now()
+    if (!isReadOnly && startTime !== undefined && !gameState?.isComplete) {
+      const tick = () => setElapsedTime(activeTime({ startTime, pausedAt, pausedMs }));
+      tick();
+      const timer = setInterval(tick, 100);
+      return () => clearInterval(timer);
+    }
+  }, [isReadOnly, gameState?.isComplete, startTime, pausedAt, pausedMs]);
+
+  // Check win conditions with the same rules the server uses to verify completion
+  const checkWinConditions = useCallback((state: GameState): BoardEvaluation | null =>
+    content ? evaluateBoard(content, collectPlacements(state)) : null,
+  [content]);
+
+  // Derives the board and its evaluation from the dominoes
+  const evaluateState = useCallback((state: GameState): GameState => {
+    const evaluatedState = { ...state, boardState: buildBoardState(state.dominoes) };
+    const evaluation = checkWinConditions(evaluatedState);
+    return {
+      ...evaluatedState,
+      violatedConditions: evaluation?.violated_regions ?? [],
+      isComplete: evaluation?.is_solved ?? false
     };
+  }, [checkWinConditions]);
+
+  const createFreshState = useCallback((): GameState => ({
+    dominoes: dominoesData,
+    boardState: {},
+    history: EMPTY_HISTORY,
+    replay: [],
+    annotations: EMPTY_ANNOTATIONS,
+    isComplete: false,
+    violatedConditions: [],
+    startTime: Date.now(),
+    pausedAt: null,
+    pausedMs: 0
+  }), [dominoesData]);
+
+  // Initialize game state, resuming the player's unfinished attempt in the chosen mode
+  // when there is one
+  useEffect(() => {
+    const newGameState = createFreshState();
     setGameState(newGameState);
+    setCurrentAttempt(null);
+    setHintsUsed(0);
+    setMistakes(0);
+    setWrongDominoIds([]);
 
-    // Create or load puzzle attempt
-    if (user) {
-      const createAttempt = async () => {
+    if (user && !isReadOnly && mode) {
+      const loadAttempt = async () => {
         try {
-          const attempt = await trpc.createPuzzleAttempt.mutate({
-            user_id: user.id,
+          const attempt = await trpc.getOrCreateActiveAttempt.mutate({
             puzzle_id: puzzle.id,
-            attempt_data: JSON.stringify(newGameState)
+            attempt_data: JSON.stringify(newGameState),
+            mode
           });
           setCurrentAttempt(attempt);
+          setHintsUsed(attempt.hints_used);
+          setMistakes(attempt.mistakes);
+          setGameState(evaluateState(restoreGameState(attempt, newGameState)));
         } catch (error) {
-          console.error('Failed to create puzzle attempt:', error);
+          console.error('Failed to load puzzle attempt:', error);
+          // Most likely the puzzle has already been played ranked; let the player pick again
+          setModeError(error instanceof Error ? error.message : 'The puzzle could not be started.');
+          setMode(null);
         }
       };
-      createAttempt();
+      loadAttempt();
     }
-  }, [dominoesData, puzzle.id, user]);
+  }, [createFreshState, evaluateState, isReadOnly, puzzle.id, user, mode]);
 
-  // Timer effect
+  // A played-back board simply follows the recording
   useEffect(() => {
-    if (!gameState?.isComplete) {
-      const timer = setInterval(() => {
-        setElapsedTime(Date.now() - (gameState?.startTime || Date.now()));
-      }, 100);
-      return () => clearInterval(timer);
+    if (playback) {
+      setGameState(evaluateState({ ...createFreshState(), dominoes: playback.dominoes }));
     }
-  }, [gameState?.isComplete, gameState?.startTime]);
-
-  // Check win conditions
-  const checkWinConditions = useCallback((state: GameState): string[] => {
-    const violated: string[] = [];
-    
-    Object.entries(boardData.conditions).forEach(([regionId, condition]) => {
-      const region = boardData.regions[regionId];
-      if (!region) return;
-
-      const regionValues: number[] = [];
-      region.cells.forEach(cellId => {
-        const cell = state.boardState[cellId];
-        if (cell) {
-          regionValues.push(cell.value);
-        }
-      });
-
-      if (regionValues.length === 0) return;
-
-      let conditionMet = false;
-      switch (condition.type) {
-        case 'sum':
-          conditionMet = regionValues.reduce((a, b) => a + b, 0) === condition.value;
-          break;
-        case 'product':
-          conditionMet = regionValues.reduce((a, b) => a * b, 1) === condition.value;
-          break;
-        case 'difference':
-          conditionMet = regionValues.length === 2 && 
-            Math.abs(regionValues[0] - regionValues[1]) === condition.value;
-          break;
-        case 'equality':
-          conditionMet = regionValues.every(val => val === regionValues[0]);
-          break;
-        case 'greater_than':
-          conditionMet = regionValues.every(val => val > (condition.value as number));
-          break;
-        case 'less_than':
-          conditionMet = regionValues.every(val => val < (condition.value as number));
-          break;
-      }
-
-      if (!conditionMet) {
-        violated.push(regionId);
-      }
-    });
-
-    return violated;
-  }, [boardData]);
+  }, [playback, createFreshState, evaluateState]);
 
   // Update game state and check for completion
-  const updateGameState = useCallback((newState: Partial<GameState>) => {
+  const updateGameState = useCallback((newState: Partial<GameState> | ((prevState: GameState) => Partial<GameState>)) => {
+    if (isReadOnly) return;
     setGameState(prevState => {
-      if (!prevState) return null;
+      // Nothing changes while the clock is paused
+      if (!prevState || prevState.pausedAt) return prevState;
       
-      const updatedState = { ...prevState, ...newState };
-      const violatedConditions = checkWinConditions(updatedState);
-      const allDominoesPlaced = updatedState.dominoes.every(d => d.isPlaced);
-      const isComplete = allDominoesPlaced && violatedConditions.length === 0;
+      const updatedState = evaluateState({ ...prevState, ...(typeof newState === 'function' ? newState(prevState) : newState) });
+      const isComplete = updatedState.isComplete;
       
       const finalState = {
         ...updatedState,
-        violatedConditions,
-        isComplete,
-        completionTime: isComplete && !prevState.isComplete ? Date.now() - prevState.startTime : prevState.completionTime
+        completionTime: isComplete && !prevState.isComplete ? activeTime(prevState) : prevState.completionTime
       };
 
       // Handle completion
       if (isComplete && !prevState.isComplete) {
         setShowSuccess(true);
-        handlePuzzleComplete(finalState);
       }
 
-      // Save attempt if user is logged in
-      if (user && currentAttempt) {
+      // Save attempt if user is logged in; the server decides whether it is complete
+      if (user && currentAttempt && !currentAttempt.is_completed) {
         const saveAttempt = async () => {
           try {
-            await trpc.updatePuzzleAttempt.mutate({
+            const savedAttempt = await trpc.updatePuzzleAttempt.mutate({
               id: currentAttempt.id,
-              attempt_data: JSON.stringify(finalState),
-              is_completed: isComplete,
-              completion_time: finalState.completionTime ? Math.floor(finalState.completionTime / 1000) : null,
-              completed_at: isComplete ? new Date() : null
+              attempt_data: JSON.stringify({ ...finalState, placements: collectPlacements(finalState) })
             });
+            if (savedAttempt.is_completed) {
+              setCurrentAttempt(savedAttempt);
+              handlePuzzleComplete(savedAttempt);
+            }
           } catch (error) {
             console.error('Failed to save attempt:', error);
           }
@@ -200,74 +295,401 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
 
       return finalState;
     });
-  }, [checkWinConditions, user, currentAttempt]);
-
-  // Handle puzzle completion
-  const handlePuzzleComplete = async (completedState: GameState) => {
-    if (!user || !completedState.completionTime) return;
+  }, [evaluateState, isReadOnly, user, currentAttempt]);
 
+  // Handle puzzle completion once the server has verified the attempt. Only ranked play
+  // earns achievements.
+  const handlePuzzleComplete = async (completedAttempt: PuzzleAttempt) => {
+    if (completedAttempt.mode !== 'ranked') return;
     try {
-      const completionSeconds = Math.floor(completedState.completionTime / 1000);
-      const isCookieTrifecta = completionSeconds <= 60; // Fast completion threshold
-
-      await trpc.createAchievement.mutate({
-        user_id: user.id,
-        puzzle_id: puzzle.id,
-        difficulty_level: puzzle.difficulty_level,
-        completion_time: completionSeconds,
-        is_cookie_trifecta: isCookieTrifecta
-      });
+      setAchievement(await trpc.createAchievement.mutate({ attempt_id: completedAttempt.id }));
     } catch (error) {
       console.error('Failed to create achievement:', error);
     }
   };
 
-  // Handle domino drag and drop
-  const handleDominoMove = (dominoId: string, targetCellId: string | null) => {
-    if (!gameState) return;
+  // The cells a domino would cover with its held half on `target`, or why it cannot go there
+  const resolvePlacement = (state: GameState, domino: DominoData, target: Cell, half: 0 | 1) => {
+    const position = getDominoPosition(target, domino, half);
+    if (!position.every(cell => isInsideGrid(cell, puzzle.grid_width, puzzle.grid_height) && !voidCells.has(cellKey(cell)))) {
+      return { position, error: 'That domino does not fit inside the board there.' };
+    }
+    // A domino may be dropped over its own previous cells
+    const blocked = position.some(cell => {
+      const occupant = state.boardState[cellKey(cell)];
+      return occupant && occupant.dominoId !== domino.id;
+    });
+    return { position, error: blocked ? 'Those cells are already covered by another domino.' : null };
+  };
+
+  // Handle domino placement. `target` is the cell the held half is dropped on; a null
+  // target returns the domino to the tray. Returns false when the move is refused.
+  const handleDominoMove = (dominoId: number, target: Cell | null, half: 0 | 1 = 0): boolean => {
+    if (!gameState || isReadOnly || gameState.pausedAt) return false;
 
     const domino = gameState.dominoes.find(d => d.id === dominoId);
+    if (!domino) return false;
+
+    let position: [Cell, Cell] | undefined;
+    if (target) {
+      const placement = resolvePlacement(gameState, domino, target, half);
+      if (placement.error) {
+        setPlacementError(placement.error);
+        return false;
+      }
+      position = placement.position;
+    }
+
+    setPlacementError(null);
+    if (position) {
+      if (domino.position && position.every((cell, index) => cellKey(cell) === cellKey(domino.position![index]))) return true;
+      commitMove({ type: 'place', domino_id: dominoId, from: domino.position ?? null, to: position });
+    } else if (domino.position) {
+      commitMove({ type: 'remove', domino_id: dominoId, from: domino.position });
+    }
+    return true;
+  };
+
+  // Applies a player's move and records it in the history and the replay log
+  const commitMove = (move: DominoMove) => {
+    setHint(null);
+    setWrongDominoIds([]);
+    setCheckMessage(null);
+    updateGameState(prevState => ({
+      dominoes: applyMove(prevState.dominoes, move),
+      history: pushMove(prevState.history, move),
+      replay: [...prevState.replay, { at: activeTime(prevState), type: 'move', move }]
+    }));
+  };
+
+  // Step backwards or forwards through the move history
+  const undoMove = useCallback(() => {
+    setPlacementError(null);
+    setWrongDominoIds([]);
+    updateGameState(prevState => {
+      const { dominoes, history, replay } = prevState;
+      if (!canUndo(history)) return {};
+      const move = history.moves[history.cursor - 1];
+      return {
+        dominoes: applyMove(dominoes, move, true),
+        history: { ...history, cursor: history.cursor - 1 },
+        replay: [...replay, { at: activeTime(prevState), type: 'move', move: invertMove(move) }]
+      };
+    });
+  }, [updateGameState]);
+
+  const redoMove = useCallback(() => {
+    setPlacementError(null);
+    setWrongDominoIds([]);
+    updateGameState(prevState => {
+      const { dominoes, history, replay } = prevState;
+      if (!canRedo(history)) return {};
+      const move = history.moves[history.cursor];
+      return {
+        dominoes: applyMove(dominoes, move),
+        history: { ...history, cursor: history.cursor + 1 },
+        replay: [...replay, { at: activeTime(prevState), type: 'move', move }]
+      };
+    });
+  }, [updateGameState]);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z (or Ctrl+Y) redoes, outside ranked play
+  const isRanked = currentAttempt?.mode === 'ranked';
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isRanked || !(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoMove();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoMove();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isRanked, undoMove, redoMove]);
+
+  // Ask the server's solver for a hint on the current board
+  const requestHint = async (level: HintLevel) => {
+    if (!gameState || !currentAttempt) return;
+
+    setIsHinting(true);
+    try {
+      const result = await trpc.getHint.mutate({
+        attempt_id: currentAttempt.id,
+        attempt_data: JSON.stringify({ placements: collectPlacements(gameState) }),
+        level
+      });
+      setHint(result.hint);
+      setHintsUsed(result.hints_used);
+      setHintMessage(null);
+      updateGameState(prevState => ({
+        replay: [...prevState.replay, { at: activeTime(prevState), type: 'hint', hint: result.hint }]
+      }));
+    } catch (error) {
+      console.error('Failed to get hint:', error);
+      setHint(null);
+      setHintMessage('No hint is available right now.');
+    } finally {
+      setIsHinting(false);
+    }
+  };
+
+  // Asks the server which placed dominoes are wrong. It never says where they belong,
+  // and each check counts as a mistake on the attempt.
+  const checkProgress = async () => {
+    if (!gameState || !currentAttempt) return;
+
+    setIsChecking(true);
+    try {
+      const result = await trpc.checkAttempt.mutate({
+        attempt_id: currentAttempt.id,
+        attempt_data: JSON.stringify({ placements: collectPlacements(gameState) })
+      });
+      setWrongDominoIds(result.wrong_placements);
+      setMistakes(result.mistakes);
+      setCheckMessage(result.wrong_placements.length === 0
+        ? 'Everything placed so far is correct.'
+        : `${result.wrong_placements.length} placed ${result.wrong_placements.length === 1 ? 'domino is' : 'dominoes are'} wrong.`);
+    } catch (error) {
+      console.error('Failed to check attempt:', error);
+      setWrongDominoIds([]);
+      setCheckMessage('Your board could not be checked right now.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // Cells a hint points at, with the value to show on them when it gives one away
+  const shownHint = playback ? playback.hint : hint;
+  const hintedCells = useMemo(() => {
+    const cells = new Map<string, number | null>();
+    if (shownHint?.level === 'region') {
+      regions.find(r => r.id === shownHint.region_id)?.cells.forEach(cell => cells.set(cellKey(cell), null));
+    } else if (shownHint?.level === 'cell') {
+      cells.set(cellKey(shownHint.cell), shownHint.value);
+    } else if (shownHint?.level === 'placement') {
+      const values = gameState?.dominoes.find(d => d.id === shownHint.placement.domino_id)?.values;
+      shownHint.placement.position.forEach((cell, half) => cells.set(cellKey(cell), values?.[half] ?? null));
+    }
+    return cells;
+  }, [shownHint, regions, gameState?.dominoes]);
+
+  const getHintText = (shownHint: Hint) => {
+    switch (shownHint.level) {
+      case 'region': return 'Focus on the highlighted region.';
+      case 'cell': return `The highlighted cell holds a ${shownHint.value}.`;
+      case 'placement': return 'The highlighted domino belongs exactly there.';
+    }
+  };
+
+  // Start over with an empty board. The old attempt is kept on the server as abandoned.
+  // A finished ranked puzzle can only be played again as practice.
+  const restartPuzzle = async () => {
+    if (!isRanked && !window.confirm('Restart this puzzle? Your current progress will be lost.')) return;
+
+    const newGameState = createFreshState();
+    setGameState(newGameState);
+    setShowSuccess(false);
+    setAchievement(null);
+    setHint(null);
+    setHintMessage(null);
+    setPlacementError(null);
+    setHintsUsed(0);
+    setMistakes(0);
+    setWrongDominoIds([]);
+    setCheckMessage(null);
+    setSelectedDominoId(null);
+
+    if (isRanked) {
+      setMode('practice');
+      return;
+    }
+    if (!user || !currentAttempt) return;
+    try {
+      const attempt = currentAttempt.is_completed
+        ? await trpc.getOrCreateActiveAttempt.mutate({
+            puzzle_id: puzzle.id,
+            attempt_data: JSON.stringify(newGameState)
+          })
+        : await trpc.restartPuzzleAttempt.mutate({ id: currentAttempt.id, attempt_data: JSON.stringify(newGameState) });
+      setCurrentAttempt(attempt);
+      setGameState({ ...newGameState, startTime: new Date(attempt.started_at).getTime() });
+    } catch (error) {
+      console.error('Failed to restart puzzle attempt:', error);
+    }
+  };
+
+  // Stop the clock and hide the board. The server keeps its own record of paused time,
+  // which is what completion_time is worked out from.
+  const pauseGame = useCallback(() => {
+    setGameState(prevState => prevState && !prevState.pausedAt && !prevState.isComplete
+      ? { ...prevState, pausedAt: Date.now() }
+      : prevState);
+    if (currentAttempt && !currentAttempt.is_completed) {
+      trpc.pausePuzzleAttempt.mutate({ id: currentAttempt.id })
+        .catch(error => console.error('Failed to pause puzzle attempt:', error));
+    }
+  }, [currentAttempt]);
+
+  // The board stays hidden until the server has restarted the clock, so no move can
+  // reach it while the attempt still counts as paused
+  const resumeGame = async () => {
+    let serverPausedMs: number | null = null;
+    if (currentAttempt && !currentAttempt.is_completed) {
+      try {
+        serverPausedMs = (await trpc.resumePuzzleAttempt.mutate({ id: currentAttempt.id })).paused_ms;
+      } catch (error) {
+        console.error('Failed to resume puzzle attempt:', error);
+      }
+    }
+    setGameState(prevState => prevState?.pausedAt
+      ? { ...prevState, pausedAt: null, pausedMs: serverPausedMs ?? prevState.pausedMs + Date.now() - prevState.pausedAt }
+      : prevState);
+  };
+
+  // Hiding the tab pauses the game
+  useEffect(() => {
+    if (isReadOnly) return;
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [isReadOnly, pauseGame]);
+
+  // Handle domino rotation, a quarter turn clockwise through all four orientations
+  const handleDominoRotate = (dominoId: number) => {
+    const domino = gameState?.dominoes.find(d => d.id === dominoId);
     if (!domino) return;
 
-    updateGameState({
-      dominoes: gameState.dominoes.map(d => {
-        if (d.id === dominoId) {
-          if (targetCellId) {
-            // Place domino on board
-            const cells = domino.rotation === 'horizontal' 
-              ? [targetCellId, `${targetCellId}-right`] // This is simplified - real implementation would calculate adjacent cells
-              : [targetCellId, `${targetCellId}-below`];
-            
-            return { ...d, isPlaced: true, position: { x: 0, y: 0 } }; // Position would be calculated from cellId
-          } else {
-            // Remove from board
-            return { ...d, isPlaced: false, position: undefined };
-          }
+    const from = { rotation: domino.rotation, flipped: domino.flipped };
+    commitMove({ type: 'rotate', domino_id: dominoId, from, to: turnClockwise(from) });
+  };
+
+  // Handle domino flip, which swaps the order of its halves
+  const handleDominoFlip = (dominoId: number) => {
+    if (!gameState?.dominoes.some(d => d.id === dominoId)) return;
+    commitMove({ type: 'flip', domino_id: dominoId });
+  };
+
+  // Pencil marks are notes rather than moves, so they are saved but stay out of the
+  // undo history and the replay
+  const updateAnnotations = (update: (annotations: Annotations) => Annotations) => {
+    updateGameState(prevState => ({ annotations: update(prevState.annotations) }));
+  };
+
+  // Keyboard play on the focused board: arrow keys move the cursor, number keys or Tab
+  // pick a domino from the tray, R rotates and F flips it, Enter places it at the cursor
+  // (or picks up the domino already there) and Backspace returns a domino to the tray.
+  // P toggles pencil mode, where digits mark candidates and Shift+arrows mark boundaries.
+  const handleBoardKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (!gameState || isReadOnly || gameState.pausedAt || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const trayDominoes = gameState.dominoes.filter(d => !d.isPlaced);
+    const selected = gameState.dominoes.find(d => d.id === selectedDominoId);
+    const occupant = gameState.boardState[cellKey(cursor)];
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+
+    switch (key) {
+      case 'ArrowUp':
+      case 'ArrowDown':
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const [rowStep, colStep] = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] }[key];
+        const next: Cell = [cursor[0] + rowStep, cursor[1] + colStep];
+        if (!isInsideGrid(next, puzzle.grid_width, puzzle.grid_height)) break;
+        if (isPencilMode && e.shiftKey) {
+          updateAnnotations(annotations => toggleEdge(annotations, cursor, next));
+        } else {
+          setCursor(next);
+        }
+        break;
+      }
+      case 'Tab': {
+        const index = trayDominoes.findIndex(d => d.id === selectedDominoId);
+        const next = trayDominoes[e.shiftKey ? (index === -1 ? trayDominoes.length - 1 : index - 1) : index + 1];
+        // Tabbing past either end of the tray moves focus on as usual
+        if (!next) {
+          setSelectedDominoId(null);
+          return;
         }
-        return d;
-      }),
-      boardState: targetCellId && domino ? {
-        ...gameState.boardState,
-        [targetCellId]: { dominoId, value: domino.values[0] },
-        [`${targetCellId}-${domino.rotation === 'horizontal' ? 'right' : 'below'}`]: { 
-          dominoId, 
-          value: domino.values[1] 
+        setSelectedDominoId(next.id);
+        break;
+      }
+      case 'r':
+      case 'f':
+        // Only dominoes in the tray can be turned
+        if (!selected || selected.isPlaced) return;
+        if (key === 'r') {
+          handleDominoRotate(selected.id);
+        } else {
+          handleDominoFlip(selected.id);
         }
-      } : gameState.boardState
-    });
+        break;
+      case 'Enter':
+      case ' ':
+        if (selected) {
+          if (handleDominoMove(selected.id, cursor)) setSelectedDominoId(null);
+        } else if (occupant) {
+          setSelectedDominoId(occupant.dominoId);
+        }
+        break;
+      case 'Backspace':
+      case 'Delete':
+        if (occupant) {
+          handleDominoMove(occupant.dominoId, null);
+        } else if (isPencilMode) {
+          updateAnnotations(annotations => clearCandidates(annotations, cursor));
+        }
+        break;
+      case 'p':
+        setIsPencilMode(!isPencilMode);
+        break;
+      case 'Escape':
+        setSelectedDominoId(null);
+        setPlacementError(null);
+        break;
+      default: {
+        if (isPencilMode && /^[0-9]$/.test(key)) {
+          if (!occupant && !voidCells.has(cellKey(cursor))) {
+            updateAnnotations(annotations => toggleCandidate(annotations, cursor, Number(key)));
+          }
+          break;
+        }
+        if (!/^[1-9]$/.test(key)) return;
+        const domino = trayDominoes[Number(key) - 1];
+        if (domino) setSelectedDominoId(domino.id);
+      }
+    }
+    e.preventDefault();
   };
 
-  // Handle domino rotation
-  const handleDominoRotate = (dominoId: string) => {
-    if (!gameState) return;
+  // Pointer drag and drop for mouse and touch alike. A tap turns a tray domino and sends
+  // a placed one back to the tray, as a click always has.
+  const { drag, startDrag } = usePointerDrag({
+    onTap: ({ dominoId }: DragSource) => {
+      if (gameState?.dominoes.find(d => d.id === dominoId)?.isPlaced) {
+        handleDominoMove(dominoId, null);
+      } else {
+        handleDominoRotate(dominoId);
+      }
+    },
+    onDrop: ({ dominoId, half }: DragSource, target: DropTarget) => {
+      if (target?.type === 'cell') {
+        handleDominoMove(dominoId, target.cell, half);
+      } else if (target?.type === 'tray') {
+        handleDominoMove(dominoId, null);
+      }
+    }
+  });
 
-    updateGameState({
-      dominoes: gameState.dominoes.map(d => 
-        d.id === dominoId 
-          ? { ...d, rotation: d.rotation === 'horizontal' ? 'vertical' : 'horizontal' }
-          : d
-      )
-    });
+  // Squares off the inner edges of a placed domino so its two halves read as one piece
+  const getHalfClass = (rotation: DominoRotation, half: 0 | 1) => {
+    if (rotation === 'horizontal') return half === 0 ? 'rounded-r-none border-r-0' : 'rounded-l-none border-l-0';
+    return half === 0 ? 'rounded-b-none border-b-0' : 'rounded-t-none border-t-0';
   };
 
   const formatTime = (ms: number) => {
@@ -276,28 +698,96 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
     return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
   };
 
-  const getConditionText = (condition: { type: string; value: number | string }) => {
-    switch (condition.type) {
-      case 'sum': return `Σ = ${condition.value}`;
-      case 'product': return `Π = ${condition.value}`;
-      case 'difference': return `|a-b| = ${condition.value}`;
-      case 'equality': return 'All Equal';
-      case 'greater_than': return `> ${condition.value}`;
-      case 'less_than': return `< ${condition.value}`;
-      default: return condition.type;
-    }
-  };
+  if (!content) {
+    return (
+      <Alert className="border-red-200 bg-red-50">
+        <AlertDescription>This puzzle's data is invalid and it cannot be played.</AlertDescription>
+      </Alert>
+    );
+  }
 
   if (!gameState) {
     return <div className="flex justify-center items-center h-64">Loading puzzle...</div>;
   }
 
+  if (user && !isReadOnly && !mode) {
+    return (
+      <Card className="max-w-xl mx-auto">
+        <CardHeader>
+          <CardTitle>How do you want to play {puzzle.title}?</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {modeError && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription>{modeError}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <Button variant="outline" className="h-auto flex-col items-start gap-1 p-4 whitespace-normal text-left" onClick={() => setMode('ranked')}>
+              <span className="font-semibold">🏆 Ranked</span>
+              <span className="text-xs text-gray-600">One try. No hints, checks or undo. Earns achievements and the 🍪 Cookie Trifecta.</span>
+            </Button>
+            <Button variant="outline" className="h-auto flex-col items-start gap-1 p-4 whitespace-normal text-left" onClick={() => setMode('practice')}>
+              <span className="font-semibold">🎯 Practice</span>
+              <span className="text-xs text-gray-600">Play as often as you like with hints, checks and undo. No achievements.</span>
+            </Button>
+          </div>
+          <Button onClick={onComplete} variant="ghost" className="w-full">Exit Puzzle</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Where the selected domino would land if placed at the keyboard cursor
+  const selectedDomino = gameState.dominoes.find(d => d.id === selectedDominoId);
+  const previewCells = new Set(isBoardFocused && selectedDomino ? getDominoCells(cursor, selectedDomino.rotation).map(cellKey) : []);
+
+  // Snap preview of the two cells a dragged domino would land on
+  const draggedDomino = drag && gameState.dominoes.find(d => d.id === drag.source.dominoId);
+  const dragPlacement = draggedDomino && drag.target?.type === 'cell'
+    ? resolvePlacement(gameState, draggedDomino, drag.target.cell, drag.source.half)
+    : null;
+  const dropCells = new Set(dragPlacement?.position.map(cellKey) ?? []);
+
+  const markedEdges = new Set(gameState.annotations.edges);
+
+  // Read out to screen readers as the cursor moves
+  const cursorState = gameState.boardState[cellKey(cursor)];
+  const cursorDescription = [
+    `Row ${cursor[0] + 1}, column ${cursor[1] + 1}`,
+    voidCells.has(cellKey(cursor)) ? 'not part of the board' : cursorState ? `holds ${cursorState.value}` : 'empty',
+    selectedDomino ? `holding domino ${selectedDomino.values.join('-')}` : null
+  ].filter(Boolean).join(', ');
+
   return (
     <div className="space-y-6">
+      {/* Ghost piece following the pointer, held by the half that was picked up */}
+      {drag && draggedDomino && (
+        <div
+          className={`fixed z-50 pointer-events-none flex gap-0.5 opacity-80 ${draggedDomino.rotation === 'horizontal' ? 'flex-row' : 'flex-col'}`}
+          style={{
+            left: drag.x,
+            top: drag.y,
+            transform: draggedDomino.rotation === 'horizontal'
+              ? `translate(${drag.source.half === 0 ? '-25%' : '-75%'}, -50%)`
+              : `translate(-50%, ${drag.source.half === 0 ? '-25%' : '-75%'})`
+          }}
+          aria-hidden="true"
+        >
+          {(draggedDomino.flipped ? [...draggedDomino.values].reverse() : draggedDomino.values).map((value, half) => (
+            <div key={half} className="w-12 h-12 bg-gray-800 text-white rounded shadow-lg text-sm font-bold flex items-center justify-center">
+              {value}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Game Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <div className="text-2xl font-mono">⏱️ {formatTime(elapsedTime)}</div>
+          <div className="text-2xl font-mono">
+            {gameState.pausedAt ? '⏸️' : '⏱️'} {formatTime(playback?.elapsed ?? elapsedTime)}
+          </div>
           <Progress 
             value={(gameState.dominoes.filter(d => d.isPlaced).length / gameState.dominoes.length) * 100} 
             className="w-32"
@@ -305,8 +795,62 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
           <span className="text-sm text-gray-600">
             {gameState.dominoes.filter(d => d.isPlaced).length} / {gameState.dominoes.length} dominoes placed
           </span>
+          {currentAttempt && (
+            <Badge variant="outline">{isRanked ? '🏆 Ranked' : '🎯 Practice'}</Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {!isReadOnly && (
+            <>
+              <Button
+                onClick={gameState.pausedAt ? resumeGame : pauseGame}
+                variant="outline"
+                disabled={gameState.isComplete}
+                title={gameState.pausedAt ? 'Resume the clock' : 'Pause the clock and hide the board'}
+              >
+                {gameState.pausedAt ? '▶ Resume' : '⏸ Pause'}
+              </Button>
+              <Button
+                onClick={() => setIsPencilMode(!isPencilMode)}
+                variant={isPencilMode ? 'default' : 'outline'}
+                aria-pressed={isPencilMode}
+                title="Pencil marks (P)"
+              >
+                ✏️ Pencil
+              </Button>
+              {!isRanked && (
+                <>
+                  <Button
+                    onClick={undoMove}
+                    variant="outline"
+                    disabled={!canUndo(gameState.history) || gameState.isComplete}
+                    title="Undo (Ctrl+Z)"
+                  >
+                    ↶ Undo
+                  </Button>
+                  <Button
+                    onClick={redoMove}
+                    variant="outline"
+                    disabled={!canRedo(gameState.history) || gameState.isComplete}
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    ↷ Redo
+                  </Button>
+                </>
+              )}
+              {isRanked ? gameState.isComplete && (
+                <Button onClick={restartPuzzle} variant="outline" title="Play this puzzle again in practice mode">
+                  🎯 Practice
+                </Button>
+              ) : (
+                <Button onClick={restartPuzzle} variant="outline" title="Start over with an empty board">
+                  🔄 Restart
+                </Button>
+              )}
+            </>
+          )}
+          <Button onClick={onComplete} variant="outline">{isReadOnly ? 'Close Replay' : 'Exit Puzzle'}</Button>
         </div>
-        <Button onClick={onComplete} variant="outline">Exit Puzzle</Button>
       </div>
 
       {/* Success Alert */}
@@ -314,8 +858,8 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
         <Alert className="border-green-200 bg-green-50">
           <AlertDescription className="flex items-center gap-2">
             🎉 <strong>Puzzle Complete!</strong> 
-            Finished in {formatTime(gameState.completionTime || 0)}
-            {gameState.completionTime && gameState.completionTime <= 60000 && (
+            Finished in {formatTime(achievement ? achievement.completion_time * 1000 : gameState.completionTime || 0)}
+            {achievement?.is_cookie_trifecta && (
               <Badge className="bg-yellow-100 text-yellow-800 ml-2">
                 🍪 Cookie Trifecta!
               </Badge>
@@ -324,6 +868,13 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
         </Alert>
       )}
 
+      {/* Rejected Placement */}
+      {placementError && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription>{placementError}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Condition Violations */}
       {gameState.violatedConditions.length > 0 && (
         <Alert className="border-orange-200 bg-orange-50">
@@ -340,48 +891,137 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
             <CardHeader>
               <CardTitle>Game Board ({puzzle.grid_width}×{puzzle.grid_height})</CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="relative">
+              {/* A paused board is hidden so the clock cannot be dodged */}
+              {gameState.pausedAt && (
+                <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-3">
+                  <div className="text-lg font-semibold text-gray-700">⏸️ Paused</div>
+                  <Button onClick={resumeGame}>▶ Resume</Button>
+                </div>
+              )}
               <div 
-                className="grid gap-1 mx-auto"
+                className={`
+                  grid gap-1 mx-auto p-1 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500
+                  ${gameState.pausedAt ? 'blur-md pointer-events-none select-none' : ''}
+                `}
+                aria-hidden={gameState.pausedAt ? true : undefined}
                 style={{ 
                   gridTemplateColumns: `repeat(${puzzle.grid_width}, 1fr)`,
                   maxWidth: '600px'
                 }}
+                tabIndex={isReadOnly ? undefined : 0}
+                aria-label="Game board"
+                aria-describedby={isReadOnly ? undefined : 'board-keyboard-help'}
+                onKeyDown={handleBoardKeyDown}
+                onFocus={() => setIsBoardFocused(true)}
+                onBlur={() => setIsBoardFocused(false)}
               >
                 {Array.from({ length: puzzle.grid_width * puzzle.grid_height }).map((_, index) => {
-                  const cellId = `cell-${index}`;
+                  const cell: Cell = [Math.floor(index / puzzle.grid_width), index % puzzle.grid_width];
+                  const cellId = cellKey(cell);
                   const cellState = gameState.boardState[cellId];
+                  const isCursor = (isBoardFocused || isPencilMode) && cellId === cellKey(cursor);
+                  const focusClass = dropCells.has(cellId)
+                    ? `outline outline-4 ${dragPlacement?.error ? 'outline-red-500' : 'outline-green-500'}`
+                    : isCursor
+                      ? 'outline outline-2 outline-offset-2 outline-blue-600'
+                      : previewCells.has(cellId) ? 'outline-dashed outline-2 outline-blue-400' : '';
+
+                  // Void cells are holes in the board
+                  if (voidCells.has(cellId)) {
+                    return <div key={cellId} data-cell={cellId} className={`aspect-square w-12 rounded ${focusClass}`} aria-hidden="true" />;
+                  }
                   
                   // Find which region this cell belongs to
-                  const regionEntry = Object.entries(boardData.regions).find(([_, region]) => 
-                    region.cells.includes(cellId)
-                  );
-                  const [regionId, region] = regionEntry || [null, null];
-                  const isViolated = regionId && gameState.violatedConditions.includes(regionId);
+                  const region = cellRegions.get(cellId);
+                  const isViolated = region && gameState.violatedConditions.includes(region.id);
+                  const placedDomino = cellState && gameState.dominoes.find(d => d.id === cellState.dominoId);
+                  const hintedValue = hintedCells.get(cellId);
+                  const candidates = gameState.annotations.candidates[cellId] ?? [];
+                  const [row, col] = cell;
+                  const edgeClass = cellState ? '' : [
+                    markedEdges.has(edgeKey(cell, [row - 1, col])) ? 'border-t-4 border-t-slate-700' : '',
+                    markedEdges.has(edgeKey(cell, [row + 1, col])) ? 'border-b-4 border-b-slate-700' : '',
+                    markedEdges.has(edgeKey(cell, [row, col - 1])) ? 'border-l-4 border-l-slate-700' : '',
+                    markedEdges.has(edgeKey(cell, [row, col + 1])) ? 'border-r-4 border-r-slate-700' : ''
+                  ].join(' ');
                   
                   return (
                     <div
                       key={cellId}
                       className={`
                         aspect-square w-12 border-2 rounded flex items-center justify-center text-sm font-bold
-                        ${region ? region.color : 'bg-gray-100'}
+                        ${region ? getRegionColorClass(region.color) : 'bg-gray-100'}
                         ${isViolated ? 'ring-2 ring-red-400' : ''}
-                        ${cellState ? 'bg-white shadow-md' : 'border-dashed border-gray-300'}
+                        ${cellState ? `bg-white shadow-md ${isReadOnly ? '' : 'cursor-grab touch-none'}` : 'border-dashed border-gray-300'}
+                        ${placedDomino ? getHalfClass(placedDomino.rotation, cellState.half) : ''}
+                        ${hintedValue !== undefined ? 'ring-4 ring-yellow-400' : ''}
+                        ${placedDomino && wrongDominoIds.includes(placedDomino.id) ? 'ring-4 ring-red-500 bg-red-50' : ''}
+                        ${placedDomino && (placedDomino.id === selectedDominoId || placedDomino.id === drag?.source.dominoId) ? 'opacity-60' : ''}
+                        ${edgeClass}
+                        ${focusClass}
                       `}
-                      onDragOver={(e) => e.preventDefault()}
-                      onDrop={(e) => {
-                        e.preventDefault();
-                        if (draggedDomino) {
-                          handleDominoMove(draggedDomino, cellId);
-                          setDraggedDomino(null);
-                        }
-                      }}
+                      data-cell={cellId}
+                      onPointerDown={cellState && !isReadOnly
+                        ? (e) => startDrag(e, { dominoId: cellState.dominoId, half: cellState.half })
+                        : undefined}
+                      onClick={!cellState && isPencilMode ? () => setCursor(cell) : undefined}
+                      title={cellState && !isReadOnly ? 'Drag to move, tap to return to the tray' : undefined}
                     >
-                      {cellState?.value}
+                      {cellState?.value ?? (hintedValue != null ? (
+                        <span className="text-yellow-600 opacity-70">{hintedValue}</span>
+                      ) : candidates.length > 0 && (
+                        <span className="grid grid-cols-3 gap-px text-[9px] leading-none font-normal text-gray-600">
+                          {candidates.map(value => <span key={value}>{value}</span>)}
+                        </span>
+                      ))}
                     </div>
                   );
                 })}
               </div>
+              {/* Pencil palette for the cell under the cursor */}
+              {isPencilMode && !isReadOnly && (
+                <div className="mt-4 flex flex-wrap items-center justify-center gap-1">
+                  <span className="text-xs text-gray-600 mr-1">✏️ Row {cursor[0] + 1}, column {cursor[1] + 1}:</span>
+                  {pipValues.map(value => (
+                    <Button
+                      key={value}
+                      size="sm"
+                      variant={gameState.annotations.candidates[cellKey(cursor)]?.includes(value) ? 'default' : 'outline'}
+                      className="w-8 px-0"
+                      disabled={!!gameState.boardState[cellKey(cursor)] || voidCells.has(cellKey(cursor))}
+                      onClick={() => updateAnnotations(annotations => toggleCandidate(annotations, cursor, value))}
+                    >
+                      {value}
+                    </Button>
+                  ))}
+                  {([['↑', -1, 0], ['↓', 1, 0], ['←', 0, -1], ['→', 0, 1]] as const).map(([arrow, rowStep, colStep]) => {
+                    const neighbor: Cell = [cursor[0] + rowStep, cursor[1] + colStep];
+                    return (
+                      <Button
+                        key={arrow}
+                        size="sm"
+                        variant={markedEdges.has(edgeKey(cursor, neighbor)) ? 'default' : 'outline'}
+                        className="w-8 px-0"
+                        disabled={!isInsideGrid(neighbor, puzzle.grid_width, puzzle.grid_height)}
+                        onClick={() => updateAnnotations(annotations => toggleEdge(annotations, cursor, neighbor))}
+                        title="Mark a domino boundary on this side"
+                      >
+                        {arrow}
+                      </Button>
+                    );
+                  })}
+                </div>
+              )}
+              {!isReadOnly && (
+                <>
+                  <p id="board-keyboard-help" className="mt-4 text-center text-xs text-gray-500">
+                    Keyboard: arrows move · 1–9 or Tab pick a domino · R rotate · F flip · Enter place · Backspace remove · Esc cancel · P pencil
+                    {isPencilMode && ' (pencil: 0–9 candidates · Shift+arrow boundary · Backspace clear)'}
+                  </p>
+                  <div className="sr-only" aria-live="polite">{isBoardFocused ? cursorDescription : ''}</div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -394,16 +1034,16 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
               <CardTitle className="text-sm">Region Conditions</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
-              {Object.entries(boardData.conditions).map(([regionId, condition]) => {
-                const region = boardData.regions[regionId];
-                const isViolated = gameState.violatedConditions.includes(regionId);
+              {conditions.map(condition => {
+                const region = regions.find(r => r.id === condition.region_id);
+                const isViolated = gameState.violatedConditions.includes(condition.region_id);
                 
                 return (
                   <div
-                    key={regionId}
+                    key={condition.region_id}
                     className={`
                       flex items-center justify-between p-2 rounded text-xs
-                      ${region ? region.color : 'bg-gray-100'}
+                      ${region ? getRegionColorClass(region.color) : 'bg-gray-100'}
                       ${isViolated ? 'ring-1 ring-red-400' : ''}
                     `}
                   >
@@ -415,31 +1055,106 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
             </CardContent>
           </Card>
 
+          {/* Hints */}
+          {isRanked ? null : isReadOnly ? (
+            shownHint && (
+              <Alert className="border-yellow-200 bg-yellow-50">
+                <AlertDescription className="text-xs">💡 {getHintText(shownHint)}</AlertDescription>
+              </Alert>
+            )
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center justify-between">
+                  💡 Hints
+                  <Badge variant="outline">{hintsUsed} used</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="grid grid-cols-3 gap-1">
+                  {(['region', 'cell', 'placement'] as const).map(level => (
+                    <Button
+                      key={level}
+                      size="sm"
+                      variant="outline"
+                      className="text-xs capitalize"
+                      disabled={!currentAttempt || isHinting || gameState.isComplete || !!gameState.pausedAt}
+                      onClick={() => requestHint(level)}
+                      title={currentAttempt ? `Get a ${level} hint` : 'Log in to use hints'}
+                    >
+                      {level}
+                    </Button>
+                  ))}
+                </div>
+                {hint && <p className="text-xs text-yellow-700">{getHintText(hint)}</p>}
+                {hintMessage && <p className="text-xs text-gray-600">{hintMessage}</p>}
+                <p className="text-xs text-gray-500">Using a hint forfeits the 🍪 Cookie Trifecta.</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Progress checks */}
+          {!isReadOnly && !isRanked && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center justify-between">
+                  ✔ Check Progress
+                  <Badge variant="outline">{mistakes} {mistakes === 1 ? 'mistake' : 'mistakes'}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full text-xs"
+                  disabled={!currentAttempt || isChecking || gameState.isComplete || !!gameState.pausedAt}
+                  onClick={checkProgress}
+                  title={currentAttempt ? 'Highlight placed dominoes that are wrong' : 'Log in to check your progress'}
+                >
+                  Check placed dominoes
+                </Button>
+                {checkMessage && <p className={`text-xs ${wrongDominoIds.length > 0 ? 'text-red-600' : 'text-gray-600'}`}>{checkMessage}</p>}
+                <p className="text-xs text-gray-500">Each check counts as a mistake.</p>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Available Dominoes */}
           <Card>
             <CardHeader>
               <CardTitle className="text-sm">Available Dominoes</CardTitle>
             </CardHeader>
-            <CardContent className="space-y-2">
-              {gameState.dominoes.filter(d => !d.isPlaced).map((domino) => (
-                <div
-                  key={domino.id}
-                  draggable
-                  onDragStart={() => setDraggedDomino(domino.id)}
-                  onClick={() => handleDominoRotate(domino.id)}
-                  className={`
-                    flex items-center gap-1 p-2 bg-white border-2 border-gray-300 rounded cursor-pointer
-                    hover:shadow-md transition-shadow
-                    ${domino.rotation === 'horizontal' ? 'flex-row' : 'flex-col'}
-                  `}
-                  title="Click to rotate, drag to place"
-                >
-                  <div className="w-6 h-6 bg-gray-800 text-white rounded text-xs flex items-center justify-center">
-                    {domino.values[0]}
-                  </div>
-                  <div className="w-6 h-6 bg-gray-800 text-white rounded text-xs flex items-center justify-center">
-                    {domino.values[1]}
+            <CardContent className="space-y-2" data-drop-tray>
+              {gameState.dominoes.filter(d => !d.isPlaced).map((domino, index) => (
+                <div key={domino.id} className="flex items-center gap-2">
+                  {!isReadOnly && (
+                    <span className="w-3 text-xs text-gray-400" aria-hidden="true">{index < 9 ? index + 1 : ''}</span>
+                  )}
+                  <div
+                    onPointerDown={isReadOnly ? undefined : (e) => startDrag(e, { dominoId: domino.id, half: 0 })}
+                    className={`
+                      flex items-center gap-1 p-2 bg-white border-2 border-gray-300 rounded cursor-pointer
+                      hover:shadow-md transition-shadow touch-none select-none
+                      ${domino.rotation === 'horizontal' ? 'flex-row' : 'flex-col'}
+                      ${domino.id === selectedDominoId ? 'ring-2 ring-blue-500 border-blue-500' : ''}
+                    `}
+                    title={isReadOnly ? undefined : 'Tap to turn clockwise, drag to place (long-press on touch screens)'}
+                  >
+                    {(domino.flipped ? [...domino.values].reverse() : domino.values).map((value, half) => (
+                      <div
+                        key={half}
+                        onPointerDown={isReadOnly ? undefined : (e) => startDrag(e, { dominoId: domino.id, half: half as 0 | 1 })}
+                        className="w-6 h-6 bg-gray-800 text-white rounded text-xs flex items-center justify-center"
+                      >
+                        {value}
+                      </div>
+                    ))}
                   </div>
+                  {!isReadOnly && (
+                    <Button size="sm" variant="ghost" onClick={() => handleDominoFlip(domino.id)} title="Flip (swap halves)">
+                      ⇄
+                    </Button>
+                  )}
                 </div>
               ))}
             </CardContent>
@@ -457,7 +1172,7 @@ export function GameBoard({ puzzle, user, onComplete }: GameBoardProps) {
                     key={domino.id}
                     onClick={() => handleDominoMove(domino.id, null)}
                     className="flex items-center gap-2 p-2 bg-green-50 border border-green-200 rounded cursor-pointer hover:bg-green-100"
-                    title="Click to remove from board"
+                    title={isReadOnly ? undefined : 'Click to remove from board'}
                   >
                     <div className="flex gap-1">
                       <div className="w-4 h-4 bg-green-600 text-white rounded text-xs flex items-center justify-center">
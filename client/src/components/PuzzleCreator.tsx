@@ -9,52 +9,54 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { TRPCClientError } from '@trpc/client';
 import { trpc } from '@/utils/trpc';
-import type { User, DifficultyLevel, ConditionType, CreatePuzzleInput } from '../../../server/src/schema';
+import { REGION_COLORS, getRegionColorClass, getConditionText } from '@/lib/puzzle';
+import { cellKey, areAdjacent } from '../../../server/src/puzzle/grid';
+import { parsePuzzleContent } from '../../../server/src/puzzle/content';
+import { canAuthorPuzzles } from '../../../server/src/auth/permissions';
+import type {
+  User,
+  DifficultyLevel,
+  ConditionType,
+  CreatePuzzleInput,
+  Cell,
+  Region,
+  Domino,
+  RegionCondition,
+  BoardData,
+  DominoesData,
+  ConditionsData
+} from '../../../server/src/schema';
+import type { AppRouter } from '../../../server/src';
+import type { PublishProblem } from '../../../server/src/puzzle/publishing';
+import type { DifficultyRating } from '../../../server/src/puzzle/difficulty';
 
 interface PuzzleCreatorProps {
   user: User | null;
 }
 
-interface RegionData {
-  id: string;
-  color: string;
-  cells: string[];
-  condition?: {
-    type: ConditionType;
-    value: number | string;
-  };
-}
-
-interface DominoData {
-  id: string;
-  values: [number, number];
-}
-
 interface CreatorState {
   title: string;
   description: string;
   difficulty: DifficultyLevel;
   gridWidth: number;
   gridHeight: number;
-  regions: { [key: string]: RegionData };
-  dominoes: DominoData[];
-  selectedTool: 'paint' | 'condition' | 'test';
+  regions: { [regionId: number]: Region };
+  conditions: { [regionId: number]: RegionCondition };
+  voids: Cell[];
+  dominoes: Domino[];
+  selectedTool: 'paint' | 'void' | 'condition' | 'test';
   selectedColor: string;
-  selectedRegion: string | null;
+  selectedRegion: number | null;
   paintMode: boolean;
 }
 
-const REGION_COLORS = [
-  { id: 'red', color: 'bg-red-200 border-red-400', name: '🔴 Red' },
-  { id: 'blue', color: 'bg-blue-200 border-blue-400', name: '🔵 Blue' },
-  { id: 'green', color: 'bg-green-200 border-green-400', name: '🟢 Green' },
-  { id: 'yellow', color: 'bg-yellow-200 border-yellow-400', name: '🟡 Yellow' },
-  { id: 'purple', color: 'bg-purple-200 border-purple-400', name: '🟣 Purple' },
-  { id: 'orange', color: 'bg-orange-200 border-orange-400', name: '🟠 Orange' },
-  { id: 'pink', color: 'bg-pink-200 border-pink-400', name: '🩷 Pink' },
-  { id: 'cyan', color: 'bg-cyan-200 border-cyan-400', name: '🔵 Cyan' }
-];
+const PUBLISH_PROBLEM_MESSAGES: Record<PublishProblem, string> = {
+  no_solution: '🚫 No arrangement of the dominoes satisfies every condition. Adjust the conditions or regenerate the dominoes.',
+  multiple_solutions: '🔀 This puzzle can be solved in more than one way. Add or tighten conditions so only one arrangement works.',
+  too_complex: '⏳ This puzzle is too complex to verify. Try a smaller grid or more specific conditions.'
+};
 
 export function PuzzleCreator({ user }: PuzzleCreatorProps) {
   const [state, setState] = useState<CreatorState>({
@@ -64,6 +66,8 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
     gridWidth: 4,
     gridHeight: 4,
     regions: {},
+    conditions: {},
+    voids: [],
     dominoes: [],
     selectedTool: 'paint',
     selectedColor: 'red',
@@ -72,64 +76,100 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
   });
 
   const [isPublishing, setIsPublishing] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isRating, setIsRating] = useState(false);
+  // Remembers which design the suggestion was made for, so edits hide a stale one
+  const [suggestion, setSuggestion] = useState<{ content: string; rating: DifficultyRating } | null>(null);
   const [publishResult, setPublishResult] = useState<{ success: boolean; message: string } | null>(null);
   const [showConditionDialog, setShowConditionDialog] = useState(false);
-  const [tempCondition, setTempCondition] = useState<{ type: ConditionType; value: string }>({
+  const [tempCondition, setTempCondition] = useState<{
+    type: ConditionType;
+    value: string;
+    max: string; // upper bound of a range; `value` holds the lower bound
+    parity: 'even' | 'odd';
+  }>({
     type: 'sum',
-    value: '10'
+    value: '10',
+    max: '6',
+    parity: 'even'
   });
 
+  const canPublish = user !== null && canAuthorPuzzles(user);
+
   // Handle grid resize
   const handleGridResize = (width: number, height: number) => {
     setState(prev => ({
       ...prev,
       gridWidth: width,
       gridHeight: height,
-      regions: {} // Clear regions when grid changes
+      regions: {}, // Clear regions when grid changes
+      conditions: {},
+      voids: []
     }));
   };
 
-  // Handle cell painting
-  const handleCellClick = (cellId: string) => {
+  // Find the region a cell has been painted into
+  const findRegion = (cell: Cell) =>
+    Object.values(state.regions).find(region => region.cells.some(c => cellKey(c) === cellKey(cell)));
+
+  const isVoid = (cell: Cell) => state.voids.some(c => cellKey(c) === cellKey(cell));
+
+  // Takes a cell out of its region and out of the voids, dropping regions left empty
+  // along with their conditions
+  const clearCell = (prev: CreatorState, cell: Cell): CreatorState => {
+    const newRegions = { ...prev.regions };
+    const newConditions = { ...prev.conditions };
+
+    Object.values(newRegions).forEach(region => {
+      newRegions[region.id] = {
+        ...region,
+        cells: region.cells.filter(c => cellKey(c) !== cellKey(cell))
+      };
+      if (newRegions[region.id].cells.length === 0) {
+        delete newConditions[region.id];
+        delete newRegions[region.id];
+      }
+    });
+
+    return {
+      ...prev,
+      regions: newRegions,
+      conditions: newConditions,
+      voids: prev.voids.filter(c => cellKey(c) !== cellKey(cell))
+    };
+  };
+
+  // Handle cell painting. A cell joins a touching region of the selected color, or
+  // starts a new region, so several regions can share a color. The void tool cuts a
+  // cell out of the board, or puts it back.
+  const handleCellClick = (cell: Cell) => {
     if (state.selectedTool === 'paint') {
-      const colorData = REGION_COLORS.find(c => c.id === state.selectedColor);
-      if (!colorData) return;
+      if (!REGION_COLORS.some(c => c.id === state.selectedColor)) return;
 
       setState(prev => {
-        const newRegions = { ...prev.regions };
-        
-        // Remove cell from any existing region
-        Object.keys(newRegions).forEach(regionId => {
-          newRegions[regionId] = {
-            ...newRegions[regionId],
-            cells: newRegions[regionId].cells.filter(c => c !== cellId)
-          };
-          // Remove empty regions
-          if (newRegions[regionId].cells.length === 0) {
-            delete newRegions[regionId];
-          }
-        });
-
-        // Add cell to selected color region
-        const regionId = state.selectedColor;
-        if (!newRegions[regionId]) {
-          newRegions[regionId] = {
-            id: regionId,
-            color: colorData.color,
-            cells: []
-          };
-        }
-        newRegions[regionId].cells.push(cellId);
-
-        return { ...prev, regions: newRegions };
+        const cleared = clearCell(prev, cell);
+        const newRegions = cleared.regions;
+
+        // Add cell to a touching region of the selected color, or start a new one
+        const touching = Object.values(newRegions).find(region =>
+          region.color === prev.selectedColor && region.cells.some(c => areAdjacent(c, cell)));
+        const regionId = touching?.id ?? Math.max(0, ...Object.values(newRegions).map(region => region.id)) + 1;
+        newRegions[regionId] = touching
+          ? { ...touching, cells: [...touching.cells, cell] }
+          : { id: regionId, color: prev.selectedColor, cells: [cell] };
+
+        return cleared;
+      });
+    } else if (state.selectedTool === 'void') {
+      const wasVoid = isVoid(cell);
+      setState(prev => {
+        const cleared = clearCell(prev, cell);
+        return wasVoid ? cleared : { ...cleared, voids: [...cleared.voids, cell] };
       });
     } else if (state.selectedTool === 'condition') {
-      // Find which region this cell belongs to
-      const regionEntry = Object.entries(state.regions).find(([_, region]) => 
-        region.cells.includes(cellId)
-      );
-      if (regionEntry) {
-        setState(prev => ({ ...prev, selectedRegion: regionEntry[0] }));
+      const region = findRegion(cell);
+      if (region) {
+        setState(prev => ({ ...prev, selectedRegion: region.id }));
         setShowConditionDialog(true);
       }
     }
@@ -137,23 +177,31 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
 
   // Handle condition setting
   const handleSetCondition = () => {
-    if (!state.selectedRegion) return;
-
-    const numericValue = ['sum', 'product', 'difference', 'greater_than', 'less_than'].includes(tempCondition.type)
-      ? parseInt(tempCondition.value) || 0
-      : tempCondition.value;
+    if (state.selectedRegion === null) return;
+
+    const regionId = state.selectedRegion;
+    const target = parseInt(tempCondition.value) || 0;
+    let condition: RegionCondition;
+    switch (tempCondition.type) {
+      case 'equality':
+      case 'all_different':
+        condition = { region_id: regionId, type: tempCondition.type };
+        break;
+      case 'range':
+        condition = { region_id: regionId, type: 'range', min: target, max: parseInt(tempCondition.max) || 0 };
+        break;
+      case 'parity':
+        condition = { region_id: regionId, type: 'parity', parity: tempCondition.parity };
+        break;
+      default:
+        condition = { region_id: regionId, type: tempCondition.type, target };
+    }
 
     setState(prev => ({
       ...prev,
-      regions: {
-        ...prev.regions,
-        [state.selectedRegion!]: {
-          ...prev.regions[state.selectedRegion!],
-          condition: {
-            type: tempCondition.type,
-            value: numericValue
-          }
-        }
+      conditions: {
+        ...prev.conditions,
+        [regionId]: condition
       },
       selectedRegion: null
     }));
@@ -165,10 +213,10 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
     const count = state.difficulty === 'Easy' ? 4 : state.difficulty === 'Medium' ? 6 : 8;
     const maxValue = state.difficulty === 'Easy' ? 6 : state.difficulty === 'Medium' ? 9 : 12;
     
-    const newDominoes: DominoData[] = [];
+    const newDominoes: Domino[] = [];
     for (let i = 0; i < count; i++) {
       newDominoes.push({
-        id: `domino-${i}`,
+        id: i + 1,
         values: [
           Math.floor(Math.random() * maxValue) + 1,
           Math.floor(Math.random() * maxValue) + 1
@@ -179,11 +227,84 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
     setState(prev => ({ ...prev, dominoes: newDominoes }));
   }, [state.difficulty]);
 
+  // Replace the design with a generated puzzle that has exactly one solution
+  const generateFullPuzzle = async () => {
+    setIsGenerating(true);
+    try {
+      const puzzle = await trpc.generatePuzzle.query({
+        difficulty_level: state.difficulty,
+        grid_width: state.gridWidth,
+        grid_height: state.gridHeight
+      });
+
+      setState(prev => ({
+        ...prev,
+        regions: Object.fromEntries(puzzle.board_data.regions.map(region => [region.id, region])),
+        conditions: Object.fromEntries(puzzle.conditions_data.conditions.map(condition => [condition.region_id, condition])),
+        voids: puzzle.board_data.voids,
+        dominoes: puzzle.dominoes_data.dominoes,
+        selectedRegion: null
+      }));
+      setPublishResult({ success: true, message: '🧩 Generated a puzzle with exactly one solution. Tweak it or publish it as is!' });
+    } catch (error) {
+      console.error('Failed to generate puzzle:', error);
+      setPublishResult({ success: false, message: 'Failed to generate a puzzle. Please try again.' });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const hasCondition = (region: Region) => state.conditions[region.id] !== undefined;
+
+  // Serialize the editor state into the shared puzzle model
+  const buildPuzzleContent = () => {
+    const boardData: BoardData = { regions: Object.values(state.regions), voids: state.voids };
+    const dominoesData: DominoesData = { dominoes: state.dominoes };
+    const conditionsData: ConditionsData = { conditions: Object.values(state.conditions) };
+    return {
+      grid_width: state.gridWidth,
+      grid_height: state.gridHeight,
+      board_data: JSON.stringify(boardData),
+      dominoes_data: JSON.stringify(dominoesData),
+      conditions_data: JSON.stringify(conditionsData),
+      solution_data: null
+    };
+  };
+
+  // Ask the server for a solver-based difficulty suggestion
+  const suggestDifficulty = async () => {
+    const content = buildPuzzleContent();
+    const validation = parsePuzzleContent(content);
+    if (!validation.success) {
+      setPublishResult({ success: false, message: validation.error.issues[0].message });
+      return;
+    }
+
+    setIsRating(true);
+    try {
+      const rating = await trpc.ratePuzzle.query(content);
+      setSuggestion({ content: JSON.stringify(content), rating });
+    } catch (error) {
+      console.error('Failed to rate puzzle:', error);
+      setSuggestion(null);
+      setPublishResult({
+        success: false,
+        message: `🚫 ${error instanceof Error ? error.message : 'This puzzle cannot be rated.'}`
+      });
+    } finally {
+      setIsRating(false);
+    }
+  };
+
+  const currentSuggestion = suggestion && suggestion.content === JSON.stringify(buildPuzzleContent())
+    ? suggestion.rating
+    : null;
+
   // Test puzzle
   const testPuzzle = () => {
     // Basic validation
     const hasRegions = Object.keys(state.regions).length > 0;
-    const allRegionsHaveConditions = Object.values(state.regions).every(r => r.condition);
+    const allRegionsHaveConditions = Object.values(state.regions).every(hasCondition);
     const hasDominoes = state.dominoes.length > 0;
     
     if (!hasRegions) {
@@ -216,7 +337,7 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
 
     // Validate puzzle
     const hasRegions = Object.keys(state.regions).length > 0;
-    const allRegionsHaveConditions = Object.values(state.regions).every(r => r.condition);
+    const allRegionsHaveConditions = Object.values(state.regions).every(hasCondition);
     const hasDominoes = state.dominoes.length > 0;
     
     if (!hasRegions || !allRegionsHaveConditions || !hasDominoes) {
@@ -224,26 +345,20 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
       return;
     }
 
+    const content = buildPuzzleContent();
+    const validation = parsePuzzleContent(content);
+    if (!validation.success) {
+      setPublishResult({ success: false, message: validation.error.issues[0].message });
+      return;
+    }
+
     setIsPublishing(true);
     try {
       const puzzleInput: CreatePuzzleInput = {
         title: state.title,
         description: state.description || null,
-        creator_id: user.id,
         difficulty_level: state.difficulty,
-        grid_width: state.gridWidth,
-        grid_height: state.gridHeight,
-        board_data: JSON.stringify(state.regions),
-        dominoes_data: JSON.stringify(state.dominoes),
-        conditions_data: JSON.stringify(
-          Object.fromEntries(
-            Object.entries(state.regions).map(([id, region]) => [
-              id,
-              region.condition!
-            ])
-          )
-        ),
-        solution_data: null,
+        ...content,
         is_published: true,
         is_daily_puzzle: false
       };
@@ -259,6 +374,8 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
         gridWidth: 4,
         gridHeight: 4,
         regions: {},
+        conditions: {},
+        voids: [],
         dominoes: [],
         selectedTool: 'paint',
         selectedColor: 'red',
@@ -267,24 +384,18 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
       });
     } catch (error) {
       console.error('Failed to publish puzzle:', error);
-      setPublishResult({ success: false, message: 'Failed to publish puzzle. Please try again.' });
+      const problem = error instanceof TRPCClientError
+        ? (error as TRPCClientError<AppRouter>).data?.publishError?.problem
+        : null;
+      setPublishResult({
+        success: false,
+        message: problem ? PUBLISH_PROBLEM_MESSAGES[problem] : 'Failed to publish puzzle. Please try again.'
+      });
     } finally {
       setIsPublishing(false);
     }
   };
 
-  const getConditionText = (condition: { type: ConditionType; value: number | string }) => {
-    switch (condition.type) {
-      case 'sum': return `Σ = ${condition.value}`;
-      case 'product': return `Π = ${condition.value}`;
-      case 'difference': return `|a-b| = ${condition.value}`;
-      case 'equality': return 'All Equal';
-      case 'greater_than': return `> ${condition.value}`;
-      case 'less_than': return `< ${condition.value}`;
-      default: return condition.type;
-    }
-  };
-
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -295,7 +406,14 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
         {!user && (
           <Alert className="mt-4 border-blue-200 bg-blue-50">
             <AlertDescription>
-              💡 <strong>Guest Mode:</strong> You can create puzzles locally. Log in to publish and share your creations!
+              💡 <strong>Guest Mode:</strong> You can create puzzles locally. Log in to generate, rate, publish and share your creations!
+            </AlertDescription>
+          </Alert>
+        )}
+        {user && !canPublish && (
+          <Alert className="mt-4 border-blue-200 bg-blue-50">
+            <AlertDescription>
+              💡 Publishing puzzles takes the creator role. You can still design, generate and rate puzzles here.
             </AlertDescription>
           </Alert>
         )}
@@ -334,33 +452,33 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
                 }}
               >
                 {Array.from({ length: state.gridWidth * state.gridHeight }).map((_, index) => {
-                  const cellId = `cell-${index}`;
+                  const cell: Cell = [Math.floor(index / state.gridWidth), index % state.gridWidth];
                   
                   // Find which region this cell belongs to
-                  const regionEntry = Object.entries(state.regions).find(([_, region]) => 
-                    region.cells.includes(cellId)
-                  );
-                  const [regionId, region] = regionEntry || [null, null];
+                  const region = findRegion(cell);
+                  const condition = region ? state.conditions[region.id] : undefined;
+                  const isVoidCell = isVoid(cell);
                   
                   return (
                     <div
-                      key={cellId}
-                      onClick={() => handleCellClick(cellId)}
+                      key={cellKey(cell)}
+                      onClick={() => handleCellClick(cell)}
                       className={`
                         aspect-square w-12 border-2 rounded cursor-pointer
                         hover:opacity-80 transition-opacity
-                        ${region ? region.color : 'bg-gray-100 border-gray-300'}
-                        ${state.selectedTool === 'condition' && region && !region.condition ? 'ring-2 ring-orange-400' : ''}
+                        ${region ? getRegionColorClass(region.color) : isVoidCell ? 'bg-transparent border-dashed border-gray-200' : 'bg-gray-100 border-gray-300'}
+                        ${state.selectedTool === 'condition' && region && !condition ? 'ring-2 ring-orange-400' : ''}
                       `}
                       title={
                         state.selectedTool === 'paint' ? 'Click to paint' :
+                        state.selectedTool === 'void' ? (isVoidCell ? 'Click to restore cell' : 'Click to cut cell out') :
                         state.selectedTool === 'condition' ? (region ? 'Click to set condition' : 'No region') :
                         'Test mode'
                       }
                     >
-                      {region?.condition && (
+                      {condition && (
                         <div className="w-full h-full flex items-center justify-center text-xs font-bold text-gray-700">
-                          {getConditionText(region.condition).split(' ')[0]}
+                          {getConditionText(condition).split(' ')[0]}
                         </div>
                       )}
                     </div>
@@ -439,6 +557,32 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
                     <SelectItem value="Hard">🔴 Hard</SelectItem>
                   </SelectContent>
                 </Select>
+                <Button
+                  onClick={suggestDifficulty}
+                  variant="outline"
+                  size="sm"
+                  className="w-full mt-2"
+                  disabled={!user || isRating || Object.keys(state.regions).length === 0 || state.dominoes.length === 0}
+                >
+                  {isRating ? '⏳ Rating...' : '📊 Suggest Difficulty'}
+                </Button>
+                {currentSuggestion && (
+                  <div className="mt-2 text-xs text-gray-600 flex items-center justify-between gap-2">
+                    <span>
+                      Suggested: <strong>{currentSuggestion.suggested_difficulty}</strong> (rating {currentSuggestion.rating}/100)
+                    </span>
+                    {currentSuggestion.suggested_difficulty !== state.difficulty && (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={() => setState(prev => ({ ...prev, difficulty: currentSuggestion.suggested_difficulty }))}
+                      >
+                        Use it
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -498,6 +642,13 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
                 >
                   🎨 Paint Regions
                 </Button>
+                <Button
+                  variant={state.selectedTool === 'void' ? 'default' : 'outline'}
+                  onClick={() => setState(prev => ({ ...prev, selectedTool: 'void' }))}
+                  className="justify-start"
+                >
+                  ✂️ Cut Out Cells
+                </Button>
                 <Button
                   variant={state.selectedTool === 'condition' ? 'default' : 'outline'}
                   onClick={() => setState(prev => ({ ...prev, selectedTool: 'condition' }))}
@@ -537,19 +688,19 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
                 {Object.values(state.regions).map((region) => (
                   <div
                     key={region.id}
-                    className={`p-2 rounded text-xs ${region.color}`}
+                    className={`p-2 rounded text-xs ${getRegionColorClass(region.color)}`}
                   >
                     <div className="flex items-center justify-between">
                       <span className="font-medium">
-                        {REGION_COLORS.find(c => c.id === region.id)?.name || region.id}
+                        {REGION_COLORS.find(c => c.id === region.color)?.name || region.color} #{region.id}
                       </span>
                       <span className="text-gray-600">
                         {region.cells.length} cells
                       </span>
                     </div>
-                    {region.condition ? (
+                    {hasCondition(region) ? (
                       <div className="text-gray-700 font-medium">
-                        {getConditionText(region.condition)}
+                        {getConditionText(state.conditions[region.id])}
                       </div>
                     ) : (
                       <div className="text-orange-600">No condition set</div>
@@ -573,6 +724,14 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
               >
                 🎲 Generate Dominoes
               </Button>
+              <Button 
+                onClick={generateFullPuzzle}
+                variant="outline" 
+                className="w-full justify-start"
+                disabled={!user || isGenerating}
+              >
+                {isGenerating ? '⏳ Generating...' : '🧩 Generate Full Puzzle'}
+              </Button>
               <Button 
                 onClick={testPuzzle}
                 variant="outline" 
@@ -583,7 +742,7 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
               </Button>
               <Button 
                 onClick={publishPuzzle}
-                disabled={!user || isPublishing}
+                disabled={!canPublish || isPublishing}
                 className="w-full justify-start"
               >
                 {isPublishing ? '⏳ Publishing...' : '🚀 Publish Puzzle'}
@@ -616,10 +775,52 @@ export function PuzzleCreator({ user }: PuzzleCreatorProps) {
                   <SelectItem value="equality">All Equal</SelectItem>
                   <SelectItem value="greater_than">Greater Than (&gt;)</SelectItem>
                   <SelectItem value="less_than">Less Than (&lt;)</SelectItem>
+                  <SelectItem value="all_different">All Different</SelectItem>
+                  <SelectItem value="not_equal">Not Equal (≠)</SelectItem>
+                  <SelectItem value="range">Between (A–B)</SelectItem>
+                  <SelectItem value="parity">All Even / All Odd</SelectItem>
+                  <SelectItem value="exactly">Each Exactly (=)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
-            {tempCondition.type !== 'equality' && (
+            {tempCondition.type === 'range' ? (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="conditionMin">From</Label>
+                  <Input
+                    id="conditionMin"
+                    type="number"
+                    value={tempCondition.value}
+                    onChange={(e) => setTempCondition(prev => ({ ...prev, value: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="conditionMax">To</Label>
+                  <Input
+                    id="conditionMax"
+                    type="number"
+                    value={tempCondition.max}
+                    onChange={(e) => setTempCondition(prev => ({ ...prev, max: e.target.value }))}
+                  />
+                </div>
+              </div>
+            ) : tempCondition.type === 'parity' ? (
+              <div>
+                <Label htmlFor="conditionParity">Parity</Label>
+                <Select
+                  value={tempCondition.parity}
+                  onValueChange={(value: 'even' | 'odd') => setTempCondition(prev => ({ ...prev, parity: value }))}
+                >
+                  <SelectTrigger id="conditionParity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="even">All Even</SelectItem>
+                    <SelectItem value="odd">All Odd</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : tempCondition.type !== 'equality' && tempCondition.type !== 'all_different' && (
               <div>
                 <Label htmlFor="conditionValue">Value</Label>
                 <Input
@@ -29,6 +29,7 @@ export function PuzzleGallery({
   const [filteredPuzzles, setFilteredPuzzles] = useState<Puzzle[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyLevel | 'all'>(difficulty || 'all');
+  const [sortBy, setSortBy] = useState<'newest' | 'rating'>('newest');
   const [searchTerm, setSearchTerm] = useState('');
   const [showMyPuzzles, setShowMyPuzzles] = useState(false);
   const [selectedPuzzle, setSelectedPuzzle] = useState<Puzzle | null>(null);
@@ -43,6 +44,7 @@ export function PuzzleGallery({
       if (selectedDifficulty !== 'all') {
         result = await trpc.getPuzzlesByDifficulty.query({
           difficulty_level: selectedDifficulty as DifficultyLevel,
+          sort_by: sortBy,
           limit: compact ? 3 : 20
         });
       } else if (showMyPuzzles && user) {
@@ -63,7 +65,7 @@ export function PuzzleGallery({
     } finally {
       setIsLoading(false);
     }
-  }, [selectedDifficulty, showMyPuzzles, user, compact]);
+  }, [selectedDifficulty, sortBy, showMyPuzzles, user, compact]);
 
   // Filter puzzles based on search term
   useEffect(() => {
@@ -87,10 +89,7 @@ export function PuzzleGallery({
     if (!user || puzzle.creator_id !== user.id) return;
 
     try {
-      await trpc.deletePuzzle.mutate({
-        puzzleId: puzzle.id,
-        creatorId: user.id
-      });
+      await trpc.deletePuzzle.mutate({ puzzleId: puzzle.id });
       setShowDeleteConfirm(null);
       loadPuzzles(); // Reload puzzles after deletion
     } catch (error) {
@@ -201,6 +200,18 @@ export function PuzzleGallery({
             </SelectContent>
           </Select>
 
+          {selectedDifficulty !== 'all' && (
+            <Select value={sortBy} onValueChange={(value: 'newest' | 'rating') => setSortBy(value)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">🕒 Newest first</SelectItem>
+                <SelectItem value="rating">📊 Easiest first</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
           {user && (
             <Button
               variant={showMyPuzzles ? 'default' : 'outline'}
@@ -277,6 +288,11 @@ export function PuzzleGallery({
                       <span className="text-sm text-gray-500">
                         {puzzle.grid_width}×{puzzle.grid_height}
                       </span>
+                      {puzzle.difficulty_rating !== null && (
+                        <span className="text-sm text-gray-500" title="Difficulty rating (0-100)">
+                          📊 {Math.round(puzzle.difficulty_rating)}
+                        </span>
+                      )}
                     </div>
                   </div>
                   {user && puzzle.creator_id === user.id && (
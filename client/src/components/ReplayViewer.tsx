@@ -0,0 +1,166 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { GameBoard, type Playback } from '@/components/GameBoard';
+import { createDominoData, replayUntil, type ReplayEvent } from '@/lib/moves';
+import { parsePuzzleContent } from '../../../server/src/puzzle/content';
+import type { Puzzle, PuzzleAttempt } from '../../../server/src/schema';
+
+interface ReplayViewerProps {
+  attemptId: number;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+const TICK_MS = 100;
+
+// Reads the replay log out of saved attempt data; attempts recorded before replays existed have none
+const readReplayEvents = (attempt: PuzzleAttempt): ReplayEvent[] => {
+  try {
+    const saved = JSON.parse(attempt.attempt_data) as { replay?: unknown };
+    return Array.isArray(saved.replay) ? [...saved.replay as ReplayEvent[]].sort((a, b) => a.at - b.at) : [];
+  } catch {
+    return [];
+  }
+};
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Plays a completed attempt back on a read-only game board
+export function ReplayViewer({ attemptId, onClose }: ReplayViewerProps) {
+  const [attempt, setAttempt] = useState<PuzzleAttempt | null>(null);
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    const loadReplay = async () => {
+      try {
+        const loadedAttempt = await trpc.getPuzzleAttemptById.query(attemptId);
+        if (!loadedAttempt || !loadedAttempt.is_completed) {
+          setError('Only completed attempts can be replayed.');
+          return;
+        }
+        const loadedPuzzle = await trpc.getPuzzleById.query(loadedAttempt.puzzle_id);
+        if (!loadedPuzzle) {
+          setError('The puzzle for this attempt no longer exists.');
+          return;
+        }
+        setAttempt(loadedAttempt);
+        setPuzzle(loadedPuzzle);
+      } catch (loadError) {
+        console.error('Failed to load replay:', loadError);
+        setError('The replay could not be loaded.');
+      }
+    };
+    loadReplay();
+  }, [attemptId]);
+
+  const events = useMemo(() => attempt ? readReplayEvents(attempt) : [], [attempt]);
+
+  const startingDominoes = useMemo(() => {
+    const result = puzzle ? parsePuzzleContent({ ...puzzle, solution_data: null }) : null;
+    return result?.success ? createDominoData(result.data.dominoes_data.dominoes) : [];
+  }, [puzzle]);
+
+  // The replay runs to the verified finish, or to the last event if that came later
+  const duration = Math.max(events[events.length - 1]?.at ?? 0, (attempt?.completion_time ?? 0) * 1000);
+
+  const playback = useMemo<Playback>(() => ({
+    ...replayUntil(startingDominoes, events, position),
+    elapsed: position
+  }), [startingDominoes, events, position]);
+
+  // Advance the clock while playing, stopping at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setPosition(prev => Math.min(prev + TICK_MS * speed, duration));
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (position >= duration) setIsPlaying(false);
+  }, [position, duration]);
+
+  const togglePlaying = () => {
+    if (!isPlaying && position >= duration) setPosition(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-4">
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+        <Button onClick={onClose} variant="outline">Close Replay</Button>
+      </div>
+    );
+  }
+
+  if (!attempt || !puzzle) {
+    return <div className="flex justify-center items-center h-64">Loading replay...</div>;
+  }
+
+  const eventsShown = events.filter(event => event.at <= position).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm flex items-center justify-between">
+            🎬 Replay of {puzzle.title}
+            <span className="text-gray-600 font-normal">
+              {eventsShown} / {events.length} steps
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {events.length === 0 && (
+            <p className="text-sm text-gray-600">No moves were recorded for this attempt.</p>
+          )}
+          <div className="flex items-center gap-4">
+            <Button onClick={togglePlaying} variant="outline" className="w-24" disabled={duration === 0}>
+              {isPlaying ? '⏸ Pause' : '▶ Play'}
+            </Button>
+            <Slider
+              value={[position]}
+              max={duration}
+              step={TICK_MS}
+              onValueChange={([value]) => setPosition(value)}
+              className="flex-1"
+              aria-label="Replay position"
+            />
+            <span className="text-sm font-mono w-24 text-right">
+              {formatTime(position)} / {formatTime(duration)}
+            </span>
+            <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+              <SelectTrigger className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPEEDS.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option}×</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <GameBoard puzzle={puzzle} user={null} onComplete={onClose} playback={playback} />
+    </div>
+  );
+}
@@ -6,11 +6,11 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
-import type { User, AuthProvider } from '../../../server/src/schema';
+import { trpc, rememberOAuthState } from '@/utils/trpc';
+import type { Session, OAuthProvider } from '../../../server/src/schema';
 
 interface UserAuthProps {
-  onLogin: (user: User) => void;
+  onLogin: (session: Session) => void;
 }
 
 export function UserAuth({ onLogin }: UserAuthProps) {
@@ -23,33 +23,25 @@ export function UserAuth({ onLogin }: UserAuthProps) {
     password: ''
   });
 
-  const handleSocialLogin = async (provider: AuthProvider) => {
+  // Sends the browser to the provider; it comes back to the app, which finishes the sign-in
+  const handleSocialLogin = async (provider: OAuthProvider) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      // In a real app, this would integrate with actual OAuth providers
-      // For now, we'll create a mock user for demonstration
-      const mockUser = await trpc.createUser.mutate({
-        email: `${provider}user@example.com`,
-        display_name: `${provider.charAt(0).toUpperCase() + provider.slice(1)} User`,
-        auth_provider: provider,
-        auth_provider_id: `${provider}_${Date.now()}`
-      });
-
-      onLogin(mockUser);
-      setIsOpen(false);
+      const { authorization_url } = await trpc.startOAuthSignIn.mutate({ provider });
+      rememberOAuthState(new URL(authorization_url).searchParams.get('state') ?? '');
+      window.location.assign(authorization_url);
     } catch (error: any) {
       console.error('Social login failed:', error);
       setError(error.message || 'Failed to log in with social provider');
-    } finally {
       setIsLoading(false);
     }
   };
 
   const handleEmailLogin = async () => {
-    if (!formData.email.trim()) {
-      setError('Please enter your email');
+    if (!formData.email.trim() || !formData.password) {
+      setError('Please enter your email and password');
       return;
     }
 
@@ -57,54 +49,40 @@ export function UserAuth({ onLogin }: UserAuthProps) {
     setError(null);
 
     try {
-      // Try to find existing user
-      const existingUser = await trpc.getUserByEmail.query(formData.email);
-      if (existingUser) {
-        onLogin(existingUser);
-        setIsOpen(false);
-        return;
-      }
-
-      // User doesn't exist, show error for login
-      setError('No account found with this email. Please sign up first.');
+      onLogin(await trpc.signIn.mutate({ email: formData.email, password: formData.password }));
+      setIsOpen(false);
     } catch (error: any) {
       console.error('Email login failed:', error);
-      setError('Failed to log in. Please try again.');
+      // Wrong credentials and lockouts come with a message meant for the player
+      setError(error.data?.code === 'UNAUTHORIZED' || error.data?.code === 'TOO_MANY_REQUESTS'
+        ? error.message
+        : 'Failed to log in. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleEmailSignup = async () => {
-    if (!formData.email.trim() || !formData.displayName.trim()) {
+    if (!formData.email.trim() || !formData.displayName.trim() || !formData.password) {
       setError('Please fill in all required fields');
       return;
     }
+    if (formData.password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
 
     setIsLoading(true);
     setError(null);
 
     try {
-      // Check if user already exists
-      try {
-        const existingUser = await trpc.getUserByEmail.query(formData.email);
-        if (existingUser) {
-          setError('An account with this email already exists. Please log in instead.');
-          return;
-        }
-      } catch (error) {
-        // User doesn't exist, which is what we want for signup
-      }
-
-      // Create new user
-      const newUser = await trpc.createUser.mutate({
+      const session = await trpc.signUp.mutate({
         email: formData.email,
         display_name: formData.displayName,
-        auth_provider: 'email',
-        auth_provider_id: `email_${Date.now()}`
+        password: formData.password
       });
 
-      onLogin(newUser);
+      onLogin(session);
       setIsOpen(false);
     } catch (error: any) {
       console.error('Email signup failed:', error);
@@ -202,6 +180,16 @@ export function UserAuth({ onLogin }: UserAuthProps) {
                   placeholder="your.email@example.com"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="loginPassword">Password</Label>
+                <Input
+                  id="loginPassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={formData.password}
+                  onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                />
+              </div>
               <Button 
                 onClick={handleEmailLogin}
                 disabled={isLoading}
@@ -209,9 +197,6 @@ export function UserAuth({ onLogin }: UserAuthProps) {
               >
                 {isLoading ? '⏳ Signing In...' : '📧 Sign In'}
               </Button>
-              <p className="text-xs text-center text-gray-600">
-                💡 For demo purposes, any valid email will work
-              </p>
             </TabsContent>
             
             <TabsContent value="signup" className="space-y-4">
@@ -234,6 +219,17 @@ export function UserAuth({ onLogin }: UserAuthProps) {
                   placeholder="Your Name"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="signupPassword">Password</Label>
+                <Input
+                  id="signupPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.password}
+                  onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder="At least 8 characters"
+                />
+              </div>
               <Button 
                 onClick={handleEmailSignup}
                 disabled={isLoading}
@@ -241,9 +237,6 @@ export function UserAuth({ onLogin }: UserAuthProps) {
               >
                 {isLoading ? '⏳ Creating Account...' : '🎉 Create Account'}
               </Button>
-              <p className="text-xs text-center text-gray-600">
-                💡 No password required for demo - just email and name
-              </p>
             </TabsContent>
           </Tabs>
 
@@ -13,6 +13,7 @@ import type { User, Achievement, DifficultyLevel } from '../../../server/src/sch
 interface UserProfileProps {
   user: User;
   onLogout: () => void;
+  onReplay: (attemptId: number) => void;
 }
 
 interface AchievementStats {
@@ -21,7 +22,7 @@ interface AchievementStats {
   byDifficulty: { [key in DifficultyLevel]: { count: number; avgTime: number; bestTime: number } };
 }
 
-export function UserProfile({ user, onLogout }: UserProfileProps) {
+export function UserProfile({ user, onLogout, onReplay }: UserProfileProps) {
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [stats, setStats] = useState<AchievementStats | null>(null);
@@ -304,6 +305,18 @@ export function UserProfile({ user, onLogout }: UserProfileProps) {
                                   </div>
                                 </div>
                               </div>
+                              {achievement.attempt_id !== null && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    setIsProfileOpen(false);
+                                    onReplay(achievement.attempt_id!);
+                                  }}
+                                >
+                                  ▶ Replay
+                                </Button>
+                              )}
                             </div>
                           </CardContent>
                         </Card>
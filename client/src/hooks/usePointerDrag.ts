@@ -0,0 +1,132 @@
+import { useState, useEffect, useRef, useCallback, type PointerEvent as ReactPointerEvent } from 'react';
+import type { Cell } from '../../../server/src/schema';
+
+// The domino being handled and which of its halves, as laid out, the pointer holds
+export interface DragSource {
+  dominoId: number;
+  half: 0 | 1;
+}
+
+// Where a dragged domino is over: a board cell (tagged `data-cell` with its cell key), the
+// tray (tagged `data-drop-tray`), or neither
+export type DropTarget = { type: 'cell'; cell: Cell } | { type: 'tray' } | null;
+
+export interface ActiveDrag {
+  source: DragSource;
+  x: number;
+  y: number;
+  target: DropTarget;
+}
+
+interface PointerDragOptions {
+  onTap: (source: DragSource) => void;
+  onDrop: (source: DragSource, target: DropTarget) => void;
+}
+
+const MOVE_THRESHOLD_PX = 6;
+const LONG_PRESS_MS = 350;
+
+const findDropTarget = (x: number, y: number): DropTarget => {
+  const element = document.elementFromPoint(x, y);
+  const cellElement = element?.closest<HTMLElement>('[data-cell]');
+  if (cellElement?.dataset.cell) {
+    const [row, col] = cellElement.dataset.cell.split('-').map(Number);
+    return { type: 'cell', cell: [row, col] };
+  }
+  return element?.closest('[data-drop-tray]') ? { type: 'tray' } : null;
+};
+
+// Drag and drop built on pointer events, so it works the same for mouse, pen and touch.
+// A mouse picks a domino up as soon as it moves; a finger has to hold still for a long
+// press first, and moving before then abandons the gesture. Releasing without a drag is
+// a tap.
+export function usePointerDrag({ onTap, onDrop }: PointerDragOptions) {
+  const [drag, setDrag] = useState<ActiveDrag | null>(null);
+  const gesture = useRef<{
+    source: DragSource;
+    pointerId: number;
+    startX: number;
+    startY: number;
+    isDragging: boolean;
+    isCancelled: boolean;
+    longPressTimer?: ReturnType<typeof setTimeout>;
+  } | null>(null);
+
+  // Handlers can change between renders; the window listeners always call the latest
+  const callbacks = useRef({ onTap, onDrop });
+  useEffect(() => {
+    callbacks.current = { onTap, onDrop };
+  }, [onTap, onDrop]);
+
+  const endGesture = useCallback(() => {
+    if (gesture.current) clearTimeout(gesture.current.longPressTimer);
+    gesture.current = null;
+    setDrag(null);
+  }, []);
+
+  useEffect(() => {
+    const handlePointerMove = (e: PointerEvent) => {
+      const current = gesture.current;
+      if (!current || current.pointerId !== e.pointerId || current.isCancelled) return;
+
+      if (!current.isDragging) {
+        const moved = Math.hypot(e.clientX - current.startX, e.clientY - current.startY) > MOVE_THRESHOLD_PX;
+        if (!moved) return;
+        if (e.pointerType !== 'mouse') {
+          clearTimeout(current.longPressTimer);
+          current.isCancelled = true;
+          return;
+        }
+        current.isDragging = true;
+      }
+      setDrag({ source: current.source, x: e.clientX, y: e.clientY, target: findDropTarget(e.clientX, e.clientY) });
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      const current = gesture.current;
+      if (!current || current.pointerId !== e.pointerId) return;
+
+      if (current.isDragging) {
+        callbacks.current.onDrop(current.source, findDropTarget(e.clientX, e.clientY));
+      } else if (!current.isCancelled) {
+        callbacks.current.onTap(current.source);
+      }
+      endGesture();
+    };
+
+    const handlePointerCancel = (e: PointerEvent) => {
+      if (gesture.current?.pointerId === e.pointerId) endGesture();
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerCancel);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerCancel);
+    };
+  }, [endGesture]);
+
+  // Clear a pending long press when the component goes away
+  useEffect(() => () => clearTimeout(gesture.current?.longPressTimer), []);
+
+  // Attach to onPointerDown of anything that can be picked up
+  const startDrag = useCallback((e: ReactPointerEvent, source: DragSource) => {
+    if (e.button !== 0 || gesture.current) return;
+    e.preventDefault();
+
+    const { clientX, clientY, pointerId, pointerType } = e;
+    gesture.current = { source, pointerId, startX: clientX, startY: clientY, isDragging: false, isCancelled: false };
+    if (pointerType !== 'mouse') {
+      gesture.current.longPressTimer = setTimeout(() => {
+        const current = gesture.current;
+        if (!current || current.isCancelled) return;
+        current.isDragging = true;
+        setDrag({ source, x: clientX, y: clientY, target: findDropTarget(clientX, clientY) });
+      }, LONG_PRESS_MS);
+    }
+  }, []);
+
+  return { drag, startDrag };
+}
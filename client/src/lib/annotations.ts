@@ -0,0 +1,49 @@
+import type { Cell } from '../../../server/src/schema';
+import { cellKey } from '../../../server/src/puzzle/grid';
+
+// Pencil marks a player leaves on the board: candidate pip values per cell, keyed by
+// cell key, and marked domino boundaries between neighbouring cells, keyed by edgeKey.
+// They are notes only and never count towards solving the puzzle.
+export interface Annotations {
+  candidates: { [key: string]: number[] };
+  edges: string[];
+}
+
+export const EMPTY_ANNOTATIONS: Annotations = { candidates: {}, edges: [] };
+
+// The same key whichever side of the edge it is named from
+export const edgeKey = (a: Cell, b: Cell) => [cellKey(a), cellKey(b)].sort().join('|');
+
+const setCandidates = (annotations: Annotations, cell: Cell, values: number[]): Annotations => {
+  const candidates = { ...annotations.candidates, [cellKey(cell)]: values };
+  if (values.length === 0) delete candidates[cellKey(cell)];
+  return { ...annotations, candidates };
+};
+
+export const toggleCandidate = (annotations: Annotations, cell: Cell, value: number): Annotations => {
+  const current = annotations.candidates[cellKey(cell)] ?? [];
+  return setCandidates(annotations, cell, current.includes(value)
+    ? current.filter(v => v !== value)
+    : [...current, value].sort((a, b) => a - b));
+};
+
+export const clearCandidates = (annotations: Annotations, cell: Cell): Annotations => setCandidates(annotations, cell, []);
+
+export const toggleEdge = (annotations: Annotations, a: Cell, b: Cell): Annotations => {
+  const key = edgeKey(a, b);
+  return {
+    ...annotations,
+    edges: annotations.edges.includes(key) ? annotations.edges.filter(edge => edge !== key) : [...annotations.edges, key]
+  };
+};
+
+// Keeps whatever parts of saved annotations are well formed
+export const readAnnotations = (saved: unknown): Annotations => {
+  if (!saved || typeof saved !== 'object') return EMPTY_ANNOTATIONS;
+  const { candidates, edges } = saved as Partial<Annotations>;
+  return {
+    candidates: Object.fromEntries(Object.entries(candidates && typeof candidates === 'object' ? candidates : {})
+      .filter(([, values]) => Array.isArray(values) && values.every(value => typeof value === 'number'))),
+    edges: Array.isArray(edges) ? edges.filter(edge => typeof edge === 'string') : []
+  };
+};
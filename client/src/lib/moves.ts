@@ -0,0 +1,88 @@
+import type { Cell, Domino } from '../../../server/src/schema';
+import type { Hint } from '../../../server/src/puzzle/hints';
+import type { DominoOrientation } from './puzzle';
+
+export interface DominoData extends Domino, DominoOrientation {
+  position?: [Cell, Cell]; // cells holding values[0] and values[1] while on the board
+  isPlaced: boolean;
+}
+
+// Puzzle dominoes as they start out, unplaced in the tray
+export const createDominoData = (dominoes: Domino[]): DominoData[] =>
+  dominoes.map(domino => ({ ...domino, rotation: 'horizontal', flipped: false, isPlaced: false }));
+
+// Every change a player makes to the board, recorded with enough detail to be undone
+export type DominoMove =
+  | { type: 'place'; domino_id: number; from: [Cell, Cell] | null; to: [Cell, Cell] }
+  | { type: 'remove'; domino_id: number; from: [Cell, Cell] }
+  | { type: 'rotate'; domino_id: number; from: DominoOrientation; to: DominoOrientation }
+  | { type: 'flip'; domino_id: number };
+
+// Moves before `cursor` are applied; the ones after it can be redone
+export interface MoveHistory {
+  moves: DominoMove[];
+  cursor: number;
+}
+
+// Everything that happened during an attempt, `at` milliseconds after it started. Undo
+// and redo are logged as the moves they actually made, so the log replays on its own.
+export type ReplayEvent =
+  | { at: number; type: 'move'; move: DominoMove }
+  | { at: number; type: 'hint'; hint: Hint };
+
+export const EMPTY_HISTORY: MoveHistory = { moves: [], cursor: 0 };
+
+// Applies a move to the dominoes, or reverts it when `undo` is set
+export const applyMove = (dominoes: DominoData[], move: DominoMove, undo = false): DominoData[] =>
+  dominoes.map(domino => {
+    if (domino.id !== move.domino_id) return domino;
+
+    switch (move.type) {
+      case 'place':
+      case 'remove': {
+        const position = undo ? move.from : move.type === 'place' ? move.to : null;
+        return { ...domino, position: position ?? undefined, isPlaced: position !== null };
+      }
+      case 'rotate':
+        return { ...domino, ...(undo ? move.from : move.to) };
+      case 'flip':
+        return { ...domino, flipped: !domino.flipped };
+    }
+  });
+
+// Records a new move, dropping any moves that were undone before it
+export const pushMove = (history: MoveHistory, move: DominoMove): MoveHistory => ({
+  moves: [...history.moves.slice(0, history.cursor), move],
+  cursor: history.cursor + 1
+});
+
+export const canUndo = (history: MoveHistory) => history.cursor > 0;
+export const canRedo = (history: MoveHistory) => history.cursor < history.moves.length;
+
+// The move that takes the board back to where it was before `move`
+export const invertMove = (move: DominoMove): DominoMove => {
+  switch (move.type) {
+    case 'place':
+      return move.from
+        ? { type: 'place', domino_id: move.domino_id, from: move.to, to: move.from }
+        : { type: 'remove', domino_id: move.domino_id, from: move.to };
+    case 'remove':
+      return { type: 'place', domino_id: move.domino_id, from: null, to: move.from };
+    case 'rotate':
+      return { type: 'rotate', domino_id: move.domino_id, from: move.to, to: move.from };
+    case 'flip':
+      return move;
+  }
+};
+
+// Rebuilds the dominoes as they stood `time` milliseconds into a recorded attempt,
+// along with the hint on show then. A hint stays up until the next move, as in play.
+export const replayUntil = (dominoes: DominoData[], events: ReplayEvent[], time: number) =>
+  events
+    .filter(event => event.at <= time)
+    .reduce<{ dominoes: DominoData[]; hint: Hint | null }>(
+      (state, event) => event.type === 'move'
+        ? { dominoes: applyMove(state.dominoes, event.move), hint: null }
+        : { ...state, hint: event.hint },
+      { dominoes, hint: null }
+    );
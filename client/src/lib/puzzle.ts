@@ -0,0 +1,61 @@
+import type { Cell, RegionCondition } from '../../../server/src/schema';
+
+export const REGION_COLORS = [
+  { id: 'red', color: 'bg-red-200 border-red-400', name: '🔴 Red' },
+  { id: 'blue', color: 'bg-blue-200 border-blue-400', name: '🔵 Blue' },
+  { id: 'green', color: 'bg-green-200 border-green-400', name: '🟢 Green' },
+  { id: 'yellow', color: 'bg-yellow-200 border-yellow-400', name: '🟡 Yellow' },
+  { id: 'purple', color: 'bg-purple-200 border-purple-400', name: '🟣 Purple' },
+  { id: 'orange', color: 'bg-orange-200 border-orange-400', name: '🟠 Orange' },
+  { id: 'pink', color: 'bg-pink-200 border-pink-400', name: '🩷 Pink' },
+  { id: 'cyan', color: 'bg-cyan-200 border-cyan-400', name: '🔵 Cyan' }
+];
+
+// Maps a region color id from board_data to its Tailwind classes
+export const getRegionColorClass = (colorId: string) =>
+  REGION_COLORS.find(c => c.id === colorId)?.color ?? 'bg-gray-200 border-gray-400';
+
+export const getConditionText = (condition: RegionCondition) => {
+  switch (condition.type) {
+    case 'sum': return `Σ = ${condition.target}`;
+    case 'product': return `Π = ${condition.target}`;
+    case 'difference': return `|a-b| = ${condition.target}`;
+    case 'equality': return 'All Equal';
+    case 'greater_than': return `> ${condition.target}`;
+    case 'less_than': return `< ${condition.target}`;
+    case 'all_different': return 'All Different';
+    case 'not_equal': return `≠ ${condition.target}`;
+    case 'range': return `${condition.min}–${condition.max}`;
+    case 'parity': return condition.parity === 'even' ? 'All Even' : 'All Odd';
+    case 'exactly': return `Each = ${condition.target}`;
+  }
+};
+
+export type DominoRotation = 'horizontal' | 'vertical';
+
+// One of the four ways a domino can lie: across or down, with either of its values
+// leading (on the left or on top)
+export interface DominoOrientation {
+  rotation: DominoRotation;
+  flipped: boolean; // values[1] leads
+}
+
+// A quarter turn clockwise cycles through all four orientations:
+// [a|b] → a over b → [b|a] → b over a → [a|b]
+export const turnClockwise = ({ rotation, flipped }: DominoOrientation): DominoOrientation =>
+  rotation === 'horizontal' ? { rotation: 'vertical', flipped } : { rotation: 'horizontal', flipped: !flipped };
+
+// Cells covered by a domino when its half `half` (0 or 1) sits on `cell`. The first
+// returned cell always holds values[0].
+export const getDominoCells = ([row, col]: Cell, rotation: DominoRotation, half: 0 | 1 = 0): [Cell, Cell] => {
+  const [rowStep, colStep] = rotation === 'horizontal' ? [0, 1] : [1, 0];
+  const first: Cell = [row - rowStep * half, col - colStep * half];
+  return [first, [first[0] + rowStep, first[1] + colStep]];
+};
+
+// Cells covered by a domino lying in `orientation` when its laid-out half `half` sits on
+// `cell`, in value order: values[0] goes on the first cell and values[1] on the second
+export const getDominoPosition = (cell: Cell, { rotation, flipped }: DominoOrientation, half: 0 | 1 = 0): [Cell, Cell] => {
+  const [first, second] = getDominoCells(cell, rotation, half);
+  return flipped ? [second, first] : [first, second];
+};
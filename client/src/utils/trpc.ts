@@ -2,9 +2,41 @@ import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+const SESSION_TOKEN_KEY = 'dotfit-session';
+
+// The signed session token from the last login, sent with every request
+export const getSessionToken = () => localStorage.getItem(SESSION_TOKEN_KEY);
+
+export const setSessionToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(SESSION_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+};
+
+const OAUTH_STATE_KEY = 'dotfit-oauth-state';
+
+// The state of the Google or Facebook sign-in this tab started. Only a redirect that brings
+// it back is finished, so nobody can slip their own sign-in into someone else's browser.
+export const rememberOAuthState = (state: string) => sessionStorage.setItem(OAUTH_STATE_KEY, state);
+
+export const takeOAuthState = () => {
+  const state = sessionStorage.getItem(OAUTH_STATE_KEY);
+  sessionStorage.removeItem(OAUTH_STATE_KEY);
+  return state;
+};
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers: () => {
+        const token = getSessionToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      }
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
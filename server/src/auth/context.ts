@@ -0,0 +1,41 @@
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { db } from '../db';
+import { usersTable, userColumns } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { type User } from '../schema';
+import { verifySessionToken } from './session';
+
+export interface Context {
+  user: User | null; // null for guests and for missing, invalid or expired sessions
+  clientIp: string; // the caller's address, for limiting requests that don't need a session
+}
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// Caddy proxies /api from the same machine and passes the visitor's address as X-Real-IP.
+// The header is only trusted from there, since the server port is reachable directly too.
+export const resolveClientIp = (remoteAddress: string | undefined, realIp: string | string[] | undefined): string => {
+  if (remoteAddress && LOOPBACK_ADDRESSES.includes(remoteAddress) && typeof realIp === 'string' && realIp) {
+    return realIp;
+  }
+  return remoteAddress ?? 'unknown';
+};
+
+// Resolves the caller from an `Authorization: Bearer <session token>` header
+export const resolveSessionUser = async (authorization: string | undefined): Promise<User | null> => {
+  const token = authorization?.match(/^Bearer (\S+)$/)?.[1];
+  const userId = token ? verifySessionToken(token) : null;
+  if (userId === null) return null;
+
+  const users = await db.select(userColumns)
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  return users[0] ?? null;
+};
+
+export const createContext = async ({ req }: CreateHTTPContextOptions): Promise<Context> => ({
+  user: await resolveSessionUser(req.headers.authorization),
+  clientIp: resolveClientIp(req.socket.remoteAddress, req.headers['x-real-ip'])
+});
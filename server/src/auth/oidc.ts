@@ -0,0 +1,296 @@
+import 'dotenv/config';
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from 'node:crypto';
+import { type OAuthProvider } from '../schema';
+
+// Anything that stops an OpenID Connect sign-in from completing. Handlers report it as
+// UNAUTHORIZED with this as the cause.
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export interface OidcProviderConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string; // the client page that finishes the sign-in
+  scopes: string[];
+  // Discovered from the issuer's /.well-known/openid-configuration when left out
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  jwksUri?: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string; // the user's stable id at the provider
+  aud: string | string[];
+  exp: number; // seconds since the epoch
+  iat?: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+type Endpoints = Required<Pick<OidcProviderConfig, 'authorizationEndpoint' | 'tokenEndpoint' | 'jwksUri'>>;
+type SigningKey = JsonWebKey & { kid?: string };
+
+const CLOCK_SKEW_S = 60;
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000; // time allowed on the provider's consent screen
+const MAX_PENDING_AUTHORIZATIONS = 10_000;
+
+export const randomToken = () => randomBytes(32).toString('base64url');
+export const pkceChallenge = (codeVerifier: string) => createHash('sha256').update(codeVerifier).digest('base64url');
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<Record<string, unknown>> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new OidcError(`${new URL(url).host} answered with status ${response.status}`);
+  }
+  return await response.json() as Record<string, unknown>;
+};
+
+const decodeJson = (segment: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString());
+  } catch {
+    throw new OidcError('ID token is malformed');
+  }
+};
+
+// One OpenID Connect issuer: builds authorization URLs, redeems codes and checks the ID
+// tokens that come back. Discovery documents and signing keys are cached.
+export class OidcProvider {
+  private endpoints?: Promise<Endpoints>;
+  private keys?: Promise<SigningKey[]>;
+
+  constructor(
+    readonly id: OAuthProvider,
+    readonly config: OidcProviderConfig
+  ) {}
+
+  private getEndpoints(): Promise<Endpoints> {
+    this.endpoints ??= (async () => {
+      const { issuer, authorizationEndpoint, tokenEndpoint, jwksUri } = this.config;
+      if (authorizationEndpoint && tokenEndpoint && jwksUri) {
+        return { authorizationEndpoint, tokenEndpoint, jwksUri };
+      }
+      const discovered = await fetchJson(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+      const endpoints = {
+        authorizationEndpoint: authorizationEndpoint ?? discovered['authorization_endpoint'],
+        tokenEndpoint: tokenEndpoint ?? discovered['token_endpoint'],
+        jwksUri: jwksUri ?? discovered['jwks_uri']
+      };
+      if (Object.values(endpoints).some(endpoint => typeof endpoint !== 'string')) {
+        throw new OidcError(`OpenID configuration of ${issuer} is incomplete`);
+      }
+      return endpoints as Endpoints;
+    })().catch(error => {
+      this.endpoints = undefined; // try discovery again next time
+      throw error;
+    });
+    return this.endpoints;
+  }
+
+  private async fetchKeys(): Promise<SigningKey[]> {
+    const { jwksUri } = await this.getEndpoints();
+    const { keys } = await fetchJson(jwksUri);
+    return Array.isArray(keys) ? keys : [];
+  }
+
+  private async findKey(kid: string | undefined): Promise<SigningKey> {
+    const lookup = async () => (await this.keys)?.find(key => kid === undefined || key.kid === kid);
+    this.keys ??= this.fetchKeys();
+    let key = await lookup();
+    if (!key) {
+      // The provider may have rotated its keys since they were cached
+      this.keys = this.fetchKeys();
+      key = await lookup();
+    }
+    if (!key) {
+      throw new OidcError('ID token was signed with an unknown key');
+    }
+    return key;
+  }
+
+  async authorizationUrl(params: { state: string; nonce: string; codeChallenge: string }): Promise<string> {
+    const { authorizationEndpoint } = await this.getEndpoints();
+    const url = new URL(authorizationEndpoint);
+    Object.entries({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scopes.join(' '),
+      state: params.state,
+      nonce: params.nonce,
+      code_challenge: params.codeChallenge,
+      code_challenge_method: 'S256'
+    }).forEach(([name, value]) => url.searchParams.set(name, value));
+    return url.toString();
+  }
+
+  // Trades an authorization code for the ID token, proving with the PKCE verifier that
+  // this server started the sign-in
+  async redeemCode(code: string, codeVerifier: string): Promise<string> {
+    const { tokenEndpoint } = await this.getEndpoints();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: codeVerifier
+    });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+
+    const tokens = await fetchJson(tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body
+    });
+    if (typeof tokens['id_token'] !== 'string') {
+      throw new OidcError('The provider did not return an ID token');
+    }
+    return tokens['id_token'];
+  }
+
+  async verifyIdToken(idToken: string, nonce: string, now = Date.now()): Promise<IdTokenClaims> {
+    const segments = idToken.split('.');
+    if (segments.length !== 3) {
+      throw new OidcError('ID token is malformed');
+    }
+    const [encodedHeader, encodedPayload, signature] = segments;
+
+    const header = decodeJson(encodedHeader);
+    if (header['alg'] !== 'RS256') {
+      throw new OidcError(`ID tokens signed with ${String(header['alg'])} are not accepted`);
+    }
+    const key = await this.findKey(typeof header['kid'] === 'string' ? header['kid'] : undefined);
+    const isSigned = verify(
+      'RSA-SHA256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      createPublicKey({ key, format: 'jwk' }),
+      Buffer.from(signature, 'base64url')
+    );
+    if (!isSigned) {
+      throw new OidcError('ID token signature is invalid');
+    }
+
+    const claims = decodeJson(encodedPayload) as Partial<IdTokenClaims>;
+    const nowS = now / 1000;
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== this.config.issuer) {
+      throw new OidcError('ID token comes from another issuer');
+    }
+    if (!audiences.includes(this.config.clientId)) {
+      throw new OidcError('ID token was issued to another application');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_S < nowS) {
+      throw new OidcError('ID token has expired');
+    }
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_S > nowS) {
+      throw new OidcError('ID token is not valid yet');
+    }
+    if (claims.nonce !== nonce) {
+      throw new OidcError('ID token belongs to another sign-in');
+    }
+    if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+      throw new OidcError('ID token does not identify a user');
+    }
+    return claims as IdTokenClaims;
+  }
+}
+
+const PROVIDER_DEFAULTS: Record<OAuthProvider, Omit<OidcProviderConfig, 'clientId' | 'clientSecret' | 'redirectUri'>> = {
+  google: {
+    issuer: 'https://accounts.google.com',
+    scopes: ['openid', 'email', 'profile']
+  },
+  facebook: {
+    issuer: 'https://www.facebook.com',
+    scopes: ['openid', 'email', 'public_profile'],
+    // Facebook's discovery document does not cover the code flow
+    authorizationEndpoint: 'https://www.facebook.com/v19.0/dialog/oauth',
+    tokenEndpoint: 'https://graph.facebook.com/v19.0/oauth/access_token',
+    jwksUri: 'https://www.facebook.com/.well-known/oauth/openid/jwks/'
+  }
+};
+
+// Reads OAUTH_<PROVIDER>_CLIENT_ID and OAUTH_<PROVIDER>_CLIENT_SECRET, plus OAUTH_REDIRECT_URI.
+// OAUTH_<PROVIDER>_ISSUER points a provider somewhere else, such as a local mock issuer,
+// whose endpoints are then discovered unless OAUTH_<PROVIDER>_AUTHORIZATION_ENDPOINT,
+// _TOKEN_ENDPOINT or _JWKS_URI are given. A provider without a client id is turned off.
+export const loadOidcProviderConfig = (provider: OAuthProvider, env = process.env): OidcProviderConfig | null => {
+  const read = (name: string) => env[`OAUTH_${provider.toUpperCase()}_${name}`] || undefined;
+  const clientId = read('CLIENT_ID');
+  if (!clientId) return null;
+
+  const defaults = PROVIDER_DEFAULTS[provider];
+  const issuer = read('ISSUER');
+  return {
+    ...(issuer ? { issuer, scopes: defaults.scopes } : defaults),
+    clientId,
+    clientSecret: read('CLIENT_SECRET'),
+    redirectUri: env['OAUTH_REDIRECT_URI'] || 'http://localhost:5173/',
+    ...(read('AUTHORIZATION_ENDPOINT') && { authorizationEndpoint: read('AUTHORIZATION_ENDPOINT') }),
+    ...(read('TOKEN_ENDPOINT') && { tokenEndpoint: read('TOKEN_ENDPOINT') }),
+    ...(read('JWKS_URI') && { jwksUri: read('JWKS_URI') })
+  };
+};
+
+const providers = new Map<OAuthProvider, OidcProvider | null>();
+
+// Replaces a provider's configuration, for instance to point it at a mock issuer in
+// tests; null turns the provider off
+export const registerOidcProvider = (id: OAuthProvider, config: OidcProviderConfig | null) => {
+  providers.set(id, config && new OidcProvider(id, config));
+};
+
+export const getOidcProvider = (id: OAuthProvider): OidcProvider | null => {
+  if (!providers.has(id)) {
+    registerOidcProvider(id, loadOidcProviderConfig(id));
+  }
+  return providers.get(id) ?? null;
+};
+
+interface PendingAuthorization {
+  provider: OidcProvider;
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: number;
+}
+
+// Sign-ins waiting for the provider to redirect back, keyed by their state parameter
+const pendingAuthorizations = new Map<string, PendingAuthorization>();
+
+// Starts a sign-in and returns the provider URL to send the browser to
+export const beginAuthorization = async (provider: OidcProvider, now = Date.now()): Promise<string> => {
+  for (const [state, { expiresAt }] of pendingAuthorizations) {
+    if (expiresAt <= now || pendingAuthorizations.size >= MAX_PENDING_AUTHORIZATIONS) {
+      pendingAuthorizations.delete(state);
+    }
+  }
+
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  pendingAuthorizations.set(state, { provider, codeVerifier, nonce, expiresAt: now + AUTHORIZATION_TTL_MS });
+  return provider.authorizationUrl({ state, nonce, codeChallenge: pkceChallenge(codeVerifier) });
+};
+
+// Finishes the sign-in a state was handed out for. Each state can only be used once.
+export const completeAuthorization = async (state: string, code: string, now = Date.now()) => {
+  const pending = pendingAuthorizations.get(state);
+  pendingAuthorizations.delete(state);
+  if (!pending || pending.expiresAt <= now) {
+    throw new OidcError('This sign-in has expired. Please try again.');
+  }
+
+  const idToken = await pending.provider.redeemCode(code, pending.codeVerifier);
+  const claims = await pending.provider.verifyIdToken(idToken, pending.nonce, now);
+  return { provider: pending.provider.id, claims };
+};
@@ -0,0 +1,38 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'node:crypto';
+
+// scrypt is memory-hard: every guess costs 128 * N * r bytes (32 MiB here), which makes
+// large-scale cracking on GPUs expensive
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const deriveKey = (password: string, salt: Buffer, params: ScryptOptions, keyLength: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, keyLength, { ...params, maxmem: 256 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+
+// Stored as `scrypt$N$r$p$<salt>$<key>` with base64 salt and key, so the cost can be
+// raised later without invalidating existing hashes
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS, KEY_LENGTH);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [scheme, N, r, p, salt, key] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) }, expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// Checked against when an email has no password, so unknown accounts take as long to
+// reject as wrong passwords
+let dummyHash: Promise<string> | undefined;
+export const getDummyPasswordHash = () => (dummyHash ??= hashPassword(randomBytes(SALT_LENGTH).toString('hex')));
@@ -0,0 +1,24 @@
+import { userRoleSchema, type User, type UserRole } from '../schema';
+
+// Whether the user holds the role or one above it
+export const hasRole = (user: User, role: UserRole): boolean =>
+  userRoleSchema.options.indexOf(user.role) >= userRoleSchema.options.indexOf(role);
+
+// Creating and publishing puzzles takes the creator role; players only solve them
+export const canAuthorPuzzles = (user: User): boolean => hasRole(user, 'creator');
+
+// A puzzle can be changed or deleted by its creator and by admins. System puzzles have
+// no creator, so only admins can touch them.
+export const canManagePuzzle = (user: User, puzzle: { creator_id: number | null }): boolean =>
+  hasRole(user, 'admin') || puzzle.creator_id === user.id;
+
+// Drafts can only be played by the people who can manage them, so their solution can't be
+// pulled out one hint at a time
+export const canPlayPuzzle = (user: User | null, puzzle: { creator_id: number | null; is_published: boolean }): boolean =>
+  puzzle.is_published || (user !== null && canManagePuzzle(user, puzzle));
+
+// Moderators and admins can take any puzzle out of the gallery
+export const canUnpublishPuzzles = (user: User): boolean => hasRole(user, 'moderator');
+
+// The daily puzzle schedule is curated by admins
+export const canScheduleDailyPuzzles = (user: User): boolean => hasRole(user, 'admin');
@@ -0,0 +1,51 @@
+import 'dotenv/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { type Session, type User } from '../schema';
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+interface SessionClaims {
+  sub: number; // user id
+  exp: number; // expiry, in milliseconds since the epoch
+}
+
+// Signs and checks every session, so the server refuses to start without one. Only test
+// runs (bun test sets NODE_ENV=test) make do with a random key that lasts until they end.
+export const loadSessionSecret = (env = process.env): string => {
+  const secret = env['SESSION_SECRET'];
+  if (secret) return secret;
+  if (env['NODE_ENV'] === 'test') return randomBytes(32).toString('hex');
+  throw new Error('SESSION_SECRET is not set. Set it to a long random string, such as the output of `openssl rand -hex 32`.');
+};
+
+const secret = loadSessionSecret();
+
+const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+// A session token is `<claims>.<signature>`, both base64url encoded. It is stateless:
+// the signature is all that makes it trustworthy.
+export const signSessionToken = (userId: number, now = Date.now()): string => {
+  const claims: SessionClaims = { sub: userId, exp: now + SESSION_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+// The user id a token was issued to, or null when it is malformed, tampered with or expired
+export const verifySessionToken = (token: string, now = Date.now()): number | null => {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Partial<SessionClaims>;
+    if (typeof claims.sub !== 'number' || typeof claims.exp !== 'number' || claims.exp <= now) return null;
+    return claims.sub;
+  } catch {
+    return null;
+  }
+};
+
+export const createSession = (user: User): Session => ({ user, token: signSessionToken(user.id) });
@@ -0,0 +1,96 @@
+export const MAX_FAILED_SIGN_INS = 5;
+export const SIGN_IN_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+export const MAX_SIGN_INS_PER_ADDRESS = 30; // within SIGN_IN_WINDOW_MS, failed or not
+export const MAX_SIGN_UPS_PER_ADDRESS = 5;
+export const SIGN_UP_WINDOW_MS = 60 * 60 * 1000; // an hour
+
+// Counts failed sign-ins per key (an email address) in memory. After MAX_FAILED_SIGN_INS
+// failures within SIGN_IN_WINDOW_MS the key is locked until the first of them ages out.
+// Keys whose failures have all aged out are dropped, like RateLimiter does.
+export class LoginThrottle {
+  private failures = new Map<string, number[]>();
+  private lastSweep = 0;
+
+  constructor(
+    private readonly maxFailures = MAX_FAILED_SIGN_INS,
+    private readonly windowMs = SIGN_IN_WINDOW_MS
+  ) {}
+
+  // Number of keys being tracked
+  get size(): number {
+    return this.failures.size;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.windowMs) return;
+    this.lastSweep = now;
+    for (const [key, times] of this.failures) {
+      if (times[times.length - 1] <= now - this.windowMs) {
+        this.failures.delete(key);
+      }
+    }
+  }
+
+  private recent(key: string, now: number): number[] {
+    this.sweep(now);
+    const times = (this.failures.get(key) ?? []).filter(time => time > now - this.windowMs);
+    if (times.length > 0) this.failures.set(key, times);
+    else this.failures.delete(key);
+    return times;
+  }
+
+  // Milliseconds until the key may try again, or 0 when it is not locked
+  retryAfter(key: string, now = Date.now()): number {
+    const times = this.recent(key, now);
+    return times.length >= this.maxFailures ? times[0] + this.windowMs - now : 0;
+  }
+
+  recordFailure(key: string, now = Date.now()): void {
+    this.failures.set(key, [...this.recent(key, now), now]);
+  }
+
+  reset(key: string): void {
+    this.failures.delete(key);
+  }
+}
+
+// Counts requests per key (a user id or an IP address, say) in memory and turns a key away
+// once it has made maxRequests within windowMs, until the oldest of them ages out. Keys
+// that have gone quiet for a whole window are dropped, so passing visitors don't pile up.
+export class RateLimiter {
+  private requests = new Map<string, number[]>();
+  private lastSweep = 0;
+
+  constructor(
+    private readonly maxRequests: number,
+    private readonly windowMs: number
+  ) {}
+
+  // Number of keys being tracked
+  get size(): number {
+    return this.requests.size;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.windowMs) return;
+    this.lastSweep = now;
+    for (const [key, times] of this.requests) {
+      if (times[times.length - 1] <= now - this.windowMs) {
+        this.requests.delete(key);
+      }
+    }
+  }
+
+  // Records a request and returns 0, or the milliseconds until the key may try again
+  // without recording anything
+  take(key: string, now = Date.now()): number {
+    this.sweep(now);
+    const times = (this.requests.get(key) ?? []).filter(time => time > now - this.windowMs);
+    if (times.length >= this.maxRequests) {
+      this.requests.set(key, times);
+      return times[0] + this.windowMs - now;
+    }
+    this.requests.set(key, [...times, now]);
+    return 0;
+  }
+}
@@ -9,3 +9,10 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// True when a query failed on a unique constraint or index, or on the named one
+export const isUniqueViolation = (error: unknown, constraint?: string): boolean => {
+  if (!(error instanceof Error)) return false;
+  const { code, constraint: violated } = error as Error & { code?: string; constraint?: string };
+  return code === '23505' && (constraint === undefined || violated === constraint);
+};
@@ -1,10 +1,24 @@
-import { serial, text, pgTable, timestamp, integer, boolean, pgEnum, date } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, integer, boolean, pgEnum, date, real, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Define enums
 export const difficultyLevelEnum = pgEnum('difficulty_level', ['Easy', 'Medium', 'Hard']);
 export const authProviderEnum = pgEnum('auth_provider', ['google', 'facebook', 'email']);
-export const conditionTypeEnum = pgEnum('condition_type', ['sum', 'product', 'difference', 'equality', 'greater_than', 'less_than']);
+export const playModeEnum = pgEnum('play_mode', ['practice', 'ranked']);
+export const userRoleEnum = pgEnum('user_role', ['player', 'creator', 'moderator', 'admin']);
+export const conditionTypeEnum = pgEnum('condition_type', [
+  'sum',
+  'product',
+  'difference',
+  'equality',
+  'greater_than',
+  'less_than',
+  'all_different',
+  'not_equal',
+  'range',
+  'parity',
+  'exactly'
+]);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -13,9 +27,26 @@ export const usersTable = pgTable('users', {
   display_name: text('display_name').notNull(),
   auth_provider: authProviderEnum('auth_provider').notNull(),
   auth_provider_id: text('auth_provider_id').notNull(),
+  password_hash: text('password_hash'), // nullable - only email accounts have one; never sent to clients
+  role: userRoleEnum('role').notNull().default('player'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
-});
+}, (table) => [
+  // One account per identity at each sign-in provider
+  uniqueIndex('users_auth_provider_identity_unique').on(table.auth_provider, table.auth_provider_id)
+]);
+
+// Every users column except password_hash, for queries whose rows leave the server
+export const userColumns = {
+  id: usersTable.id,
+  email: usersTable.email,
+  display_name: usersTable.display_name,
+  auth_provider: usersTable.auth_provider,
+  auth_provider_id: usersTable.auth_provider_id,
+  role: usersTable.role,
+  created_at: usersTable.created_at,
+  updated_at: usersTable.updated_at
+};
 
 // Puzzles table
 export const puzzlesTable = pgTable('puzzles', {
@@ -30,6 +61,8 @@ export const puzzlesTable = pgTable('puzzles', {
   dominoes_data: text('dominoes_data').notNull(), // JSON string containing available dominoes
   conditions_data: text('conditions_data').notNull(), // JSON string containing region conditions
   solution_data: text('solution_data'), // nullable - JSON string containing solution layout
+  difficulty_rating: real('difficulty_rating'), // nullable - 0-100 solver-based rating, set when published
+  suggested_difficulty: difficultyLevelEnum('suggested_difficulty'), // nullable - bucket matching the rating
   is_published: boolean('is_published').default(false).notNull(),
   is_daily_puzzle: boolean('is_daily_puzzle').default(false).notNull(),
   daily_puzzle_date: date('daily_puzzle_date'), // nullable - only set for daily puzzles
@@ -37,11 +70,33 @@ export const puzzlesTable = pgTable('puzzles', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Every puzzles column except solution_data, for queries whose rows reach players
+export const puzzleColumns = {
+  id: puzzlesTable.id,
+  title: puzzlesTable.title,
+  description: puzzlesTable.description,
+  creator_id: puzzlesTable.creator_id,
+  difficulty_level: puzzlesTable.difficulty_level,
+  grid_width: puzzlesTable.grid_width,
+  grid_height: puzzlesTable.grid_height,
+  board_data: puzzlesTable.board_data,
+  dominoes_data: puzzlesTable.dominoes_data,
+  conditions_data: puzzlesTable.conditions_data,
+  difficulty_rating: puzzlesTable.difficulty_rating,
+  suggested_difficulty: puzzlesTable.suggested_difficulty,
+  is_published: puzzlesTable.is_published,
+  is_daily_puzzle: puzzlesTable.is_daily_puzzle,
+  daily_puzzle_date: puzzlesTable.daily_puzzle_date,
+  created_at: puzzlesTable.created_at,
+  updated_at: puzzlesTable.updated_at
+};
+
 // Achievements table
 export const achievementsTable = pgTable('achievements', {
   id: serial('id').primaryKey(),
   user_id: integer('user_id').notNull(),
   puzzle_id: integer('puzzle_id').notNull(),
+  attempt_id: integer('attempt_id').unique(), // nullable - verified attempt the achievement was earned with
   difficulty_level: difficultyLevelEnum('difficulty_level').notNull(),
   completion_time: integer('completion_time').notNull(), // in seconds
   is_cookie_trifecta: boolean('is_cookie_trifecta').default(false).notNull(),
@@ -56,9 +111,18 @@ export const puzzleAttemptsTable = pgTable('puzzle_attempts', {
   attempt_data: text('attempt_data').notNull(), // JSON string containing current puzzle state
   is_completed: boolean('is_completed').default(false).notNull(),
   completion_time: integer('completion_time'), // nullable - in seconds, null if not completed
+  hints_used: integer('hints_used').default(0).notNull(),
+  mistakes: integer('mistakes').default(0).notNull(), // one per progress check
+  mode: playModeEnum('mode').default('practice').notNull(),
   started_at: timestamp('started_at').defaultNow().notNull(),
-  completed_at: timestamp('completed_at') // nullable - only set when completed
-});
+  completed_at: timestamp('completed_at'), // nullable - only set when completed
+  abandoned_at: timestamp('abandoned_at'), // nullable - set when the player restarts the puzzle
+  paused_at: timestamp('paused_at'), // nullable - set while the clock is paused
+  paused_ms: integer('paused_ms').default(0).notNull() // paused time from earlier pauses, left out of completion_time
+}, (table) => [
+  // A puzzle can only be played in ranked mode once per user
+  uniqueIndex('puzzle_attempts_ranked_once_unique').on(table.user_id, table.puzzle_id).where(sql`${table.mode} = 'ranked'`)
+]);
 
 // Define relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
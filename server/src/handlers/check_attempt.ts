@@ -0,0 +1,68 @@
+import { db } from '../db';
+import { puzzleAttemptsTable, puzzlesTable } from '../db/schema';
+import { type CheckAttemptInput } from '../schema';
+import { eq, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { parsePuzzleContent } from '../puzzle/content';
+import { readAttemptBoard } from '../puzzle/board';
+import { findWrongPlacements, type CheckResponse } from '../puzzle/check';
+
+// Checks the submitted board against the stored solution. Every check counts as a
+// mistake on the attempt.
+export const checkAttempt = async (input: CheckAttemptInput, userId: number): Promise<CheckResponse> => {
+  try {
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, input.attempt_id))
+      .execute();
+
+    if (attempts.length === 0) {
+      throw new Error(`Puzzle attempt with id ${input.attempt_id} not found`);
+    }
+
+    const attempt = attempts[0];
+    if (attempt.user_id !== userId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Puzzle attempt belongs to another player' });
+    }
+    if (attempt.is_completed) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt is already completed' });
+    }
+    if (attempt.mode === 'ranked') {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Checks are not allowed in ranked play' });
+    }
+
+    const puzzles = await db.select()
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, attempt.puzzle_id))
+      .execute();
+
+    if (puzzles.length === 0) {
+      throw new Error(`Puzzle with id ${attempt.puzzle_id} not found`);
+    }
+
+    const content = parsePuzzleContent(puzzles[0]);
+    if (!content.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid puzzle data', cause: content.error });
+    }
+    if (!content.data.solution_data) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'This puzzle has no stored solution to check against' });
+    }
+
+    const wrongPlacements = findWrongPlacements(
+      content.data,
+      content.data.solution_data,
+      readAttemptBoard(input.attempt_data) ?? []
+    );
+
+    const result = await db.update(puzzleAttemptsTable)
+      .set({ mistakes: sql`${puzzleAttemptsTable.mistakes} + 1` })
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .returning()
+      .execute();
+
+    return { wrong_placements: wrongPlacements, mistakes: result[0].mistakes };
+  } catch (error) {
+    console.error('Attempt check failed:', error);
+    throw error;
+  }
+};
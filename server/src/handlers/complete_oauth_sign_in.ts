@@ -0,0 +1,68 @@
+import { db, isUniqueViolation } from '../db';
+import { usersTable, userColumns } from '../db/schema';
+import { type CompleteOAuthSignInInput, type Session } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { completeAuthorization, OidcError } from '../auth/oidc';
+import { createSession } from '../auth/session';
+
+const accountExists = () => new TRPCError({
+  code: 'CONFLICT',
+  message: 'An account with this email already exists. Sign in the way you did before.'
+});
+
+// Finishes a provider sign-in and logs in the account tied to the provider identity,
+// creating it on first sign-in
+export const completeOAuthSignIn = async (input: CompleteOAuthSignInInput): Promise<Session> => {
+  try {
+    const { provider, claims } = await completeAuthorization(input.state, input.code).catch(error => {
+      throw error instanceof OidcError
+        ? new TRPCError({ code: 'UNAUTHORIZED', message: error.message, cause: error })
+        : error;
+    });
+
+    const existing = await db.select(userColumns)
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.auth_provider, provider),
+        eq(usersTable.auth_provider_id, claims.sub)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      return createSession(existing[0]);
+    }
+
+    if (!claims.email || claims.email_verified === false) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Your ${provider} account needs a verified email address` });
+    }
+    const email = claims.email.trim().toLowerCase();
+
+    const emailTaken = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, email))
+      .execute();
+
+    if (emailTaken.length > 0) {
+      throw accountExists();
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        email,
+        display_name: claims.name || email.split('@')[0],
+        auth_provider: provider,
+        auth_provider_id: claims.sub
+      })
+      .returning(userColumns)
+      .execute()
+      .catch((error: unknown) => {
+        throw isUniqueViolation(error) ? accountExists() : error;
+      });
+
+    return createSession(result[0]);
+  } catch (error) {
+    console.error('OAuth sign-in failed:', error);
+    throw error;
+  }
+};
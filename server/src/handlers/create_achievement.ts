@@ -1,38 +1,75 @@
 import { db } from '../db';
-import { achievementsTable, usersTable, puzzlesTable } from '../db/schema';
-import { type CreateAchievementInput, type Achievement } from '../schema';
+import { achievementsTable, usersTable, puzzlesTable, puzzleAttemptsTable } from '../db/schema';
+import { type CreateAchievementInput, type Achievement, COOKIE_TRIFECTA_SECONDS } from '../schema';
 import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
 
-export const createAchievement = async (input: CreateAchievementInput): Promise<Achievement> => {
+// Achievements are only minted from ranked attempts the server has verified as completed
+export const createAchievement = async (input: CreateAchievementInput, userId: number): Promise<Achievement> => {
   try {
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, input.attempt_id))
+      .execute();
+
+    if (attempts.length === 0) {
+      throw new Error(`Puzzle attempt with id ${input.attempt_id} not found`);
+    }
+
+    const attempt = attempts[0];
+    if (!attempt.is_completed || attempt.completion_time === null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt has not been completed' });
+    }
+    if (attempt.user_id === null) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Guest attempts cannot earn achievements' });
+    }
+    if (attempt.user_id !== userId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Puzzle attempt belongs to another player' });
+    }
+    if (attempt.mode !== 'ranked') {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Practice attempts cannot earn achievements' });
+    }
+
+    // Each attempt earns at most one achievement
+    const existing = await db.select()
+      .from(achievementsTable)
+      .where(eq(achievementsTable.attempt_id, attempt.id))
+      .execute();
+
+    if (existing.length > 0) {
+      return existing[0];
+    }
+
     // Verify that the user exists
     const user = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, input.user_id))
+      .where(eq(usersTable.id, attempt.user_id))
       .execute();
 
     if (user.length === 0) {
-      throw new Error(`User with id ${input.user_id} not found`);
+      throw new Error(`User with id ${attempt.user_id} not found`);
     }
 
     // Verify that the puzzle exists
     const puzzle = await db.select()
       .from(puzzlesTable)
-      .where(eq(puzzlesTable.id, input.puzzle_id))
+      .where(eq(puzzlesTable.id, attempt.puzzle_id))
       .execute();
 
     if (puzzle.length === 0) {
-      throw new Error(`Puzzle with id ${input.puzzle_id} not found`);
+      throw new Error(`Puzzle with id ${attempt.puzzle_id} not found`);
     }
 
     // Insert achievement record
     const result = await db.insert(achievementsTable)
       .values({
-        user_id: input.user_id,
-        puzzle_id: input.puzzle_id,
-        difficulty_level: input.difficulty_level,
-        completion_time: input.completion_time,
-        is_cookie_trifecta: input.is_cookie_trifecta ?? false
+        user_id: attempt.user_id,
+        puzzle_id: attempt.puzzle_id,
+        attempt_id: attempt.id,
+        difficulty_level: puzzle[0].difficulty_level,
+        completion_time: attempt.completion_time,
+        // Any hint forfeits the cookie trifecta
+        is_cookie_trifecta: attempt.completion_time <= COOKIE_TRIFECTA_SECONDS && attempt.hints_used === 0
       })
       .returning()
       .execute();
@@ -42,4 +79,4 @@ export const createAchievement = async (input: CreateAchievementInput): Promise<
     console.error('Achievement creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -1,9 +1,12 @@
 import { db } from '../db';
 import { puzzlesTable, usersTable } from '../db/schema';
-import { type CreatePuzzleInput, type Puzzle } from '../schema';
+import { type CreatePuzzleInput, type PuzzleWithSolution } from '../schema';
 import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { parsePuzzleContent } from '../puzzle/content';
+import { verifyUniqueSolution } from '../puzzle/publishing';
 
-export const createPuzzle = async (input: CreatePuzzleInput): Promise<Puzzle> => {
+export const createPuzzle = async (input: CreatePuzzleInput): Promise<PuzzleWithSolution> => {
   try {
     // Validate creator exists if creator_id is provided
     if (input.creator_id) {
@@ -17,6 +20,24 @@ export const createPuzzle = async (input: CreatePuzzleInput): Promise<Puzzle> =>
       }
     }
 
+    // Validate board, dominoes, conditions and solution against the shared puzzle model
+    const content = parsePuzzleContent({
+      grid_width: input.grid_width,
+      grid_height: input.grid_height,
+      board_data: input.board_data,
+      dominoes_data: input.dominoes_data,
+      conditions_data: input.conditions_data,
+      solution_data: input.solution_data ?? null
+    });
+
+    if (!content.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid puzzle data', cause: content.error });
+    }
+
+    // Published puzzles must have exactly one solution, which is stored with them
+    // together with the difficulty rating derived from proving it
+    const verified = input.is_published ? verifyUniqueSolution(content.data) : null;
+
     // Insert puzzle record
     const result = await db.insert(puzzlesTable)
       .values({
@@ -29,7 +50,9 @@ export const createPuzzle = async (input: CreatePuzzleInput): Promise<Puzzle> =>
         board_data: input.board_data,
         dominoes_data: input.dominoes_data,
         conditions_data: input.conditions_data,
-        solution_data: input.solution_data || null,
+        solution_data: verified ? JSON.stringify(verified.solution) : input.solution_data || null,
+        difficulty_rating: verified?.rating.rating ?? null,
+        suggested_difficulty: verified?.rating.suggested_difficulty ?? null,
         is_published: input.is_published || false,
         is_daily_puzzle: input.is_daily_puzzle || false,
         daily_puzzle_date: input.daily_puzzle_date ? input.daily_puzzle_date.toISOString().split('T')[0] : null
@@ -1,25 +1,73 @@
-import { db } from '../db';
-import { puzzleAttemptsTable } from '../db/schema';
+import { db, isUniqueViolation } from '../db';
+import { puzzleAttemptsTable, puzzlesTable, usersTable, userColumns } from '../db/schema';
 import { type CreatePuzzleAttemptInput, type PuzzleAttempt } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { canPlayPuzzle } from '../auth/permissions';
+
+const alreadyPlayedRanked = () =>
+  new TRPCError({ code: 'CONFLICT', message: 'This puzzle has already been played in ranked mode' });
 
 export const createPuzzleAttempt = async (input: CreatePuzzleAttemptInput): Promise<PuzzleAttempt> => {
   try {
+    const mode = input.mode ?? 'practice';
+
+    // Unpublished puzzles are only open to the people who can manage them
+    const puzzles = await db.select({ creator_id: puzzlesTable.creator_id, is_published: puzzlesTable.is_published })
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, input.puzzle_id))
+      .execute();
+    if (puzzles[0] && !puzzles[0].is_published) {
+      const users = input.user_id
+        ? await db.select(userColumns).from(usersTable).where(eq(usersTable.id, input.user_id)).execute()
+        : [];
+      if (!canPlayPuzzle(users[0] ?? null, puzzles[0])) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'This puzzle has not been published' });
+      }
+    }
+
+    // Ranked play is for registered users, once per puzzle
+    if (mode === 'ranked') {
+      if (!input.user_id) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Guests can only play in practice mode' });
+      }
+
+      const ranked = await db.select({ id: puzzleAttemptsTable.id })
+        .from(puzzleAttemptsTable)
+        .where(and(
+          eq(puzzleAttemptsTable.user_id, input.user_id),
+          eq(puzzleAttemptsTable.puzzle_id, input.puzzle_id),
+          eq(puzzleAttemptsTable.mode, 'ranked')
+        ))
+        .limit(1)
+        .execute();
+
+      if (ranked.length > 0) {
+        throw alreadyPlayedRanked();
+      }
+    }
+
     // Insert puzzle attempt record
     const result = await db.insert(puzzleAttemptsTable)
       .values({
         user_id: input.user_id || null,
         puzzle_id: input.puzzle_id,
         attempt_data: input.attempt_data,
+        mode,
         is_completed: false,
         completion_time: null,
         completed_at: null
       })
       .returning()
-      .execute();
+      .execute()
+      .catch((error: unknown) => {
+        // Two requests can both pass the check above; the ranked-once index stops the second
+        throw isUniqueViolation(error) ? alreadyPlayedRanked() : error;
+      });
 
     return result[0];
   } catch (error) {
     console.error('Puzzle attempt creation failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
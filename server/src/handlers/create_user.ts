@@ -1,5 +1,5 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, userColumns } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
 
 export const createUser = async (input: CreateUserInput): Promise<User> => {
@@ -12,7 +12,7 @@ export const createUser = async (input: CreateUserInput): Promise<User> => {
         auth_provider: input.auth_provider,
         auth_provider_id: input.auth_provider_id
       })
-      .returning()
+      .returning(userColumns)
       .execute();
 
     return result[0];
@@ -1,17 +1,28 @@
 import { db } from '../db';
 import { puzzlesTable } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { type User } from '../schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { canManagePuzzle } from '../auth/permissions';
 
-export const deletePuzzle = async (puzzleId: number, creatorId: number): Promise<boolean> => {
+export const deletePuzzle = async (puzzleId: number, user: User): Promise<boolean> => {
   try {
-    // Delete puzzle only if it belongs to the creator
+    const puzzles = await db.select({ creator_id: puzzlesTable.creator_id })
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, puzzleId))
+      .execute();
+
+    // Nothing to delete
+    if (puzzles.length === 0) {
+      return false;
+    }
+
+    if (!canManagePuzzle(user, puzzles[0])) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the creator of this puzzle can delete it' });
+    }
+
     const result = await db.delete(puzzlesTable)
-      .where(
-        and(
-          eq(puzzlesTable.id, puzzleId),
-          eq(puzzlesTable.creator_id, creatorId)
-        )
-      )
+      .where(eq(puzzlesTable.id, puzzleId))
       .execute();
 
     // Return true if a row was deleted, false otherwise
@@ -20,4 +31,4 @@ export const deletePuzzle = async (puzzleId: number, creatorId: number): Promise
     console.error('Puzzle deletion failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
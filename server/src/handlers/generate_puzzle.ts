@@ -0,0 +1,28 @@
+import { TRPCError } from '@trpc/server';
+import { type GeneratePuzzleInput } from '../schema';
+import { generatePuzzle as generatePuzzleContent, type GeneratedPuzzle } from '../puzzle/generator';
+import { REQUEST_SOLVER_LIMITS } from '../puzzle/solver';
+
+export const generatePuzzle = async (input: GeneratePuzzleInput): Promise<GeneratedPuzzle> => {
+  try {
+    const puzzle = generatePuzzleContent({
+      difficulty: input.difficulty_level,
+      gridWidth: input.grid_width,
+      gridHeight: input.grid_height,
+      seed: input.seed,
+      timeLimitMs: REQUEST_SOLVER_LIMITS.timeLimitMs
+    });
+
+    if (!puzzle) {
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: 'Could not generate a puzzle with a unique solution'
+      });
+    }
+
+    return puzzle;
+  } catch (error) {
+    console.error('Puzzle generation failed:', error);
+    throw error;
+  }
+};
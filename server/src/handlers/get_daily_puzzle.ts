@@ -1,5 +1,5 @@
 import { db } from '../db';
-import { puzzlesTable } from '../db/schema';
+import { puzzlesTable, puzzleColumns } from '../db/schema';
 import { type Puzzle } from '../schema';
 import { eq, and } from 'drizzle-orm';
 
@@ -12,7 +12,7 @@ export const getDailyPuzzle = async (date?: Date): Promise<Puzzle | null> => {
     const formattedDate = targetDate.toISOString().split('T')[0];
     
     // Query for published daily puzzle on the specified date
-    const result = await db.select()
+    const result = await db.select(puzzleColumns)
       .from(puzzlesTable)
       .where(
         and(
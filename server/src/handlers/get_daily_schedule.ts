@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { puzzlesTable, puzzleColumns } from '../db/schema';
+import { type Puzzle } from '../schema';
+import { eq, and, gte, asc } from 'drizzle-orm';
+
+// Puzzles scheduled as daily puzzles from the given day on, earliest first
+export const getDailySchedule = async (from?: Date): Promise<Puzzle[]> => {
+  try {
+    const formattedDate = (from || new Date()).toISOString().split('T')[0];
+
+    const results = await db.select(puzzleColumns)
+      .from(puzzlesTable)
+      .where(
+        and(
+          eq(puzzlesTable.is_daily_puzzle, true),
+          gte(puzzlesTable.daily_puzzle_date, formattedDate)
+        )
+      )
+      .orderBy(asc(puzzlesTable.daily_puzzle_date))
+      .execute();
+
+    return results.map(puzzle => ({
+      ...puzzle,
+      daily_puzzle_date: puzzle.daily_puzzle_date ? new Date(puzzle.daily_puzzle_date) : null
+    }));
+  } catch (error) {
+    console.error('Failed to fetch daily schedule:', error);
+    throw error;
+  }
+};
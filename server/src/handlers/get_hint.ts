@@ -0,0 +1,63 @@
+import { db } from '../db';
+import { puzzleAttemptsTable, puzzlesTable } from '../db/schema';
+import { type GetHintInput } from '../schema';
+import { eq, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { parsePuzzleContent } from '../puzzle/content';
+import { readAttemptBoard } from '../puzzle/board';
+import { findHint, type HintResponse } from '../puzzle/hints';
+
+// Hints are worked out by the solver from the submitted board and counted on the attempt
+export const getHint = async (input: GetHintInput, userId: number): Promise<HintResponse> => {
+  try {
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, input.attempt_id))
+      .execute();
+
+    if (attempts.length === 0) {
+      throw new Error(`Puzzle attempt with id ${input.attempt_id} not found`);
+    }
+
+    const attempt = attempts[0];
+    if (attempt.user_id !== userId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Puzzle attempt belongs to another player' });
+    }
+    if (attempt.is_completed) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt is already completed' });
+    }
+    if (attempt.mode === 'ranked') {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Hints are not allowed in ranked play' });
+    }
+
+    const puzzles = await db.select()
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, attempt.puzzle_id))
+      .execute();
+
+    if (puzzles.length === 0) {
+      throw new Error(`Puzzle with id ${attempt.puzzle_id} not found`);
+    }
+
+    const content = parsePuzzleContent({ ...puzzles[0], solution_data: null });
+    if (!content.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid puzzle data', cause: content.error });
+    }
+
+    const hint = findHint(content.data, readAttemptBoard(input.attempt_data) ?? [], input.level);
+    if (!hint) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'No hint is available for this board' });
+    }
+
+    const result = await db.update(puzzleAttemptsTable)
+      .set({ hints_used: sql`${puzzleAttemptsTable.hints_used} + 1` })
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .returning()
+      .execute();
+
+    return { hint, hints_used: result[0].hints_used };
+  } catch (error) {
+    console.error('Hint lookup failed:', error);
+    throw error;
+  }
+};
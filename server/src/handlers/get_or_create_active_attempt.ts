@@ -0,0 +1,84 @@
+import { db, isUniqueViolation } from '../db';
+import { puzzleAttemptsTable, puzzlesTable, usersTable, userColumns } from '../db/schema';
+import { type GetOrCreateActiveAttemptInput, type PuzzleAttempt } from '../schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { canPlayPuzzle } from '../auth/permissions';
+
+const alreadyPlayedRanked = () =>
+  new TRPCError({ code: 'CONFLICT', message: 'This puzzle has already been played in ranked mode' });
+
+// Resumes the user's latest attempt at the puzzle in the chosen mode that is neither
+// completed nor restarted, and only starts a new one when there is none. A puzzle can
+// only be played in ranked mode once.
+export const getOrCreateActiveAttempt = async (input: GetOrCreateActiveAttemptInput): Promise<PuzzleAttempt> => {
+  try {
+    const mode = input.mode ?? 'practice';
+
+    // Unpublished puzzles are only open to the people who can manage them
+    const puzzles = await db.select({ creator_id: puzzlesTable.creator_id, is_published: puzzlesTable.is_published })
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, input.puzzle_id))
+      .execute();
+    if (puzzles[0] && !puzzles[0].is_published) {
+      const users = input.user_id
+        ? await db.select(userColumns).from(usersTable).where(eq(usersTable.id, input.user_id)).execute()
+        : [];
+      if (!canPlayPuzzle(users[0] ?? null, puzzles[0])) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'This puzzle has not been published' });
+      }
+    }
+
+    const active = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(and(
+        eq(puzzleAttemptsTable.user_id, input.user_id),
+        eq(puzzleAttemptsTable.puzzle_id, input.puzzle_id),
+        eq(puzzleAttemptsTable.mode, mode),
+        eq(puzzleAttemptsTable.is_completed, false),
+        isNull(puzzleAttemptsTable.abandoned_at)
+      ))
+      .orderBy(desc(puzzleAttemptsTable.started_at), desc(puzzleAttemptsTable.id))
+      .limit(1)
+      .execute();
+
+    if (active.length > 0) {
+      return active[0];
+    }
+
+    if (mode === 'ranked') {
+      const ranked = await db.select({ id: puzzleAttemptsTable.id })
+        .from(puzzleAttemptsTable)
+        .where(and(
+          eq(puzzleAttemptsTable.user_id, input.user_id),
+          eq(puzzleAttemptsTable.puzzle_id, input.puzzle_id),
+          eq(puzzleAttemptsTable.mode, 'ranked')
+        ))
+        .limit(1)
+        .execute();
+
+      if (ranked.length > 0) {
+        throw alreadyPlayedRanked();
+      }
+    }
+
+    const result = await db.insert(puzzleAttemptsTable)
+      .values({
+        user_id: input.user_id,
+        puzzle_id: input.puzzle_id,
+        attempt_data: input.attempt_data,
+        mode
+      })
+      .returning()
+      .execute()
+      .catch((error: unknown) => {
+        // Two requests can both pass the check above; the ranked-once index stops the second
+        throw isUniqueViolation(error) ? alreadyPlayedRanked() : error;
+      });
+
+    return result[0];
+  } catch (error) {
+    console.error('Active puzzle attempt lookup failed:', error);
+    throw error;
+  }
+};
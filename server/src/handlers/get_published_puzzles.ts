@@ -1,12 +1,12 @@
 import { db } from '../db';
-import { puzzlesTable } from '../db/schema';
+import { puzzlesTable, puzzleColumns } from '../db/schema';
 import { type Puzzle } from '../schema';
 import { eq, desc } from 'drizzle-orm';
 
 export const getPublishedPuzzles = async (limit: number = 20, offset: number = 0): Promise<Puzzle[]> => {
   try {
     // Query published puzzles ordered by creation date (newest first)
-    const results = await db.select()
+    const results = await db.select(puzzleColumns)
       .from(puzzlesTable)
       .where(eq(puzzlesTable.is_published, true))
       .orderBy(desc(puzzlesTable.created_at))
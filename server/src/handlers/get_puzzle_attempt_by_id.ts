@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { puzzleAttemptsTable } from '../db/schema';
+import { type PuzzleAttempt } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Anyone may look at a finished attempt, to watch its replay. An attempt still in
+// progress is only shown to the player it belongs to.
+export const getPuzzleAttemptById = async (id: number, viewerId: number | null = null): Promise<PuzzleAttempt | null> => {
+  try {
+    const results = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, id))
+      .execute();
+
+    const attempt = results[0];
+    if (!attempt) return null;
+
+    const isOwner = viewerId !== null && attempt.user_id === viewerId;
+    return attempt.is_completed || isOwner ? attempt : null;
+  } catch (error) {
+    console.error('Failed to get puzzle attempt by ID:', error);
+    throw error;
+  }
+};
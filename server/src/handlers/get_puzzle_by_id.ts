@@ -1,9 +1,11 @@
 import { db } from '../db';
 import { puzzlesTable } from '../db/schema';
-import { type Puzzle } from '../schema';
+import { type Puzzle, type PuzzleWithSolution, type User } from '../schema';
 import { eq } from 'drizzle-orm';
+import { canManagePuzzle } from '../auth/permissions';
 
-export const getPuzzleById = async (id: number): Promise<Puzzle | null> => {
+// The stored solution is only included for the puzzle's creator and admins
+export const getPuzzleById = async (id: number, viewer: User | null = null): Promise<Puzzle | PuzzleWithSolution | null> => {
   try {
     const results = await db.select()
       .from(puzzlesTable)
@@ -14,15 +16,14 @@ export const getPuzzleById = async (id: number): Promise<Puzzle | null> => {
       return null;
     }
 
-    const puzzle = results[0];
-    return {
+    const { solution_data, ...puzzle } = results[0];
+    const withDates = {
       ...puzzle,
-      created_at: puzzle.created_at,
-      updated_at: puzzle.updated_at,
       daily_puzzle_date: puzzle.daily_puzzle_date ? new Date(puzzle.daily_puzzle_date) : null
     };
+    return viewer && canManagePuzzle(viewer, puzzle) ? { ...withDates, solution_data } : withDates;
   } catch (error) {
     console.error('Failed to get puzzle by ID:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -1,12 +1,12 @@
 import { db } from '../db';
-import { puzzlesTable } from '../db/schema';
+import { puzzlesTable, puzzleColumns } from '../db/schema';
 import { eq, desc } from 'drizzle-orm';
 import { type GetPuzzlesByCreatorInput, type Puzzle } from '../schema';
 
 export const getPuzzlesByCreator = async (input: GetPuzzlesByCreatorInput): Promise<Puzzle[]> => {
   try {
     // Build the query to fetch puzzles by creator
-    const results = await db.select()
+    const results = await db.select(puzzleColumns)
       .from(puzzlesTable)
       .where(eq(puzzlesTable.creator_id, input.creator_id))
       .orderBy(desc(puzzlesTable.created_at))
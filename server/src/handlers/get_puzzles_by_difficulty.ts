@@ -1,13 +1,17 @@
 import { db } from '../db';
-import { puzzlesTable } from '../db/schema';
+import { puzzlesTable, puzzleColumns } from '../db/schema';
 import { type GetPuzzlesByDifficultyInput, type Puzzle } from '../schema';
-import { eq } from 'drizzle-orm';
+import { desc, eq, sql } from 'drizzle-orm';
 
 export const getPuzzlesByDifficulty = async (input: GetPuzzlesByDifficultyInput): Promise<Puzzle[]> => {
   try {
-    const results = await db.select()
+    const results = await db.select(puzzleColumns)
       .from(puzzlesTable)
       .where(eq(puzzlesTable.difficulty_level, input.difficulty_level))
+      // Unrated puzzles go last when sorting by rating
+      .orderBy(...(input.sort_by === 'rating'
+        ? [sql`${puzzlesTable.difficulty_rating} asc nulls last`, desc(puzzlesTable.id)]
+        : [desc(puzzlesTable.created_at), desc(puzzlesTable.id)]))
       .limit(input.limit)
       .offset(input.offset)
       .execute();
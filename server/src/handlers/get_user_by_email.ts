@@ -1,13 +1,13 @@
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, userColumns } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { type User } from '../schema';
 
 export const getUserByEmail = async (email: string): Promise<User | null> => {
   try {
-    const result = await db.select()
+    const result = await db.select(userColumns)
       .from(usersTable)
-      .where(eq(usersTable.email, email))
+      .where(eq(usersTable.email, email.trim().toLowerCase()))
       .limit(1)
       .execute();
 
@@ -4,7 +4,12 @@ import { type PuzzleAttempt } from '../schema';
 import { eq, and, desc } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
 
-export const getUserPuzzleAttempts = async (userId: number, puzzleId?: number): Promise<PuzzleAttempt[]> => {
+// Other players only get to see the user's finished attempts
+export const getUserPuzzleAttempts = async (
+  userId: number,
+  puzzleId?: number,
+  viewerId: number | null = null
+): Promise<PuzzleAttempt[]> => {
   try {
     // Build conditions array
     const conditions: SQL<unknown>[] = [];
@@ -17,6 +22,10 @@ export const getUserPuzzleAttempts = async (userId: number, puzzleId?: number):
       conditions.push(eq(puzzleAttemptsTable.puzzle_id, puzzleId));
     }
 
+    if (viewerId !== userId) {
+      conditions.push(eq(puzzleAttemptsTable.is_completed, true));
+    }
+
     // Build and execute query in one chain
     const results = await db.select()
       .from(puzzleAttemptsTable)
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { usersTable, userColumns } from '../db/schema';
+import { type ListUsersInput, type User } from '../schema';
+import { eq, desc } from 'drizzle-orm';
+
+export const listUsers = async (input: ListUsersInput): Promise<User[]> => {
+  try {
+    // Newest accounts first, optionally only those with one role
+    return await db.select(userColumns)
+      .from(usersTable)
+      .where(input.role ? eq(usersTable.role, input.role) : undefined)
+      .orderBy(desc(usersTable.created_at), desc(usersTable.id))
+      .limit(input.limit)
+      .offset(input.offset)
+      .execute();
+  } catch (error) {
+    console.error('Failed to list users:', error);
+    throw error;
+  }
+};
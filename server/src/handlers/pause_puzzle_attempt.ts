@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { puzzleAttemptsTable } from '../db/schema';
+import { type PuzzleAttemptClockInput, type PuzzleAttempt } from '../schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+// Stops the attempt's clock. Pausing an attempt that is already paused changes nothing.
+export const pausePuzzleAttempt = async (input: PuzzleAttemptClockInput, userId: number): Promise<PuzzleAttempt> => {
+  try {
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, input.id))
+      .execute();
+
+    if (attempts.length === 0) {
+      throw new Error(`Puzzle attempt with id ${input.id} not found`);
+    }
+
+    const attempt = attempts[0];
+    if (attempt.user_id !== userId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Puzzle attempt belongs to another player' });
+    }
+    if (attempt.is_completed) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt is already completed' });
+    }
+    if (attempt.abandoned_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt has been restarted' });
+    }
+
+    const result = await db.update(puzzleAttemptsTable)
+      .set({ paused_at: sql`now()` })
+      .where(and(eq(puzzleAttemptsTable.id, attempt.id), isNull(puzzleAttemptsTable.paused_at)))
+      .returning()
+      .execute();
+
+    return result[0] ?? attempt;
+  } catch (error) {
+    console.error('Puzzle attempt pause failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { TRPCError } from '@trpc/server';
+import { type RatePuzzleInput } from '../schema';
+import { parsePuzzleContent } from '../puzzle/content';
+import { rateDifficulty, type DifficultyRating } from '../puzzle/difficulty';
+import { PuzzlePublishError, searchForUniqueSolution } from '../puzzle/publishing';
+
+const TOO_COMPLEX_MESSAGE = 'Puzzle is too complex to rate';
+
+export const ratePuzzle = async (input: RatePuzzleInput): Promise<DifficultyRating> => {
+  try {
+    const content = parsePuzzleContent({ ...input, solution_data: null });
+
+    if (!content.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid puzzle data', cause: content.error });
+    }
+
+    // Searched the way publishing does, so the rating matches the one stored on publishing
+    const result = searchForUniqueSolution(content.data);
+    if (!result.search_complete) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: TOO_COMPLEX_MESSAGE,
+        cause: new PuzzlePublishError('too_complex', result.solution_count, TOO_COMPLEX_MESSAGE)
+      });
+    }
+    if (!result.solution) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle has no solution to rate' });
+    }
+
+    return rateDifficulty(content.data, result.stats);
+  } catch (error) {
+    console.error('Puzzle rating failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { puzzleAttemptsTable } from '../db/schema';
+import { type RestartPuzzleAttemptInput, type PuzzleAttempt } from '../schema';
+import { eq, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+// Restarting keeps the old attempt, marked as abandoned, and starts a fresh one with
+// its own clock and hint count. Only practice attempts can be restarted.
+export const restartPuzzleAttempt = async (input: RestartPuzzleAttemptInput, userId: number): Promise<PuzzleAttempt> => {
+  try {
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, input.id))
+      .execute();
+
+    if (attempts.length === 0) {
+      throw new Error(`Puzzle attempt with id ${input.id} not found`);
+    }
+
+    const attempt = attempts[0];
+    if (attempt.user_id !== userId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Puzzle attempt belongs to another player' });
+    }
+    if (attempt.is_completed) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt is already completed' });
+    }
+    if (attempt.abandoned_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt has been restarted' });
+    }
+    if (attempt.mode === 'ranked') {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Ranked attempts cannot be restarted' });
+    }
+
+    return await db.transaction(async (tx) => {
+      await tx.update(puzzleAttemptsTable)
+        .set({ abandoned_at: sql`now()` })
+        .where(eq(puzzleAttemptsTable.id, attempt.id))
+        .execute();
+
+      const result = await tx.insert(puzzleAttemptsTable)
+        .values({
+          user_id: attempt.user_id,
+          puzzle_id: attempt.puzzle_id,
+          attempt_data: input.attempt_data
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Puzzle attempt restart failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,39 @@
+import { db } from '../db';
+import { puzzleAttemptsTable } from '../db/schema';
+import { type PuzzleAttemptClockInput, type PuzzleAttempt } from '../schema';
+import { and, eq, isNotNull, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+// Restarts the attempt's clock, adding the time it spent paused to paused_ms. Resuming
+// an attempt that is not paused changes nothing.
+export const resumePuzzleAttempt = async (input: PuzzleAttemptClockInput, userId: number): Promise<PuzzleAttempt> => {
+  try {
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, input.id))
+      .execute();
+
+    if (attempts.length === 0) {
+      throw new Error(`Puzzle attempt with id ${input.id} not found`);
+    }
+
+    const attempt = attempts[0];
+    if (attempt.user_id !== userId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Puzzle attempt belongs to another player' });
+    }
+
+    const result = await db.update(puzzleAttemptsTable)
+      .set({
+        paused_ms: sql`${puzzleAttemptsTable.paused_ms} + round(extract(epoch from (now() - ${puzzleAttemptsTable.paused_at})) * 1000)::integer`,
+        paused_at: null
+      })
+      .where(and(eq(puzzleAttemptsTable.id, attempt.id), isNotNull(puzzleAttemptsTable.paused_at)))
+      .returning()
+      .execute();
+
+    return result[0] ?? attempt;
+  } catch (error) {
+    console.error('Puzzle attempt resume failed:', error);
+    throw error;
+  }
+};
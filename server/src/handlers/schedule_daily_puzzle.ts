@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { puzzlesTable, puzzleColumns } from '../db/schema';
+import { type ScheduleDailyPuzzleInput, type Puzzle } from '../schema';
+import { eq, and, ne } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+export const scheduleDailyPuzzle = async (input: ScheduleDailyPuzzleInput): Promise<Puzzle> => {
+  try {
+    const puzzles = await db.select({ is_published: puzzlesTable.is_published })
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, input.puzzle_id))
+      .execute();
+
+    if (puzzles.length === 0) {
+      throw new Error(`Puzzle with id ${input.puzzle_id} not found`);
+    }
+    if (!puzzles[0].is_published) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only published puzzles can be daily puzzles' });
+    }
+
+    const formattedDate = input.date.toISOString().split('T')[0];
+
+    // One daily puzzle per date: whatever was on it before comes off the schedule
+    const puzzle = await db.transaction(async (tx) => {
+      await tx.update(puzzlesTable)
+        .set({ is_daily_puzzle: false, daily_puzzle_date: null, updated_at: new Date() })
+        .where(
+          and(
+            eq(puzzlesTable.daily_puzzle_date, formattedDate),
+            ne(puzzlesTable.id, input.puzzle_id)
+          )
+        )
+        .execute();
+
+      const result = await tx.update(puzzlesTable)
+        .set({ is_daily_puzzle: true, daily_puzzle_date: formattedDate, updated_at: new Date() })
+        .where(eq(puzzlesTable.id, input.puzzle_id))
+        .returning(puzzleColumns)
+        .execute();
+
+      return result[0];
+    });
+
+    return {
+      ...puzzle,
+      daily_puzzle_date: puzzle.daily_puzzle_date ? new Date(puzzle.daily_puzzle_date) : null
+    };
+  } catch (error) {
+    console.error('Daily puzzle scheduling failed:', error);
+    throw error;
+  }
+};
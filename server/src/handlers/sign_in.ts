@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { usersTable, userColumns } from '../db/schema';
+import { type SignInInput, type Session } from '../schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getDummyPasswordHash, verifyPassword } from '../auth/password';
+import { createSession } from '../auth/session';
+import { LoginThrottle, MAX_SIGN_INS_PER_ADDRESS, RateLimiter, SIGN_IN_WINDOW_MS } from '../auth/throttle';
+
+export const signInThrottle = new LoginThrottle();
+
+// Caps sign-ins per address as well, so one address can't try passwords across many emails
+const signInLimiter = new RateLimiter(MAX_SIGN_INS_PER_ADDRESS, SIGN_IN_WINDOW_MS);
+
+// Logs in an email and password account. Unknown emails and wrong passwords get the same
+// answer, and repeated failures lock the email out for a while.
+export const signIn = async (input: SignInInput, clientIp: string): Promise<Session> => {
+  try {
+    const addressRetryAfter = signInLimiter.take(clientIp);
+    if (addressRetryAfter > 0) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many sign-in attempts from this address. Try again in ${Math.ceil(addressRetryAfter / 60000)} minute(s).`
+      });
+    }
+
+    const retryAfter = signInThrottle.retryAfter(input.email);
+    if (retryAfter > 0) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many failed sign-in attempts. Try again in ${Math.ceil(retryAfter / 60000)} minute(s).`
+      });
+    }
+
+    const accounts = await db.select({ user: userColumns, password_hash: usersTable.password_hash })
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    const account = accounts[0];
+    const isValid = await verifyPassword(input.password, account?.password_hash ?? await getDummyPasswordHash());
+    if (!account?.password_hash || !isValid) {
+      signInThrottle.recordFailure(input.email);
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Incorrect email or password' });
+    }
+
+    signInThrottle.reset(input.email);
+    return createSession(account.user);
+  } catch (error) {
+    console.error('Sign in failed:', error);
+    throw error;
+  }
+};
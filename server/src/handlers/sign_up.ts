@@ -0,0 +1,56 @@
+import { db, isUniqueViolation } from '../db';
+import { usersTable, userColumns } from '../db/schema';
+import { type SignUpInput, type Session } from '../schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hashPassword } from '../auth/password';
+import { createSession } from '../auth/session';
+import { MAX_SIGN_UPS_PER_ADDRESS, RateLimiter, SIGN_UP_WINDOW_MS } from '../auth/throttle';
+
+const emailTaken = () => new TRPCError({ code: 'CONFLICT', message: 'An account with this email already exists' });
+
+// Every sign-up hashes a password, which is slow on purpose, so each address only gets a
+// few of them an hour
+const signUpLimiter = new RateLimiter(MAX_SIGN_UPS_PER_ADDRESS, SIGN_UP_WINDOW_MS);
+
+// Creates an email and password account and logs it in
+export const signUp = async (input: SignUpInput, clientIp: string): Promise<Session> => {
+  try {
+    const retryAfter = signUpLimiter.take(clientIp);
+    if (retryAfter > 0) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many sign-ups from this address. Try again in ${Math.ceil(retryAfter / 60000)} minute(s).`
+      });
+    }
+
+    const existing = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (existing.length > 0) {
+      throw emailTaken();
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        email: input.email,
+        display_name: input.display_name,
+        auth_provider: 'email',
+        auth_provider_id: input.email,
+        password_hash: await hashPassword(input.password)
+      })
+      .returning(userColumns)
+      .execute()
+      .catch((error: unknown) => {
+        // Another sign-up with the same email can get in between the check and the insert
+        throw isUniqueViolation(error) ? emailTaken() : error;
+      });
+
+    return createSession(result[0]);
+  } catch (error) {
+    console.error('Sign up failed:', error);
+    throw error;
+  }
+};
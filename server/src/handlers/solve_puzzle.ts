@@ -0,0 +1,38 @@
+import { TRPCError } from '@trpc/server';
+import { type SolvePuzzleInput } from '../schema';
+import { parsePuzzleContent } from '../puzzle/content';
+import { findSolutions, REQUEST_SOLVER_LIMITS, type SolverResult } from '../puzzle/solver';
+import { PuzzlePublishError } from '../puzzle/publishing';
+
+const TOO_COMPLEX_MESSAGE = 'Puzzle is too complex to solve';
+
+export const solvePuzzle = async (input: SolvePuzzleInput): Promise<SolverResult> => {
+  try {
+    const content = parsePuzzleContent({
+      grid_width: input.grid_width,
+      grid_height: input.grid_height,
+      board_data: input.board_data,
+      dominoes_data: input.dominoes_data,
+      conditions_data: input.conditions_data,
+      solution_data: null
+    });
+
+    if (!content.success) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid puzzle data', cause: content.error });
+    }
+
+    const result = findSolutions(content.data, { maxSolutions: input.max_solutions, ...REQUEST_SOLVER_LIMITS });
+    if (!result.search_complete) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: TOO_COMPLEX_MESSAGE,
+        cause: new PuzzlePublishError('too_complex', result.solution_count, TOO_COMPLEX_MESSAGE)
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Puzzle solving failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,32 @@
+import { type StartOAuthSignInInput } from '../schema';
+import { TRPCError } from '@trpc/server';
+import { beginAuthorization, getOidcProvider } from '../auth/oidc';
+import { RateLimiter } from '../auth/throttle';
+
+// Anyone can start a sign-in, and each one is held in memory until the provider redirects
+// back, so each address only gets a few per minute
+const oauthStartLimiter = new RateLimiter(10, 60 * 1000);
+
+// Hands out the provider URL a sign-in starts at; the provider redirects back to the
+// client with a code for completeOAuthSignIn
+export const startOAuthSignIn = async (input: StartOAuthSignInInput, clientIp: string): Promise<{ authorization_url: string }> => {
+  try {
+    const retryAfter = oauthStartLimiter.take(clientIp);
+    if (retryAfter > 0) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `Too many sign-in attempts. Try again in ${Math.ceil(retryAfter / 1000)} second(s).`
+      });
+    }
+
+    const provider = getOidcProvider(input.provider);
+    if (!provider) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: `Signing in with ${input.provider} is not available` });
+    }
+
+    return { authorization_url: await beginAuthorization(provider) };
+  } catch (error) {
+    console.error('OAuth sign-in start failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { puzzlesTable, puzzleColumns } from '../db/schema';
+import { type Puzzle } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const unscheduleDailyPuzzle = async (puzzleId: number): Promise<Puzzle> => {
+  try {
+    const result = await db.update(puzzlesTable)
+      .set({ is_daily_puzzle: false, daily_puzzle_date: null, updated_at: new Date() })
+      .where(eq(puzzlesTable.id, puzzleId))
+      .returning(puzzleColumns)
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Puzzle with id ${puzzleId} not found`);
+    }
+
+    const puzzle = result[0];
+    return {
+      ...puzzle,
+      daily_puzzle_date: puzzle.daily_puzzle_date ? new Date(puzzle.daily_puzzle_date) : null
+    };
+  } catch (error) {
+    console.error('Daily puzzle unscheduling failed:', error);
+    throw error;
+  }
+};
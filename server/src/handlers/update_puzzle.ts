@@ -1,9 +1,13 @@
 import { db } from '../db';
 import { puzzlesTable } from '../db/schema';
-import { type UpdatePuzzleInput, type Puzzle } from '../schema';
+import { type UpdatePuzzleInput, type PuzzleWithSolution, type User } from '../schema';
 import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { parsePuzzleContent } from '../puzzle/content';
+import { verifyUniqueSolution, type VerifiedPuzzle } from '../puzzle/publishing';
+import { canManagePuzzle } from '../auth/permissions';
 
-export const updatePuzzle = async (input: UpdatePuzzleInput): Promise<Puzzle> => {
+export const updatePuzzle = async (input: UpdatePuzzleInput, user: User): Promise<PuzzleWithSolution> => {
   try {
     // First, verify the puzzle exists
     const existingPuzzles = await db.select()
@@ -15,6 +19,50 @@ export const updatePuzzle = async (input: UpdatePuzzleInput): Promise<Puzzle> =>
       throw new Error(`Puzzle with id ${input.id} not found`);
     }
 
+    const existing = existingPuzzles[0];
+    if (!canManagePuzzle(user, existing)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the creator of this puzzle can change it' });
+    }
+
+    // A stored solution only stays while the board, dominoes and conditions it solves do
+    const boardChanged = [
+      input.grid_width,
+      input.grid_height,
+      input.board_data,
+      input.dominoes_data,
+      input.conditions_data
+    ].some(value => value !== undefined);
+    const solutionData = input.solution_data !== undefined
+      ? input.solution_data
+      : boardChanged ? null : existing.solution_data;
+
+    // Re-validate the puzzle payloads when any of them change, merged with the stored values
+    const contentChanged = boardChanged || input.solution_data !== undefined;
+
+    // Publishing, or editing a published puzzle, requires proof of a unique solution
+    const isPublished = input.is_published ?? existing.is_published;
+    const requiresVerification = isPublished && (input.is_published === true || contentChanged);
+
+    let verified: VerifiedPuzzle | null = null;
+    if (contentChanged || requiresVerification) {
+      const content = parsePuzzleContent({
+        grid_width: input.grid_width ?? existing.grid_width,
+        grid_height: input.grid_height ?? existing.grid_height,
+        board_data: input.board_data ?? existing.board_data,
+        dominoes_data: input.dominoes_data ?? existing.dominoes_data,
+        conditions_data: input.conditions_data ?? existing.conditions_data,
+        solution_data: solutionData
+      });
+
+      if (!content.success) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid puzzle data', cause: content.error });
+      }
+
+      if (requiresVerification) {
+        verified = verifyUniqueSolution(content.data);
+      }
+    }
+
     // Build the update object with only provided fields
     const updateData: Record<string, any> = {
       updated_at: new Date()
@@ -45,18 +93,22 @@ export const updatePuzzle = async (input: UpdatePuzzleInput): Promise<Puzzle> =>
     if (input.conditions_data !== undefined) {
       updateData['conditions_data'] = input.conditions_data;
     }
-    if (input.solution_data !== undefined) {
-      updateData['solution_data'] = input.solution_data;
+    if (verified !== null) {
+      updateData['solution_data'] = JSON.stringify(verified.solution);
+    } else if (contentChanged) {
+      updateData['solution_data'] = solutionData;
+    }
+    // A stored rating only stays while it still describes the content
+    if (verified !== null) {
+      updateData['difficulty_rating'] = verified.rating.rating;
+      updateData['suggested_difficulty'] = verified.rating.suggested_difficulty;
+    } else if (contentChanged) {
+      updateData['difficulty_rating'] = null;
+      updateData['suggested_difficulty'] = null;
     }
     if (input.is_published !== undefined) {
       updateData['is_published'] = input.is_published;
     }
-    if (input.is_daily_puzzle !== undefined) {
-      updateData['is_daily_puzzle'] = input.is_daily_puzzle;
-    }
-    if (input.daily_puzzle_date !== undefined) {
-      updateData['daily_puzzle_date'] = input.daily_puzzle_date;
-    }
 
     // Update the puzzle
     const result = await db.update(puzzlesTable)
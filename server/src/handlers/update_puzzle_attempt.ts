@@ -1,31 +1,57 @@
 import { db } from '../db';
-import { puzzleAttemptsTable } from '../db/schema';
+import { puzzleAttemptsTable, puzzlesTable } from '../db/schema';
 import { type UpdatePuzzleAttemptInput, type PuzzleAttempt } from '../schema';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { parsePuzzleContent } from '../puzzle/content';
+import { evaluateBoard, readAttemptBoard } from '../puzzle/board';
 
-export const updatePuzzleAttempt = async (input: UpdatePuzzleAttemptInput): Promise<PuzzleAttempt> => {
+export const updatePuzzleAttempt = async (input: UpdatePuzzleAttemptInput, userId: number): Promise<PuzzleAttempt> => {
   try {
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, input.id))
+      .execute();
+
+    if (attempts.length === 0) {
+      throw new Error(`Puzzle attempt with id ${input.id} not found`);
+    }
+
+    const attempt = attempts[0];
+    if (attempt.user_id !== userId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Puzzle attempt belongs to another player' });
+    }
+    if (attempt.is_completed) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt is already completed' });
+    }
+    if (attempt.abandoned_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt has been restarted' });
+    }
+    if (attempt.paused_at) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Puzzle attempt is paused' });
+    }
+
     // Build update values only for fields that are provided
-    const updateValues: any = {};
-    
+    const updateValues: Partial<typeof puzzleAttemptsTable.$inferInsert> = {};
+
     if (input.attempt_data !== undefined) {
       updateValues.attempt_data = input.attempt_data;
+
+      // The attempt is complete once the submitted board solves the puzzle. Active time
+      // comes from the database clock, never from the client, less any time spent paused.
+      if (await solvesPuzzle(attempt.puzzle_id, input.attempt_data)) {
+        Object.assign(updateValues, {
+          is_completed: true,
+          completed_at: sql`now()`,
+          completion_time: sql`greatest(1, round(extract(epoch from (now() - ${puzzleAttemptsTable.started_at})) - ${puzzleAttemptsTable.paused_ms} / 1000.0))::integer`
+        });
+      }
     }
-    
-    if (input.is_completed !== undefined) {
-      updateValues.is_completed = input.is_completed;
-    }
-    
-    if (input.completion_time !== undefined) {
-      updateValues.completion_time = input.completion_time;
-    }
-    
-    if (input.completed_at !== undefined) {
-      updateValues.completed_at = input.completed_at;
+
+    if (Object.keys(updateValues).length === 0) {
+      return attempt;
     }
 
-    // Always update the updated_at timestamp implicitly handled by database
-    
     // Update the puzzle attempt record
     const result = await db.update(puzzleAttemptsTable)
       .set(updateValues)
@@ -33,13 +59,23 @@ export const updatePuzzleAttempt = async (input: UpdatePuzzleAttemptInput): Prom
       .returning()
       .execute();
 
-    if (result.length === 0) {
-      throw new Error(`Puzzle attempt with id ${input.id} not found`);
-    }
-
     return result[0];
   } catch (error) {
     console.error('Puzzle attempt update failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+const solvesPuzzle = async (puzzleId: number, attemptData: string): Promise<boolean> => {
+  const placements = readAttemptBoard(attemptData);
+  if (!placements) return false;
+
+  const puzzles = await db.select()
+    .from(puzzlesTable)
+    .where(eq(puzzlesTable.id, puzzleId))
+    .execute();
+  if (puzzles.length === 0) return false;
+
+  const content = parsePuzzleContent({ ...puzzles[0], solution_data: null });
+  return content.success && evaluateBoard(content.data, placements).is_solved;
+};
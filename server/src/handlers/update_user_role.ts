@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { usersTable, userColumns } from '../db/schema';
+import { type UpdateUserRoleInput, type User } from '../schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+export const updateUserRole = async (input: UpdateUserRoleInput, adminId: number): Promise<User> => {
+  try {
+    // Keeps the site from being left without an admin by accident
+    if (input.user_id === adminId) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'You cannot change your own role' });
+    }
+
+    const result = await db.update(usersTable)
+      .set({ role: input.role, updated_at: new Date() })
+      .where(eq(usersTable.id, input.user_id))
+      .returning(userColumns)
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`User with id ${input.user_id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('User role update failed:', error);
+    throw error;
+  }
+};
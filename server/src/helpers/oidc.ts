@@ -0,0 +1,104 @@
+import { generateKeyPairSync, createSign, randomBytes } from 'node:crypto';
+import { pkceChallenge, type IdTokenClaims, type OidcProviderConfig } from '../auth/oidc';
+
+// What the mock issuer puts in an ID token, on top of iss, aud, iat, exp and nonce.
+// Any of those can be overridden to hand out a bad token.
+export type MockIdentity = Partial<IdTokenClaims> & { sub: string };
+
+export interface MockOidcIssuer {
+  issuer: string;
+  // Provider settings pointing at this issuer, endpoints left to discovery
+  config: OidcProviderConfig;
+  // Plays the provider's consent screen for an authorization URL and returns the code it
+  // would redirect back with
+  authorize: (authorizationUrl: string, identity: MockIdentity) => string;
+  stop: () => void;
+}
+
+interface Grant {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  idToken: string;
+}
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// A local OpenID Connect issuer for tests: serves discovery, signing keys and a token
+// endpoint that checks PKCE, and signs RS256 ID tokens
+export const startMockOidcIssuer = (clientId = 'dotfit-test'): MockOidcIssuer => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+  const grants = new Map<string, Grant>();
+
+  let issuer = '';
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (request): Promise<Response> => {
+      const { pathname } = new URL(request.url);
+      if (pathname === '/.well-known/openid-configuration') {
+        return Response.json({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`
+        });
+      }
+      if (pathname === '/jwks') {
+        return Response.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+      }
+      if (pathname === '/token' && request.method === 'POST') {
+        const form = new URLSearchParams(await request.text());
+        const code = form.get('code') ?? '';
+        const grant = grants.get(code);
+        grants.delete(code);
+        const isValid = grant
+          && form.get('grant_type') === 'authorization_code'
+          && form.get('client_id') === grant.clientId
+          && form.get('redirect_uri') === grant.redirectUri
+          && pkceChallenge(form.get('code_verifier') ?? '') === grant.codeChallenge;
+        if (!isValid) {
+          return Response.json({ error: 'invalid_grant' }, { status: 400 });
+        }
+        return Response.json({ access_token: randomBytes(16).toString('hex'), token_type: 'Bearer', id_token: grant.idToken });
+      }
+      return new Response('Not found', { status: 404 });
+    }
+  });
+  issuer = `http://localhost:${server.port}`;
+
+  const signIdToken = (claims: object) => {
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+    return `${unsigned}.${createSign('RSA-SHA256').update(unsigned).sign(privateKey).toString('base64url')}`;
+  };
+
+  const authorize = (authorizationUrl: string, identity: MockIdentity) => {
+    const params = new URL(authorizationUrl).searchParams;
+    if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256') {
+      throw new Error('Mock issuer only supports the authorization code flow with PKCE');
+    }
+    const nowS = Math.floor(Date.now() / 1000);
+    const code = randomBytes(16).toString('hex');
+    grants.set(code, {
+      clientId: params.get('client_id') ?? '',
+      redirectUri: params.get('redirect_uri') ?? '',
+      codeChallenge: params.get('code_challenge') ?? '',
+      idToken: signIdToken({
+        iss: issuer,
+        aud: params.get('client_id'),
+        iat: nowS,
+        exp: nowS + 3600,
+        nonce: params.get('nonce'),
+        ...identity
+      })
+    });
+    return code;
+  };
+
+  return {
+    issuer,
+    config: { issuer, clientId, redirectUri: 'http://localhost:5173/', scopes: ['openid', 'email', 'profile'] },
+    authorize,
+    stop: () => server.stop(true)
+  };
+};
@@ -1,13 +1,16 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
-import { z } from 'zod';
+import { z, ZodError } from 'zod';
 
 // Import schemas
 import {
-  createUserInputSchema,
+  signUpInputSchema,
+  signInInputSchema,
+  startOAuthSignInInputSchema,
+  completeOAuthSignInInputSchema,
   createPuzzleInputSchema,
   updatePuzzleInputSchema,
   getPuzzlesByDifficultyInputSchema,
@@ -15,12 +18,26 @@ import {
   createPuzzleAttemptInputSchema,
   updatePuzzleAttemptInputSchema,
   createAchievementInputSchema,
-  getUserAchievementsInputSchema
+  getUserAchievementsInputSchema,
+  solvePuzzleInputSchema,
+  ratePuzzleInputSchema,
+  generatePuzzleInputSchema,
+  getHintInputSchema,
+  getOrCreateActiveAttemptInputSchema,
+  restartPuzzleAttemptInputSchema,
+  puzzleAttemptClockInputSchema,
+  checkAttemptInputSchema,
+  listUsersInputSchema,
+  updateUserRoleInputSchema,
+  scheduleDailyPuzzleInputSchema,
+  type UserRole
 } from './schema';
 
 // Import handlers
-import { createUser } from './handlers/create_user';
-import { getUserByEmail } from './handlers/get_user_by_email';
+import { signUp } from './handlers/sign_up';
+import { signIn } from './handlers/sign_in';
+import { startOAuthSignIn } from './handlers/start_oauth_sign_in';
+import { completeOAuthSignIn } from './handlers/complete_oauth_sign_in';
 import { createPuzzle } from './handlers/create_puzzle';
 import { updatePuzzle } from './handlers/update_puzzle';
 import { getPuzzleById } from './handlers/get_puzzle_by_id';
@@ -30,17 +47,95 @@ import { getPublishedPuzzles } from './handlers/get_published_puzzles';
 import { getDailyPuzzle } from './handlers/get_daily_puzzle';
 import { createPuzzleAttempt } from './handlers/create_puzzle_attempt';
 import { updatePuzzleAttempt } from './handlers/update_puzzle_attempt';
+import { getOrCreateActiveAttempt } from './handlers/get_or_create_active_attempt';
+import { restartPuzzleAttempt } from './handlers/restart_puzzle_attempt';
+import { pausePuzzleAttempt } from './handlers/pause_puzzle_attempt';
+import { resumePuzzleAttempt } from './handlers/resume_puzzle_attempt';
 import { getUserPuzzleAttempts } from './handlers/get_user_puzzle_attempts';
+import { getPuzzleAttemptById } from './handlers/get_puzzle_attempt_by_id';
 import { createAchievement } from './handlers/create_achievement';
 import { getUserAchievements } from './handlers/get_user_achievements';
 import { getCookieTrifectaStatus } from './handlers/get_cookie_trifecta_status';
 import { deletePuzzle } from './handlers/delete_puzzle';
+import { solvePuzzle } from './handlers/solve_puzzle';
+import { generatePuzzle } from './handlers/generate_puzzle';
+import { ratePuzzle } from './handlers/rate_puzzle';
+import { getHint } from './handlers/get_hint';
+import { checkAttempt } from './handlers/check_attempt';
+import { listUsers } from './handlers/list_users';
+import { updateUserRole } from './handlers/update_user_role';
+import { unpublishPuzzle } from './handlers/unpublish_puzzle';
+import { getDailySchedule } from './handlers/get_daily_schedule';
+import { scheduleDailyPuzzle } from './handlers/schedule_daily_puzzle';
+import { unscheduleDailyPuzzle } from './handlers/unschedule_daily_puzzle';
+import { PuzzlePublishError } from './puzzle/publishing';
+import { createContext, type Context } from './auth/context';
+import { hasRole } from './auth/permissions';
+import { RateLimiter } from './auth/throttle';
 
-const t = initTRPC.create({
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // Surface structured error details: field-level validation issues and publish problems
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        zodError: error.cause instanceof ZodError
+          ? error.cause.flatten(issue => ({ path: issue.path.join('.'), message: issue.message }))
+          : null,
+        publishError: error.cause instanceof PuzzlePublishError
+          ? { problem: error.cause.problem, solution_count: error.cause.solutionCount }
+          : null
+      }
+    };
+  }
 });
 
 const publicProcedure = t.procedure;
+
+// Requires a valid session; the caller is then available as ctx.user
+const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You need to be logged in to do that' });
+  }
+  return next({ ctx: { user: ctx.user } });
+});
+
+// Requires a session whose user holds the role, or one above it
+const roleProcedure = (role: UserRole) => protectedProcedure.use(({ ctx, next }) => {
+  if (!hasRole(ctx.user, role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have permission to do that' });
+  }
+  return next();
+});
+
+const adminProcedure = roleProcedure('admin');
+
+// Solving, rating, generating, publishing and hints tie up the server while they search, so
+// they need a session and each user gets a limited number of them per minute
+const solverLimiter = new RateLimiter(20, 60 * 1000);
+const limitSearches = (userId: number) => {
+  const retryAfter = solverLimiter.take(String(userId));
+  if (retryAfter > 0) {
+    throw new TRPCError({
+      code: 'TOO_MANY_REQUESTS',
+      message: `Too many puzzle searches. Try again in ${Math.ceil(retryAfter / 1000)} second(s).`
+    });
+  }
+};
+
+const solverProcedure = protectedProcedure.use(({ ctx, next }) => {
+  limitSearches(ctx.user.id);
+  return next();
+});
+
+// Creating and editing puzzles is for creators and the roles above them
+const authoringProcedure = roleProcedure('creator').use(({ ctx, next }) => {
+  limitSearches(ctx.user.id);
+  return next();
+});
+
 const router = t.router;
 
 const appRouter = router({
@@ -49,27 +144,39 @@ const appRouter = router({
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
-  // User management
-  createUser: publicProcedure
-    .input(createUserInputSchema)
-    .mutation(({ input }) => createUser(input)),
+  // User management and sessions. Email accounts sign up with a password; Google and
+  // Facebook accounts are created on their first OAuth sign-in.
+  signUp: publicProcedure
+    .input(signUpInputSchema)
+    .mutation(({ input, ctx }) => signUp(input, ctx.clientIp)),
+
+  signIn: publicProcedure
+    .input(signInInputSchema)
+    .mutation(({ input, ctx }) => signIn(input, ctx.clientIp)),
+
+  startOAuthSignIn: publicProcedure
+    .input(startOAuthSignInInputSchema)
+    .mutation(({ input, ctx }) => startOAuthSignIn(input, ctx.clientIp)),
 
-  getUserByEmail: publicProcedure
-    .input(z.string().email())
-    .query(({ input }) => getUserByEmail(input)),
+  completeOAuthSignIn: publicProcedure
+    .input(completeOAuthSignInInputSchema)
+    .mutation(({ input }) => completeOAuthSignIn(input)),
 
-  // Puzzle management
-  createPuzzle: publicProcedure
-    .input(createPuzzleInputSchema)
-    .mutation(({ input }) => createPuzzle(input)),
+  getCurrentUser: publicProcedure.query(({ ctx }) => ctx.user),
 
-  updatePuzzle: publicProcedure
+  // Puzzle management. Creators write puzzles; they go on the daily schedule afterwards,
+  // through scheduleDailyPuzzle by an admin.
+  createPuzzle: authoringProcedure
+    .input(createPuzzleInputSchema.omit({ creator_id: true, is_daily_puzzle: true, daily_puzzle_date: true }))
+    .mutation(({ input, ctx }) => createPuzzle({ ...input, is_daily_puzzle: false, creator_id: ctx.user.id })),
+
+  updatePuzzle: authoringProcedure
     .input(updatePuzzleInputSchema)
-    .mutation(({ input }) => updatePuzzle(input)),
+    .mutation(({ input, ctx }) => updatePuzzle(input, ctx.user)),
 
   getPuzzleById: publicProcedure
     .input(z.number())
-    .query(({ input }) => getPuzzleById(input)),
+    .query(({ input, ctx }) => getPuzzleById(input, ctx.user)),
 
   getPuzzlesByDifficulty: publicProcedure
     .input(getPuzzlesByDifficultyInputSchema)
@@ -90,33 +197,72 @@ const appRouter = router({
     .input(z.coerce.date().optional())
     .query(({ input }) => getDailyPuzzle(input)),
 
-  deletePuzzle: publicProcedure
+  deletePuzzle: protectedProcedure
     .input(z.object({
-      puzzleId: z.number(),
-      creatorId: z.number()
+      puzzleId: z.number()
     }))
-    .mutation(({ input }) => deletePuzzle(input.puzzleId, input.creatorId)),
+    .mutation(({ input, ctx }) => deletePuzzle(input.puzzleId, ctx.user)),
+
+  solvePuzzle: solverProcedure
+    .input(solvePuzzleInputSchema)
+    .query(({ input }) => solvePuzzle(input)),
+
+  ratePuzzle: solverProcedure
+    .input(ratePuzzleInputSchema)
+    .query(({ input }) => ratePuzzle(input)),
+
+  generatePuzzle: solverProcedure
+    .input(generatePuzzleInputSchema)
+    .query(({ input }) => generatePuzzle(input)),
 
   // Puzzle attempts
-  createPuzzleAttempt: publicProcedure
-    .input(createPuzzleAttemptInputSchema)
-    .mutation(({ input }) => createPuzzleAttempt(input)),
+  createPuzzleAttempt: protectedProcedure
+    .input(createPuzzleAttemptInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => createPuzzleAttempt({ ...input, user_id: ctx.user.id })),
 
-  updatePuzzleAttempt: publicProcedure
+  updatePuzzleAttempt: protectedProcedure
     .input(updatePuzzleAttemptInputSchema)
-    .mutation(({ input }) => updatePuzzleAttempt(input)),
+    .mutation(({ input, ctx }) => updatePuzzleAttempt(input, ctx.user.id)),
+
+  getOrCreateActiveAttempt: protectedProcedure
+    .input(getOrCreateActiveAttemptInputSchema.omit({ user_id: true }))
+    .mutation(({ input, ctx }) => getOrCreateActiveAttempt({ ...input, user_id: ctx.user.id })),
+
+  restartPuzzleAttempt: protectedProcedure
+    .input(restartPuzzleAttemptInputSchema)
+    .mutation(({ input, ctx }) => restartPuzzleAttempt(input, ctx.user.id)),
+
+  pausePuzzleAttempt: protectedProcedure
+    .input(puzzleAttemptClockInputSchema)
+    .mutation(({ input, ctx }) => pausePuzzleAttempt(input, ctx.user.id)),
+
+  resumePuzzleAttempt: protectedProcedure
+    .input(puzzleAttemptClockInputSchema)
+    .mutation(({ input, ctx }) => resumePuzzleAttempt(input, ctx.user.id)),
 
   getUserPuzzleAttempts: publicProcedure
     .input(z.object({
       userId: z.number(),
       puzzleId: z.number().optional()
     }))
-    .query(({ input }) => getUserPuzzleAttempts(input.userId, input.puzzleId)),
+    .query(({ input, ctx }) => getUserPuzzleAttempts(input.userId, input.puzzleId, ctx.user?.id ?? null)),
+
+  getPuzzleAttemptById: publicProcedure
+    .input(z.number())
+    .query(({ input, ctx }) => getPuzzleAttemptById(input, ctx.user?.id ?? null)),
+
+  getHint: solverProcedure
+    .input(getHintInputSchema)
+    .mutation(({ input, ctx }) => getHint(input, ctx.user.id)),
+
+  checkAttempt: protectedProcedure
+    .input(checkAttemptInputSchema)
+    .mutation(({ input, ctx }) => checkAttempt(input, ctx.user.id)),
 
   // Achievements
-  createAchievement: publicProcedure
+  createAchievement: protectedProcedure
     .input(createAchievementInputSchema)
-    .mutation(({ input }) => createAchievement(input)),
+    .mutation(({ input, ctx }) => createAchievement(input, ctx.user.id)),
 
   getUserAchievements: publicProcedure
     .input(getUserAchievementsInputSchema)
@@ -124,7 +270,37 @@ const appRouter = router({
 
   getCookieTrifectaStatus: publicProcedure
     .input(z.number())
-    .query(({ input }) => getCookieTrifectaStatus(input))
+    .query(({ input }) => getCookieTrifectaStatus(input)),
+
+  // Site administration
+  listUsers: adminProcedure
+    .input(listUsersInputSchema)
+    .query(({ input }) => listUsers(input)),
+
+  updateUserRole: adminProcedure
+    .input(updateUserRoleInputSchema)
+    .mutation(({ input, ctx }) => updateUserRole(input, ctx.user.id)),
+
+  // Moderators can take puzzles out of the gallery as well
+  unpublishPuzzle: roleProcedure('moderator')
+    .input(z.object({
+      puzzleId: z.number()
+    }))
+    .mutation(({ input }) => unpublishPuzzle(input.puzzleId)),
+
+  getDailySchedule: adminProcedure
+    .input(z.coerce.date().optional())
+    .query(({ input }) => getDailySchedule(input)),
+
+  scheduleDailyPuzzle: adminProcedure
+    .input(scheduleDailyPuzzleInputSchema)
+    .mutation(({ input }) => scheduleDailyPuzzle(input)),
+
+  unscheduleDailyPuzzle: adminProcedure
+    .input(z.object({
+      puzzleId: z.number()
+    }))
+    .mutation(({ input }) => unscheduleDailyPuzzle(input.puzzleId))
 });
 
 export type AppRouter = typeof appRouter;
@@ -136,9 +312,7 @@ async function start() {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
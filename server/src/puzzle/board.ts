@@ -0,0 +1,82 @@
+import { type Cell, type DominoPlacement, attemptBoardSchema } from '../schema';
+import { type PuzzleContent } from './content';
+import { evaluateCondition } from './conditions';
+import { areAdjacent, cellKey, isInsideGrid } from './grid';
+
+export interface BoardEvaluation {
+  is_solved: boolean;
+  invalid_placements: number[]; // domino ids that are unknown, repeated, off the grid, on a void, split or overlapping
+  unplaced_dominoes: number[];
+  uncovered_cells: Cell[]; // region cells without a domino half on them
+  violated_regions: number[]; // regions whose condition the placed values already break
+}
+
+// Checks a player's board against the puzzle rules. Invalid placements are ignored when
+// reading cell values, so they never count towards a condition.
+export const evaluateBoard = (content: PuzzleContent, placements: DominoPlacement[]): BoardEvaluation => {
+  const dominoes = new Map(content.dominoes_data.dominoes.map(domino => [domino.id, domino]));
+  const voidCells = new Set(content.board_data.voids.map(cellKey));
+  const placedIds = new Set<number>();
+  const valueAt = new Map<string, number>();
+  const invalidPlacements: number[] = [];
+
+  placements.forEach(({ domino_id, position }) => {
+    const domino = dominoes.get(domino_id);
+    const [first, second] = position;
+    const isValid = domino !== undefined &&
+      !placedIds.has(domino_id) &&
+      position.every(cell =>
+        isInsideGrid(cell, content.grid_width, content.grid_height) &&
+        !voidCells.has(cellKey(cell)) &&
+        !valueAt.has(cellKey(cell))) &&
+      areAdjacent(first, second);
+
+    if (!domino || !isValid) {
+      invalidPlacements.push(domino_id);
+      return;
+    }
+    placedIds.add(domino_id);
+    valueAt.set(cellKey(first), domino.values[0]);
+    valueAt.set(cellKey(second), domino.values[1]);
+  });
+
+  const unplacedDominoes = content.dominoes_data.dominoes
+    .filter(domino => !placedIds.has(domino.id))
+    .map(domino => domino.id);
+
+  const uncoveredCells = content.board_data.regions
+    .flatMap(region => region.cells)
+    .filter(cell => !valueAt.has(cellKey(cell)));
+
+  let allSatisfied = true;
+  const violatedRegions: number[] = [];
+  content.conditions_data.conditions.forEach(condition => {
+    const region = content.board_data.regions.find(r => r.id === condition.region_id);
+    if (!region) return;
+    const values = region.cells.flatMap(cell => valueAt.get(cellKey(cell)) ?? []);
+    const status = evaluateCondition(condition, values, region.cells.length);
+    if (status === 'violated') violatedRegions.push(region.id);
+    if (status !== 'satisfied') allSatisfied = false;
+  });
+
+  return {
+    is_solved: invalidPlacements.length === 0 &&
+      unplacedDominoes.length === 0 &&
+      uncoveredCells.length === 0 &&
+      allSatisfied,
+    invalid_placements: invalidPlacements,
+    unplaced_dominoes: unplacedDominoes,
+    uncovered_cells: uncoveredCells,
+    violated_regions: violatedRegions
+  };
+};
+
+// Reads the placements out of an attempt's attempt_data; null when it holds no board
+export const readAttemptBoard = (attemptData: string): DominoPlacement[] | null => {
+  try {
+    const result = attemptBoardSchema.safeParse(JSON.parse(attemptData));
+    return result.success ? result.data.placements : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,37 @@
+import { type DominoPlacement, type SolutionData } from '../schema';
+import { type PuzzleContent } from './content';
+import { evaluateBoard } from './board';
+import { cellKey } from './grid';
+
+export interface CheckResponse {
+  wrong_placements: number[]; // ids of placed dominoes that do not match the solution
+  mistakes: number;
+}
+
+// Compares the player's placed dominoes with the puzzle's solution. A domino is wrong
+// when its placement is invalid or it puts a different value on any of its cells than
+// the solution does, so dominoes with equal values are interchangeable. Only which
+// dominoes are wrong is reported, never where they belong.
+export const findWrongPlacements = (
+  content: PuzzleContent,
+  solution: SolutionData,
+  placements: DominoPlacement[]
+): number[] => {
+  const valuesById = new Map(content.dominoes_data.dominoes.map(domino => [domino.id, domino.values]));
+  const solutionValues = new Map<string, number>();
+  solution.placement.forEach(({ domino_id, position }) => {
+    const values = valuesById.get(domino_id);
+    if (values) position.forEach((cell, half) => solutionValues.set(cellKey(cell), values[half]));
+  });
+
+  const invalid = new Set(evaluateBoard(content, placements).invalid_placements);
+  return placements
+    .filter(({ domino_id, position }) => {
+      const values = valuesById.get(domino_id);
+      return invalid.has(domino_id) ||
+        !values ||
+        position.some((cell, half) => solutionValues.get(cellKey(cell)) !== values[half]);
+    })
+    .map(placement => placement.domino_id)
+    .filter((id, index, ids) => ids.indexOf(id) === index);
+};
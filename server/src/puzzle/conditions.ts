@@ -0,0 +1,59 @@
+import { MAX_PIP_VALUE, type RegionCondition } from '../schema';
+
+export type ConditionStatus = 'satisfied' | 'violated' | 'pending';
+
+// Evaluates a region condition against the pip values placed in the region so far.
+// `cellCount` is the size of the region: while some of its cells are still empty the
+// result is 'pending', unless the placed values already rule the condition out.
+// `maxValue` is the largest pip value that can still be placed.
+export const evaluateCondition = (
+  condition: RegionCondition,
+  values: number[],
+  cellCount: number,
+  maxValue: number = MAX_PIP_VALUE
+): ConditionStatus => {
+  const remaining = cellCount - values.length;
+  const isComplete = remaining === 0;
+  // Conditions that every pip has to meet on its own
+  const everyValue = (test: (value: number) => boolean): ConditionStatus => {
+    if (!values.every(test)) return 'violated';
+    return isComplete ? 'satisfied' : 'pending';
+  };
+
+  switch (condition.type) {
+    case 'sum': {
+      const sum = values.reduce((a, b) => a + b, 0);
+      if (isComplete) return sum === condition.target ? 'satisfied' : 'violated';
+      return sum <= condition.target && sum + remaining * maxValue >= condition.target
+        ? 'pending'
+        : 'violated';
+    }
+    case 'product': {
+      const product = values.reduce((a, b) => a * b, 1);
+      if (isComplete) return product === condition.target ? 'satisfied' : 'violated';
+      if (product === 0) return condition.target === 0 ? 'pending' : 'violated';
+      // A non-zero target has to be divisible by the partial product
+      return condition.target === 0 || condition.target % product === 0 ? 'pending' : 'violated';
+    }
+    case 'difference': {
+      if (!isComplete) return 'pending';
+      return values.length === 2 && Math.abs(values[0] - values[1]) === condition.target
+        ? 'satisfied'
+        : 'violated';
+    }
+    case 'equality': {
+      if (values.some(value => value !== values[0])) return 'violated';
+      return isComplete ? 'satisfied' : 'pending';
+    }
+    case 'all_different': {
+      if (new Set(values).size !== values.length || cellCount > maxValue + 1) return 'violated';
+      return isComplete ? 'satisfied' : 'pending';
+    }
+    case 'greater_than': return everyValue(value => value > condition.target);
+    case 'less_than': return everyValue(value => value < condition.target);
+    case 'not_equal': return everyValue(value => value !== condition.target);
+    case 'exactly': return everyValue(value => value === condition.target);
+    case 'range': return everyValue(value => value >= condition.min && value <= condition.max);
+    case 'parity': return everyValue(value => value % 2 === (condition.parity === 'even' ? 0 : 1));
+  }
+};
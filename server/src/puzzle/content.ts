@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import {
+  boardDataSchema,
+  dominoesDataSchema,
+  conditionsDataSchema,
+  solutionDataSchema
+} from '../schema';
+import { cellKey, isInsideGrid, areAdjacent, formatCell } from './grid';
+
+// Parses a JSON string column and validates the result against the given schema
+const jsonField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.string()
+    .transform((value, ctx): unknown => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid JSON', fatal: true });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+
+// Validates the stored puzzle payloads together, including references between them.
+// Issue paths start with the column name, e.g. ['board_data', 'regions', 0, 'cells', 1].
+export const puzzleContentSchema = z.object({
+  grid_width: z.number().int().positive(),
+  grid_height: z.number().int().positive(),
+  board_data: jsonField(boardDataSchema),
+  dominoes_data: jsonField(dominoesDataSchema),
+  conditions_data: jsonField(conditionsDataSchema),
+  solution_data: jsonField(solutionDataSchema).nullable()
+}).superRefine((content, ctx) => {
+  const { grid_width, grid_height } = content;
+  const addIssue = (path: (string | number)[], message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+  // Regions: unique ids, cells inside the grid and owned by a single region
+  const regionSizes = new Map<number, number>();
+  const cellOwners = new Map<string, number>();
+  content.board_data.regions.forEach((region, regionIndex) => {
+    if (regionSizes.has(region.id)) {
+      addIssue(['board_data', 'regions', regionIndex, 'id'], `Duplicate region id ${region.id}`);
+    }
+    regionSizes.set(region.id, region.cells.length);
+
+    region.cells.forEach((cell, cellIndex) => {
+      const path = ['board_data', 'regions', regionIndex, 'cells', cellIndex];
+      if (!isInsideGrid(cell, grid_width, grid_height)) {
+        addIssue(path, `Cell ${formatCell(cell)} is outside the ${grid_width}×${grid_height} grid`);
+        return;
+      }
+      const owner = cellOwners.get(cellKey(cell));
+      if (owner !== undefined) {
+        addIssue(path, `Cell ${formatCell(cell)} already belongs to region ${owner}`);
+        return;
+      }
+      cellOwners.set(cellKey(cell), region.id);
+    });
+  });
+
+  // Voids: cells inside the grid, listed once and outside of every region
+  const voidCells = new Set<string>();
+  content.board_data.voids.forEach((cell, cellIndex) => {
+    const path = ['board_data', 'voids', cellIndex];
+    if (!isInsideGrid(cell, grid_width, grid_height)) {
+      addIssue(path, `Cell ${formatCell(cell)} is outside the ${grid_width}×${grid_height} grid`);
+      return;
+    }
+    if (voidCells.has(cellKey(cell))) {
+      addIssue(path, `Cell ${formatCell(cell)} is listed as void more than once`);
+      return;
+    }
+    const owner = cellOwners.get(cellKey(cell));
+    if (owner !== undefined) {
+      addIssue(path, `Cell ${formatCell(cell)} is void but belongs to region ${owner}`);
+    }
+    voidCells.add(cellKey(cell));
+  });
+
+  // Dominoes: unique ids
+  const dominoIds = new Set<number>();
+  content.dominoes_data.dominoes.forEach((domino, dominoIndex) => {
+    if (dominoIds.has(domino.id)) {
+      addIssue(['dominoes_data', 'dominoes', dominoIndex, 'id'], `Duplicate domino id ${domino.id}`);
+    }
+    dominoIds.add(domino.id);
+  });
+
+  // Conditions: one per existing region
+  const conditionedRegions = new Set<number>();
+  content.conditions_data.conditions.forEach((condition, conditionIndex) => {
+    const path = ['conditions_data', 'conditions', conditionIndex, 'region_id'];
+    const regionSize = regionSizes.get(condition.region_id);
+    if (regionSize === undefined) {
+      addIssue(path, `Region ${condition.region_id} does not exist`);
+      return;
+    }
+    if (conditionedRegions.has(condition.region_id)) {
+      addIssue(path, `Region ${condition.region_id} already has a condition`);
+    }
+    conditionedRegions.add(condition.region_id);
+
+    if (condition.type === 'difference' && regionSize !== 2) {
+      addIssue(['conditions_data', 'conditions', conditionIndex, 'type'], 'Difference conditions require a region of exactly 2 cells');
+    }
+    if (condition.type === 'range' && condition.min > condition.max) {
+      addIssue(['conditions_data', 'conditions', conditionIndex, 'max'], `Range ${condition.min}–${condition.max} is empty`);
+    }
+  });
+
+  // Solution: every placement uses a known domino once, on two adjacent free playable cells
+  if (content.solution_data) {
+    const placedDominoes = new Set<number>();
+    const coveredCells = new Set<string>();
+    content.solution_data.placement.forEach((placement, placementIndex) => {
+      const path = ['solution_data', 'placement', placementIndex];
+      if (!dominoIds.has(placement.domino_id)) {
+        addIssue([...path, 'domino_id'], `Domino ${placement.domino_id} does not exist`);
+      } else if (placedDominoes.has(placement.domino_id)) {
+        addIssue([...path, 'domino_id'], `Domino ${placement.domino_id} is placed more than once`);
+      }
+      placedDominoes.add(placement.domino_id);
+
+      const [first, second] = placement.position;
+      if (!areAdjacent(first, second)) {
+        addIssue([...path, 'position'], `Cells ${formatCell(first)} and ${formatCell(second)} are not adjacent`);
+      }
+      placement.position.forEach(cell => {
+        if (!isInsideGrid(cell, grid_width, grid_height)) {
+          addIssue([...path, 'position'], `Cell ${formatCell(cell)} is outside the ${grid_width}×${grid_height} grid`);
+        } else if (voidCells.has(cellKey(cell))) {
+          addIssue([...path, 'position'], `Cell ${formatCell(cell)} is void`);
+        } else if (coveredCells.has(cellKey(cell))) {
+          addIssue([...path, 'position'], `Cell ${formatCell(cell)} is covered more than once`);
+        }
+        coveredCells.add(cellKey(cell));
+      });
+    });
+  }
+});
+
+export type PuzzleContentInput = z.input<typeof puzzleContentSchema>;
+export type PuzzleContent = z.output<typeof puzzleContentSchema>;
+
+export const parsePuzzleContent = (input: PuzzleContentInput) => puzzleContentSchema.safeParse(input);
@@ -0,0 +1,50 @@
+import { type DifficultyLevel } from '../schema';
+import { type PuzzleContent } from './content';
+import { type SolverStats } from './solver';
+
+export interface DifficultyRating {
+  rating: number; // 0 (trivial) to 100 (hardest)
+  suggested_difficulty: DifficultyLevel;
+}
+
+// How much each solver metric contributes to the rating; the weights add up to 1
+const WEIGHTS = {
+  guessing: 0.3, // share of decisions that were not forced
+  branching: 0.25, // candidates per decision
+  backtracking: 0.3, // how far wrong guesses ran before they had to be taken back
+  size: 0.15 // cells to fill
+};
+
+const MAX_BRANCHING = 4;
+const MAX_BACKTRACK_DEPTH = 8;
+const MAX_CELLS = 40;
+
+// Ratings below each bound fall into that bucket
+const BUCKET_BOUNDS: [DifficultyLevel, number][] = [
+  ['Easy', 45],
+  ['Medium', 65]
+];
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Scores a puzzle from the statistics of the search that proved its solution unique
+export const rateDifficulty = (content: PuzzleContent, stats: SolverStats): DifficultyRating => {
+  const cellCount = content.board_data.regions.reduce((count, region) => count + region.cells.length, 0);
+  const guessing = stats.decision_points > 0 ? 1 - stats.forced_moves / stats.decision_points : 0;
+  const branching = clamp((stats.average_branching - 1) / (MAX_BRANCHING - 1));
+  const backtracking = clamp(stats.backtrack_depth / MAX_BACKTRACK_DEPTH);
+  const size = clamp(cellCount / MAX_CELLS);
+
+  const score = 100 * (
+    WEIGHTS.guessing * guessing +
+    WEIGHTS.branching * branching +
+    WEIGHTS.backtracking * backtracking +
+    WEIGHTS.size * size
+  );
+  const rating = Math.round(score * 10) / 10;
+
+  return {
+    rating,
+    suggested_difficulty: BUCKET_BOUNDS.find(([, bound]) => rating < bound)?.[0] ?? 'Hard'
+  };
+};
@@ -0,0 +1,365 @@
+import {
+  type Cell,
+  type DifficultyLevel,
+  type Domino,
+  type DominoPlacement,
+  type Region,
+  type RegionCondition
+} from '../schema';
+import { type PuzzleContent } from './content';
+import { cellKey } from './grid';
+import { findSolutions } from './solver';
+
+export interface GeneratorOptions {
+  difficulty: DifficultyLevel;
+  gridWidth: number;
+  gridHeight: number;
+  seed?: number;
+  timeLimitMs?: number; // gives up and returns null once this much time has passed
+}
+
+export interface GeneratedPuzzle extends PuzzleContent {
+  seed: number;
+  attempts: number; // tilings tried before a unique puzzle was found
+}
+
+type DerivableCondition = RegionCondition['type'];
+
+interface DifficultySettings {
+  coverage: number; // share of the grid the board should cover
+  maxPip: number;
+  maxRegionSize: number;
+  conditionWeights: Record<DerivableCondition, number>;
+  looseningShare: number; // fraction of regions whose exact sum the generator tries to loosen
+  unconditionedShare: number; // chance that a loosened region loses its condition entirely
+}
+
+const DIFFICULTY_SETTINGS: Record<DifficultyLevel, DifficultySettings> = {
+  Easy: {
+    coverage: 0.4,
+    maxPip: 6,
+    maxRegionSize: 2,
+    conditionWeights: {
+      sum: 6, equality: 3, product: 0, difference: 1, greater_than: 1, less_than: 1,
+      all_different: 1, not_equal: 0, range: 1, parity: 1, exactly: 2
+    },
+    looseningShare: 0.3,
+    unconditionedShare: 0
+  },
+  Medium: {
+    coverage: 0.5,
+    maxPip: 9,
+    maxRegionSize: 3,
+    conditionWeights: {
+      sum: 4, equality: 2, product: 2, difference: 2, greater_than: 2, less_than: 2,
+      all_different: 2, not_equal: 1, range: 2, parity: 2, exactly: 1
+    },
+    looseningShare: 0.6,
+    unconditionedShare: 0.1
+  },
+  Hard: {
+    coverage: 0.6,
+    maxPip: 12,
+    maxRegionSize: 4,
+    conditionWeights: {
+      sum: 3, equality: 2, product: 2, difference: 2, greater_than: 3, less_than: 3,
+      all_different: 2, not_equal: 2, range: 2, parity: 2, exactly: 1
+    },
+    looseningShare: 0.9,
+    unconditionedShare: 0.2
+  }
+};
+
+const REGION_COLORS = ['red', 'blue', 'green', 'yellow', 'purple', 'orange', 'pink', 'cyan'];
+const MAX_TILINGS = 8;
+const MIN_DOMINOES = 2;
+const MAX_DOMINOES = 16; // keeps every uniqueness check fast on large grids
+const SOLVER_NODE_LIMIT = 20_000;
+
+// Small deterministic PRNG (mulberry32) so a seed always yields the same puzzle
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+const shuffle = <T>(random: Random, items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(random, 0, i);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const pickWeighted = <T extends string>(random: Random, weights: [T, number][]): T | null => {
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return null;
+  let roll = random() * total;
+  for (const [item, weight] of weights) {
+    roll -= weight;
+    if (roll < 0) return item;
+  }
+  return weights[weights.length - 1][0];
+};
+
+const neighborsOf = ([row, col]: Cell, gridWidth: number, gridHeight: number): Cell[] =>
+  ([[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]] as Cell[])
+    .filter(([r, c]) => r >= 0 && r < gridHeight && c >= 0 && c < gridWidth);
+
+// Grows a connected board from a random domino, adding dominoes on free cells next to
+// the board until it holds `dominoCount` of them or there is no room left
+const plantTiling = (random: Random, dominoCount: number, gridWidth: number, gridHeight: number): [Cell, Cell][] => {
+  const covered = new Set<string>();
+  const isFree = (cell: Cell) => !covered.has(cellKey(cell));
+  const start: Cell = [randomInt(random, 0, gridHeight - 1), randomInt(random, 0, gridWidth - 1)];
+  let slots: [Cell, Cell][] = neighborsOf(start, gridWidth, gridHeight).map(partner => [start, partner]);
+  const pairs: [Cell, Cell][] = [];
+
+  while (pairs.length < dominoCount && slots.length > 0) {
+    const pair = slots[randomInt(random, 0, slots.length - 1)];
+    pairs.push(pair);
+    pair.forEach(cell => covered.add(cellKey(cell)));
+    slots = pairs
+      .flat()
+      .flatMap(cell => neighborsOf(cell, gridWidth, gridHeight))
+      .filter(isFree)
+      .flatMap(first => neighborsOf(first, gridWidth, gridHeight)
+        .filter(isFree)
+        .map((second): [Cell, Cell] => [first, second]));
+  }
+  return pairs;
+};
+
+// Grows regions from random seed cells over the covered cells
+const carveRegions = (random: Random, cells: Cell[], settings: DifficultySettings, gridWidth: number, gridHeight: number): Cell[][] => {
+  const unassigned = new Set(cells.map(cellKey));
+  const regions: Cell[][] = [];
+  for (const start of shuffle(random, cells)) {
+    if (!unassigned.has(cellKey(start))) continue;
+    const size = randomInt(random, 1, settings.maxRegionSize);
+    const region: Cell[] = [start];
+    unassigned.delete(cellKey(start));
+    while (region.length < size) {
+      const frontier = region
+        .flatMap(cell => neighborsOf(cell, gridWidth, gridHeight))
+        .filter(cell => unassigned.has(cellKey(cell)));
+      if (frontier.length === 0) break;
+      const next = frontier[randomInt(random, 0, frontier.length - 1)];
+      region.push(next);
+      unassigned.delete(cellKey(next));
+    }
+    regions.push(region);
+  }
+  return regions;
+};
+
+// Picks a condition type the planted values satisfy and derives its target from them
+const deriveCondition = (random: Random, regionId: number, values: number[], settings: DifficultySettings): RegionCondition => {
+  const sum = values.reduce((a, b) => a + b, 0);
+  const product = values.reduce((a, b) => a * b, 1);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const missingValues = Array.from({ length: settings.maxPip + 1 }, (_, value) => value)
+    .filter(value => !values.includes(value));
+
+  const eligible: Record<DerivableCondition, boolean> = {
+    sum: true,
+    equality: values.length > 1 && min === max,
+    product: values.length > 1 && values.length <= 3,
+    difference: values.length === 2,
+    greater_than: min > 0,
+    less_than: max < settings.maxPip,
+    all_different: values.length > 1 && new Set(values).size === values.length,
+    not_equal: missingValues.length > 0,
+    range: true,
+    parity: values.every(value => value % 2 === values[0] % 2),
+    exactly: min === max
+  };
+  const type = pickWeighted(random, (Object.keys(eligible) as DerivableCondition[])
+    .filter(type => eligible[type])
+    .map((type): [DerivableCondition, number] => [type, settings.conditionWeights[type]])) ?? 'sum';
+
+  switch (type) {
+    case 'equality': return { region_id: regionId, type };
+    case 'product': return { region_id: regionId, type, target: product };
+    case 'difference': return { region_id: regionId, type, target: Math.abs(values[0] - values[1]) };
+    case 'greater_than': return { region_id: regionId, type, target: randomInt(random, Math.max(0, min - 2), min - 1) };
+    case 'less_than': return { region_id: regionId, type, target: randomInt(random, max + 1, Math.min(settings.maxPip, max + 2)) };
+    case 'all_different': return { region_id: regionId, type };
+    case 'not_equal': return { region_id: regionId, type, target: missingValues[randomInt(random, 0, missingValues.length - 1)] };
+    case 'range': return {
+      region_id: regionId,
+      type,
+      min: randomInt(random, Math.max(0, min - 1), min),
+      max: randomInt(random, max, Math.min(settings.maxPip, max + 1))
+    };
+    case 'parity': return { region_id: regionId, type, parity: values[0] % 2 === 0 ? 'even' : 'odd' };
+    case 'exactly': return { region_id: regionId, type, target: min };
+    default: return { region_id: regionId, type: 'sum', target: sum };
+  }
+};
+
+// Colours regions so that touching regions never share a colour when it can be avoided
+const colorRegions = (regions: Cell[][], gridWidth: number, gridHeight: number): string[] => {
+  const regionOf = new Map<string, number>();
+  regions.forEach((cells, index) => cells.forEach(cell => regionOf.set(cellKey(cell), index)));
+  const colors: string[] = [];
+  regions.forEach((cells, index) => {
+    const taken = new Set(cells
+      .flatMap(cell => neighborsOf(cell, gridWidth, gridHeight))
+      .map(cell => regionOf.get(cellKey(cell)))
+      .filter((other): other is number => other !== undefined && other < index)
+      .map(other => colors[other]));
+    colors.push(REGION_COLORS.find(color => !taken.has(color)) ?? REGION_COLORS[index % REGION_COLORS.length]);
+  });
+  return colors;
+};
+
+// Values each cell receives in a solution, keyed by cellKey
+const cellValues = (placement: DominoPlacement[], dominoes: Domino[]): Map<string, number> => {
+  const valuesById = new Map(dominoes.map(domino => [domino.id, domino.values]));
+  const result = new Map<string, number>();
+  placement.forEach(({ domino_id, position }) => {
+    const values = valuesById.get(domino_id);
+    if (!values) return;
+    result.set(cellKey(position[0]), values[0]);
+    result.set(cellKey(position[1]), values[1]);
+  });
+  return result;
+};
+
+// Planted puzzles start fully constrained (an exact sum on every region) and are then
+// loosened one region at a time for as long as the planted solution stays the only one.
+export const generatePuzzle = (options: GeneratorOptions): GeneratedPuzzle | null => {
+  const { difficulty, gridWidth, gridHeight } = options;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const random = createRandom(seed);
+  const settings = DIFFICULTY_SETTINGS[difficulty];
+  const deadline = options.timeLimitMs !== undefined ? Date.now() + options.timeLimitMs : Infinity;
+  const isOutOfTime = () => Date.now() >= deadline;
+
+  for (let attempt = 1; attempt <= MAX_TILINGS; attempt++) {
+    // 1. Plant a tiling and random pip values; the tray order is shuffled
+    const dominoCount = Math.min(
+      MAX_DOMINOES,
+      Math.max(MIN_DOMINOES, Math.round((gridWidth * gridHeight * settings.coverage) / 2))
+    );
+    const tiling = plantTiling(random, dominoCount, gridWidth, gridHeight);
+    const planted = shuffle(random, tiling).map(([first, second], index) => {
+      const domino: Domino = {
+        id: index + 1,
+        values: [randomInt(random, 0, settings.maxPip), randomInt(random, 0, settings.maxPip)]
+      };
+      const placement: DominoPlacement = { domino_id: domino.id, position: [first, second] };
+      return { domino, placement };
+    });
+    const dominoes = planted.map(({ domino }) => domino);
+    const plantedSolution = { placement: planted.map(({ placement }) => placement) };
+    let valueAt = cellValues(plantedSolution.placement, dominoes);
+    const rerollDominoAt = (key: string) => {
+      const { domino } = planted.find(({ placement }) => placement.position.some(cell => cellKey(cell) === key))!;
+      domino.values = [randomInt(random, 0, settings.maxPip), randomInt(random, 0, settings.maxPip)];
+      valueAt = cellValues(plantedSolution.placement, dominoes);
+    };
+    const valuesOf = (cells: Cell[]) => cells.map(cell => valueAt.get(cellKey(cell)) ?? 0);
+    const exactSum = (cells: Cell[], index: number): RegionCondition => ({
+      region_id: index + 1,
+      type: 'sum',
+      target: valuesOf(cells).reduce((a, b) => a + b, 0)
+    });
+
+    // 2. Carve regions over the covered cells
+    const regionCells = carveRegions(random, tiling.flat(), settings, gridWidth, gridHeight);
+
+    // Cells the tiling leaves empty are cut out of the board
+    const covered = new Set(tiling.flat().map(cellKey));
+    const voids = Array.from({ length: gridWidth * gridHeight }, (_, index): Cell => [Math.floor(index / gridWidth), index % gridWidth])
+      .filter(cell => !covered.has(cellKey(cell)));
+
+    const buildContent = (conditions: (RegionCondition | null)[]): PuzzleContent => {
+      const colors = colorRegions(regionCells, gridWidth, gridHeight);
+      const regions: Region[] = regionCells.map((cells, index) => ({ id: index + 1, color: colors[index], cells }));
+      return {
+        grid_width: gridWidth,
+        grid_height: gridHeight,
+        board_data: { regions, voids },
+        dominoes_data: { dominoes },
+        conditions_data: { conditions: conditions.flatMap(condition => condition ?? []) },
+        solution_data: null
+      };
+    };
+    const solve = (conditions: (RegionCondition | null)[]) => findSolutions(buildContent(conditions), {
+      maxSolutions: 2,
+      maxNodes: SOLVER_NODE_LIMIT,
+      timeLimitMs: Math.max(0, deadline - Date.now())
+    });
+    const isUnique = (result: ReturnType<typeof findSolutions>) =>
+      result.solution_count === 1 && result.search_complete;
+
+    // 3. With exact sums everywhere, resolve each cell that another solution fills
+    //    differently: either re-roll the domino on it or move it into a region of its
+    //    own, until the planted solution is unique
+    const plantedPositions = new Set(plantedSolution.placement.map(({ position }) => position.map(cellKey).join()));
+    let unique = false;
+    for (let step = 0; step < gridWidth * gridHeight * 2 && !unique; step++) {
+      const result = solve(regionCells.map(exactSum));
+      if (isOutOfTime()) return null;
+      unique = isUnique(result);
+      if (unique || result.solution_count < 2) break;
+
+      const alternative = result.solutions.find(solution =>
+        solution.placement.some(({ position }) => !plantedPositions.has(position.map(cellKey).join())))
+        ?? result.solutions[0];
+      const differingCell = [...cellValues(alternative.placement, dominoes)]
+        .find(([key, value]) => valueAt.get(key) !== value)?.[0];
+
+      if (!differingCell) {
+        // Equal values paired up differently cannot be told apart by any condition
+        const misplaced = alternative.placement.find(({ position }) => !plantedPositions.has(position.map(cellKey).join()));
+        if (!misplaced) break;
+        rerollDominoAt(cellKey(misplaced.position[0]));
+        continue;
+      }
+
+      const index = regionCells.findIndex(cells => cells.some(cell => cellKey(cell) === differingCell));
+      if (regionCells[index].length === 1 || random() < 0.5) {
+        rerollDominoAt(differingCell);
+        continue;
+      }
+      const cell = regionCells[index].find(cell => cellKey(cell) === differingCell)!;
+      regionCells[index] = regionCells[index].filter(other => other !== cell);
+      regionCells.push([cell]);
+    }
+    if (!unique) continue;
+
+    // 4. Loosen exact sums as far as the difficulty allows without losing uniqueness
+    const conditions: (RegionCondition | null)[] = regionCells.map(exactSum);
+    for (const index of shuffle(random, regionCells.map((_, index) => index))) {
+      if (random() >= settings.looseningShare) continue;
+      const exact = conditions[index];
+      const loosened = random() < settings.unconditionedShare
+        ? null
+        : deriveCondition(random, index + 1, valuesOf(regionCells[index]), settings);
+      if (loosened?.type === 'sum') continue;
+
+      conditions[index] = loosened;
+      const result = solve(conditions);
+      if (isOutOfTime()) return null;
+      if (!isUnique(result)) conditions[index] = exact;
+    }
+
+    return { ...buildContent(conditions), solution_data: plantedSolution, seed, attempts: attempt };
+  }
+
+  return null;
+};
@@ -0,0 +1,13 @@
+import { type Cell } from '../schema';
+
+// Stable string key for a cell, used for lookups in maps and sets
+export const cellKey = ([row, col]: Cell): string => `${row}-${col}`;
+
+export const isInsideGrid = ([row, col]: Cell, gridWidth: number, gridHeight: number): boolean =>
+  row >= 0 && row < gridHeight && col >= 0 && col < gridWidth;
+
+// Two cells are adjacent when they share an edge
+export const areAdjacent = ([rowA, colA]: Cell, [rowB, colB]: Cell): boolean =>
+  Math.abs(rowA - rowB) + Math.abs(colA - colB) === 1;
+
+export const formatCell = ([row, col]: Cell): string => `[${row},${col}]`;
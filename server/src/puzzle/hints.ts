@@ -0,0 +1,74 @@
+import { type Cell, type DominoPlacement, type HintLevel } from '../schema';
+import { type PuzzleContent } from './content';
+import { evaluateBoard } from './board';
+import { cellKey } from './grid';
+import { findSolutions, REQUEST_SOLVER_LIMITS } from './solver';
+
+export type Hint =
+  | { level: 'region'; region_id: number } // a region worth looking at next
+  | { level: 'cell'; cell: Cell; value: number } // the pip value one cell holds
+  | { level: 'placement'; placement: DominoPlacement }; // a full correct placement
+
+export interface HintResponse {
+  hint: Hint;
+  hints_used: number;
+}
+
+const compareCells = ([rowA, colA]: Cell, [rowB, colB]: Cell) => rowA - rowB || colA - colB;
+
+// Works out a hint for the player's board from a fresh solve of the puzzle. The hint
+// targets the first cell in reading order that the player got wrong, or else the first
+// one still missing from the solution. Region hints point at a broken condition when
+// there is one; when the target lies outside of every region a cell hint is given
+// instead. Returns null when the board is already solved or no solution turns up within
+// the limits for requests.
+export const findHint = (content: PuzzleContent, placements: DominoPlacement[], level: HintLevel): Hint | null => {
+  const evaluation = evaluateBoard(content, placements);
+  if (evaluation.is_solved) return null;
+
+  const solution = findSolutions(content, { maxSolutions: 1, ...REQUEST_SOLVER_LIMITS }).solution;
+  if (!solution) return null;
+
+  // Dominoes with equal values are interchangeable, so placements are compared by the
+  // values they put on each cell rather than by domino id
+  const valuesById = new Map(content.dominoes_data.dominoes.map(domino => [domino.id, domino.values]));
+  const placementKey = ({ domino_id, position }: DominoPlacement) => {
+    const values = valuesById.get(domino_id);
+    return values ? `${cellKey(position[0])}=${values[0]},${cellKey(position[1])}=${values[1]}` : null;
+  };
+  const solutionKeys = new Set(solution.placement.map(placementKey));
+  const invalid = new Set(evaluation.invalid_placements);
+
+  const wrongKeys = new Set(placements
+    .filter(placement => invalid.has(placement.domino_id) || !solutionKeys.has(placementKey(placement)))
+    .flatMap(placement => placement.position.map(cellKey)));
+  const playerKeys = new Set(placements.map(placementKey));
+
+  const firstCell = (placement: DominoPlacement) => [...placement.position].sort(compareCells)[0];
+  const missing = solution.placement
+    .filter(placement => !playerKeys.has(placementKey(placement)))
+    .sort((a, b) => compareCells(firstCell(a), firstCell(b)));
+  const target = missing.find(placement => placement.position.some(cell => wrongKeys.has(cellKey(cell)))) ?? missing[0];
+  if (!target) return null;
+
+  const targetValues = valuesById.get(target.domino_id)!;
+  const cellHint = (): Hint => {
+    const index = wrongKeys.has(cellKey(target.position[1])) && !wrongKeys.has(cellKey(target.position[0])) ? 1 : 0;
+    return { level: 'cell', cell: target.position[index], value: targetValues[index] };
+  };
+
+  switch (level) {
+    case 'region': {
+      if (evaluation.violated_regions.length > 0) {
+        return { level: 'region', region_id: evaluation.violated_regions[0] };
+      }
+      const region = content.board_data.regions.find(r =>
+        r.cells.some(cell => target.position.some(other => cellKey(other) === cellKey(cell))));
+      return region ? { level: 'region', region_id: region.id } : cellHint();
+    }
+    case 'cell':
+      return cellHint();
+    case 'placement':
+      return { level: 'placement', placement: target };
+  }
+};
@@ -0,0 +1,55 @@
+import { TRPCError } from '@trpc/server';
+import { type SolutionData } from '../schema';
+import { type PuzzleContent } from './content';
+import { findSolutions, REQUEST_SOLVER_LIMITS } from './solver';
+import { rateDifficulty, type DifficultyRating } from './difficulty';
+
+export type PublishProblem = 'no_solution' | 'multiple_solutions' | 'too_complex';
+
+// Attached as the cause of the BAD_REQUEST error so clients can tell the problems apart
+export class PuzzlePublishError extends Error {
+  constructor(
+    readonly problem: PublishProblem,
+    readonly solutionCount: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PuzzlePublishError';
+  }
+}
+
+const PUBLISH_MESSAGES: Record<PublishProblem, string> = {
+  no_solution: 'Puzzle has no solution',
+  multiple_solutions: 'Puzzle has more than one solution',
+  too_complex: 'Puzzle is too complex to verify that it has a single solution'
+};
+
+export interface VerifiedPuzzle {
+  solution: SolutionData;
+  rating: DifficultyRating; // rated from the same search that proved the solution unique
+}
+
+// The search behind both publishing and rating: enough to tell one solution from two,
+// within the limits for requests. Sharing it means a puzzle that can be published can
+// also be rated.
+export const searchForUniqueSolution = (content: PuzzleContent) =>
+  findSolutions(content, { maxSolutions: 2, ...REQUEST_SOLVER_LIMITS });
+
+// Proves that a puzzle has exactly one solution and returns it, or throws
+export const verifyUniqueSolution = (content: PuzzleContent): VerifiedPuzzle => {
+  const result = searchForUniqueSolution(content);
+
+  if (result.solution && result.solution_count === 1 && result.search_complete) {
+    return { solution: result.solution, rating: rateDifficulty(content, result.stats) };
+  }
+
+  const problem: PublishProblem = result.solution_count > 1
+    ? 'multiple_solutions'
+    : result.search_complete ? 'no_solution' : 'too_complex';
+
+  throw new TRPCError({
+    code: 'BAD_REQUEST',
+    message: PUBLISH_MESSAGES[problem],
+    cause: new PuzzlePublishError(problem, result.solution_count, PUBLISH_MESSAGES[problem])
+  });
+};
@@ -0,0 +1,278 @@
+import { type Cell, type DominoPlacement, type RegionCondition, type SolutionData } from '../schema';
+import { type PuzzleContent } from './content';
+import { evaluateCondition } from './conditions';
+
+// Solving rules: every domino is placed on two adjacent free playable cells of the grid,
+// every cell of every region is covered, and every region condition holds. Cells outside
+// of all regions may stay empty; void cells can never be covered.
+
+export interface SolverOptions {
+  maxSolutions?: number; // stop counting once this many solutions are found
+  maxNodes?: number; // upper bound on placements tried before giving up
+  timeLimitMs?: number; // wall-clock budget, after which the search gives up as well
+}
+
+export interface SolverStats {
+  nodes: number; // placements tried
+  backtracks: number; // dead ends where a cell could not be covered
+  backtrack_depth: number; // most placements a wrong guess led to before it had to be taken back
+  max_depth: number; // deepest number of dominoes placed at once
+  decision_points: number; // times the solver had to choose how to cover a cell
+  forced_moves: number; // decision points with exactly one candidate placement
+  average_branching: number; // mean number of candidates per decision point
+  elapsed_ms: number;
+}
+
+export interface SolverResult {
+  solution: SolutionData | null; // first solution found
+  solutions: SolutionData[]; // every solution found, at most maxSolutions
+  solution_count: number; // solutions found, at most maxSolutions
+  count_capped: boolean; // true when the search stopped at maxSolutions
+  search_complete: boolean; // false when the node or time limit was reached first
+  stats: SolverStats;
+}
+
+const DEFAULT_MAX_SOLUTIONS = 2;
+const DEFAULT_MAX_NODES = 500_000;
+const CLOCK_CHECK_INTERVAL = 256; // placements tried between looks at the clock
+
+// Limits for searches that players start from a request. The search runs on the server's
+// only thread, so it has to give up long before the defaults would.
+export const REQUEST_SOLVER_LIMITS = {
+  maxNodes: 50_000,
+  timeLimitMs: 2_000
+} satisfies SolverOptions;
+const EMPTY = -1;
+
+interface SolverRegion {
+  cells: number[];
+  condition: RegionCondition | null;
+}
+
+interface Candidate {
+  dominoIndex: number;
+  first: number; // cell receiving values[0]
+  second: number; // cell receiving values[1]
+}
+
+export const findSolutions = (content: PuzzleContent, options: SolverOptions = {}): SolverResult => {
+  const maxSolutions = options.maxSolutions ?? DEFAULT_MAX_SOLUTIONS;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const startedAt = Date.now();
+  const deadline = options.timeLimitMs !== undefined ? startedAt + options.timeLimitMs : Infinity;
+
+  const width = content.grid_width;
+  const cellTotal = content.grid_width * content.grid_height;
+  const toIndex = ([row, col]: Cell) => row * width + col;
+  const toCell = (index: number): Cell => [Math.floor(index / width), index % width];
+
+  // Board state, indexed by row * width + col
+  const values = new Array<number>(cellTotal).fill(EMPTY);
+  const regionOf = new Array<number>(cellTotal).fill(-1);
+  const regions: SolverRegion[] = content.board_data.regions.map(region => ({
+    cells: region.cells.map(toIndex),
+    condition: content.conditions_data.conditions.find(c => c.region_id === region.id) ?? null
+  }));
+  regions.forEach((region, regionIndex) => region.cells.forEach(cell => {
+    regionOf[cell] = regionIndex;
+  }));
+  const requiredCells = regions.flatMap(region => region.cells);
+  const isVoid = new Array<boolean>(cellTotal).fill(false);
+  content.board_data.voids.forEach(cell => {
+    isVoid[toIndex(cell)] = true;
+  });
+
+  const neighbors = Array.from({ length: cellTotal }, (_, index) => {
+    const [row, col] = toCell(index);
+    const adjacent: Cell[] = [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]];
+    return adjacent
+      .filter(([r, c]) => r >= 0 && r < content.grid_height && c >= 0 && c < width)
+      .map(toIndex)
+      .filter(neighbor => !isVoid[neighbor]);
+  });
+
+  const dominoes = content.dominoes_data.dominoes;
+  const maxValue = Math.max(0, ...dominoes.flatMap(domino => domino.values));
+  const pairKeys = dominoes.map(({ values: [a, b] }) => (a <= b ? `${a}:${b}` : `${b}:${a}`));
+  const used = new Array<boolean>(dominoes.length).fill(false);
+  let usedCount = 0;
+  const placements: Candidate[] = [];
+
+  const stats: SolverStats = {
+    nodes: 0,
+    backtracks: 0,
+    backtrack_depth: 0,
+    max_depth: 0,
+    decision_points: 0,
+    forced_moves: 0,
+    average_branching: 0,
+    elapsed_ms: 0
+  };
+  let totalBranching = 0;
+  const solutions: SolutionData[] = [];
+  let limitReached = false;
+  let deepestDeadEnd = -1; // placements held at the deepest dead end below the current one
+
+  const recordDeadEnd = () => {
+    stats.backtracks++;
+    deepestDeadEnd = Math.max(deepestDeadEnd, placements.length);
+  };
+
+  const isRegionFeasible = (regionIndex: number): boolean => {
+    const region = regions[regionIndex];
+    if (!region.condition) return true;
+    const placed = region.cells.map(cell => values[cell]).filter(value => value !== EMPTY);
+    return evaluateCondition(region.condition, placed, region.cells.length, maxValue) !== 'violated';
+  };
+
+  const isPlacementFeasible = (first: number, second: number): boolean =>
+    (regionOf[first] === -1 || isRegionFeasible(regionOf[first])) &&
+    (regionOf[second] === -1 || isRegionFeasible(regionOf[second]));
+
+  // Every distinct way to put an unused domino on `anchor` and one of `partners`.
+  // Dominoes with the same pair of values are interchangeable, so only the first
+  // unused one of each pair is tried.
+  const candidatesFor = (anchor: number, partners: number[]): Candidate[] => {
+    const candidates: Candidate[] = [];
+    const triedPairs = new Set<string>();
+    dominoes.forEach((domino, dominoIndex) => {
+      if (used[dominoIndex]) return;
+      const [a, b] = domino.values;
+      if (triedPairs.has(pairKeys[dominoIndex])) return;
+      triedPairs.add(pairKeys[dominoIndex]);
+
+      partners.forEach(partner => {
+        if (values[partner] !== EMPTY) return;
+        // Both orientations of the domino, unless its halves are equal
+        const orientations: [number, number][] = a === b ? [[anchor, partner]] : [[anchor, partner], [partner, anchor]];
+        orientations.forEach(([first, second]) => {
+          values[first] = a;
+          values[second] = b;
+          if (isPlacementFeasible(first, second)) {
+            candidates.push({ dominoIndex, first, second });
+          }
+          values[first] = EMPTY;
+          values[second] = EMPTY;
+        });
+      });
+    });
+    return candidates;
+  };
+
+  const recordDecision = (candidateCount: number) => {
+    stats.decision_points++;
+    totalBranching += candidateCount;
+    if (candidateCount === 1) stats.forced_moves++;
+  };
+
+  const recordSolution = (): boolean => {
+    solutions.push({
+      placement: placements.map((candidate): DominoPlacement => ({
+        domino_id: dominoes[candidate.dominoIndex].id,
+        position: [toCell(candidate.first), toCell(candidate.second)]
+      }))
+    });
+    return solutions.length >= maxSolutions;
+  };
+
+  // Applies a candidate, runs `next` and undoes it. Returns true when the search should stop.
+  const tryCandidate = (candidate: Candidate, next: () => boolean): boolean => {
+    const outOfTime = stats.nodes % CLOCK_CHECK_INTERVAL === 0 && Date.now() >= deadline;
+    if (stats.nodes >= maxNodes || outOfTime) {
+      limitReached = true;
+      return true;
+    }
+    stats.nodes++;
+
+    const [a, b] = dominoes[candidate.dominoIndex].values;
+    values[candidate.first] = a;
+    values[candidate.second] = b;
+    used[candidate.dominoIndex] = true;
+    usedCount++;
+    placements.push(candidate);
+    stats.max_depth = Math.max(stats.max_depth, placements.length);
+
+    const solutionsBefore = solutions.length;
+    const outerDeadEnd = deepestDeadEnd;
+    deepestDeadEnd = -1;
+    const stop = next();
+
+    placements.pop();
+    usedCount--;
+    used[candidate.dominoIndex] = false;
+    values[candidate.first] = EMPTY;
+    values[candidate.second] = EMPTY;
+
+    // A candidate whose branch held no solution was a wrong guess; how deep its branch got
+    // before running out of options is how far the solver had to back up
+    if (!stop && solutions.length === solutionsBefore && deepestDeadEnd >= 0) {
+      stats.backtrack_depth = Math.max(stats.backtrack_depth, deepestDeadEnd - placements.length);
+    }
+    deepestDeadEnd = Math.max(outerDeadEnd, deepestDeadEnd);
+    return stop;
+  };
+
+  // Once every region cell is covered, the remaining dominoes go on free cells in
+  // reading order. Each cell is either skipped or covered together with its right or
+  // lower neighbour, which enumerates every distinct arrangement exactly once.
+  const placeRemaining = (fromCell: number): boolean => {
+    if (usedCount === dominoes.length) return recordSolution();
+
+    for (let cell = fromCell; cell < cellTotal; cell++) {
+      if (values[cell] !== EMPTY || isVoid[cell]) continue;
+      const partners = neighbors[cell].filter(partner => partner > cell);
+      const candidates = candidatesFor(cell, partners);
+      recordDecision(candidates.length);
+      for (const candidate of candidates) {
+        if (tryCandidate(candidate, () => placeRemaining(cell + 1))) return true;
+      }
+    }
+    recordDeadEnd();
+    return false;
+  };
+
+  // Covers region cells first, always picking the empty one with the fewest candidate
+  // placements. A cell that cannot be covered at all ends the branch straight away.
+  const coverRegions = (): boolean => {
+    const uncovered = requiredCells.filter(cell => values[cell] === EMPTY);
+    if (uncovered.length > 2 * (dominoes.length - usedCount)) {
+      recordDeadEnd();
+      return false;
+    }
+
+    let candidates: Candidate[] | null = null;
+    for (const cell of uncovered) {
+      const cellCandidates = candidatesFor(cell, neighbors[cell]);
+      if (!candidates || cellCandidates.length < candidates.length) {
+        candidates = cellCandidates;
+        if (cellCandidates.length <= 1) break;
+      }
+    }
+
+    if (!candidates) return placeRemaining(0);
+    recordDecision(candidates.length);
+    if (candidates.length === 0) {
+      recordDeadEnd();
+      return false;
+    }
+
+    for (const candidate of candidates) {
+      if (tryCandidate(candidate, coverRegions)) return true;
+    }
+    return false;
+  };
+
+  coverRegions();
+
+  stats.average_branching = stats.decision_points > 0 ? totalBranching / stats.decision_points : 0;
+  stats.elapsed_ms = Date.now() - startedAt;
+
+  return {
+    solution: solutions[0] ?? null,
+    solutions,
+    solution_count: solutions.length,
+    count_capped: solutions.length >= maxSolutions,
+    search_complete: !limitReached,
+    stats
+  };
+};
@@ -7,9 +7,119 @@ export type DifficultyLevel = z.infer<typeof difficultyLevelSchema>;
 export const authProviderSchema = z.enum(['google', 'facebook', 'email']);
 export type AuthProvider = z.infer<typeof authProviderSchema>;
 
-export const conditionTypeSchema = z.enum(['sum', 'product', 'difference', 'equality', 'greater_than', 'less_than']);
+// Providers that sign users in through OpenID Connect
+export const oauthProviderSchema = authProviderSchema.exclude(['email']);
+export type OAuthProvider = z.infer<typeof oauthProviderSchema>;
+
+// Ranked play allows no hints or checks and one attempt per puzzle, and is the only play
+// that earns achievements. Practice can be replayed freely.
+export const playModeSchema = z.enum(['practice', 'ranked']);
+export type PlayMode = z.infer<typeof playModeSchema>;
+
+// Roles from least to most trusted; each role may do everything the ones before it can
+export const userRoleSchema = z.enum(['player', 'creator', 'moderator', 'admin']);
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const conditionTypeSchema = z.enum([
+  'sum',
+  'product',
+  'difference',
+  'equality',
+  'greater_than',
+  'less_than',
+  'all_different',
+  'not_equal',
+  'range',
+  'parity',
+  'exactly'
+]);
 export type ConditionType = z.infer<typeof conditionTypeSchema>;
 
+// Puzzle content schemas - the shapes stored as JSON in board_data, dominoes_data,
+// conditions_data and solution_data. Shared by the server handlers and the client.
+export const cellSchema = z.tuple([
+  z.number().int().nonnegative(), // row
+  z.number().int().nonnegative() // column
+]);
+export type Cell = z.infer<typeof cellSchema>;
+
+export const regionSchema = z.object({
+  id: z.number().int().nonnegative(),
+  color: z.string().min(1),
+  cells: z.array(cellSchema).min(1)
+});
+export type Region = z.infer<typeof regionSchema>;
+
+export const boardDataSchema = z.object({
+  regions: z.array(regionSchema),
+  voids: z.array(cellSchema).default([]) // non-playable cells that shape irregular boards
+});
+export type BoardData = z.infer<typeof boardDataSchema>;
+
+export const MAX_PIP_VALUE = 12;
+export const pipValueSchema = z.number().int().min(0).max(MAX_PIP_VALUE);
+
+export const dominoSchema = z.object({
+  id: z.number().int().nonnegative(),
+  values: z.tuple([pipValueSchema, pipValueSchema])
+});
+export type Domino = z.infer<typeof dominoSchema>;
+
+export const dominoesDataSchema = z.object({
+  dominoes: z.array(dominoSchema)
+});
+export type DominoesData = z.infer<typeof dominoesDataSchema>;
+
+// not_equal: no pip equals the target; exactly: every pip equals the target;
+// range: every pip lies between min and max inclusive
+export const regionConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    region_id: z.number().int().nonnegative(),
+    type: z.enum(['sum', 'product', 'difference', 'greater_than', 'less_than', 'not_equal', 'exactly']),
+    target: z.number().int()
+  }),
+  z.object({
+    region_id: z.number().int().nonnegative(),
+    type: z.enum(['equality', 'all_different'])
+  }),
+  z.object({
+    region_id: z.number().int().nonnegative(),
+    type: z.literal('range'),
+    min: z.number().int(),
+    max: z.number().int()
+  }),
+  z.object({
+    region_id: z.number().int().nonnegative(),
+    type: z.literal('parity'),
+    parity: z.enum(['even', 'odd'])
+  })
+]);
+export type RegionCondition = z.infer<typeof regionConditionSchema>;
+
+export const conditionsDataSchema = z.object({
+  conditions: z.array(regionConditionSchema)
+});
+export type ConditionsData = z.infer<typeof conditionsDataSchema>;
+
+// A placed domino: values[0] lands on position[0] and values[1] on position[1]
+export const dominoPlacementSchema = z.object({
+  domino_id: z.number().int().nonnegative(),
+  position: z.tuple([cellSchema, cellSchema])
+});
+export type DominoPlacement = z.infer<typeof dominoPlacementSchema>;
+
+export const solutionDataSchema = z.object({
+  placement: z.array(dominoPlacementSchema)
+});
+export type SolutionData = z.infer<typeof solutionDataSchema>;
+
+// The board a player has built, stored in puzzle_attempts.attempt_data. Clients may keep
+// their own UI state next to it; only the placements are checked by the server.
+export const attemptBoardSchema = z.object({
+  placements: z.array(dominoPlacementSchema)
+});
+export type AttemptBoard = z.infer<typeof attemptBoardSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -17,12 +127,21 @@ export const userSchema = z.object({
   display_name: z.string(),
   auth_provider: authProviderSchema,
   auth_provider_id: z.string(),
+  role: userRoleSchema,
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// A logged-in user and the signed token that identifies them on later requests
+export const sessionSchema = z.object({
+  user: userSchema,
+  token: z.string()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
 // Puzzle schema
 export const puzzleSchema = z.object({
   id: z.number(),
@@ -35,7 +154,8 @@ export const puzzleSchema = z.object({
   board_data: z.string(), // JSON string containing board layout and regions
   dominoes_data: z.string(), // JSON string containing available dominoes
   conditions_data: z.string(), // JSON string containing region conditions
-  solution_data: z.string().nullable(), // JSON string containing solution layout
+  difficulty_rating: z.number().nullable(), // 0-100 solver-based rating, null until published
+  suggested_difficulty: difficultyLevelSchema.nullable(),
   is_published: z.boolean(),
   is_daily_puzzle: z.boolean(),
   daily_puzzle_date: z.coerce.date().nullable(),
@@ -45,11 +165,24 @@ export const puzzleSchema = z.object({
 
 export type Puzzle = z.infer<typeof puzzleSchema>;
 
+// A puzzle with its stored solution. Only the puzzle's creator and admins get to see it;
+// everyone else gets a Puzzle.
+export const puzzleWithSolutionSchema = puzzleSchema.extend({
+  solution_data: z.string().nullable() // JSON string containing solution layout
+});
+
+export type PuzzleWithSolution = z.infer<typeof puzzleWithSolutionSchema>;
+
+// Completing a puzzle within this many seconds of active time, without hints, earns a
+// cookie trifecta
+export const COOKIE_TRIFECTA_SECONDS = 60;
+
 // Achievement schema
 export const achievementSchema = z.object({
   id: z.number(),
   user_id: z.number(),
   puzzle_id: z.number(),
+  attempt_id: z.number().nullable(), // the verified attempt the achievement was earned with
   difficulty_level: difficultyLevelSchema,
   completion_time: z.number().positive(), // in seconds
   is_cookie_trifecta: z.boolean(), // fast completion achievement
@@ -66,15 +199,25 @@ export const puzzleAttemptSchema = z.object({
   attempt_data: z.string(), // JSON string containing current puzzle state
   is_completed: z.boolean(),
   completion_time: z.number().nullable(), // in seconds, null if not completed
+  hints_used: z.number().int(),
+  mistakes: z.number().int(), // one per progress check
+  mode: playModeSchema,
   started_at: z.coerce.date(),
-  completed_at: z.coerce.date().nullable()
+  completed_at: z.coerce.date().nullable(),
+  abandoned_at: z.coerce.date().nullable(), // set once the attempt has been restarted
+  paused_at: z.coerce.date().nullable(), // set while the clock is paused
+  paused_ms: z.number().int() // time spent paused before paused_at, in milliseconds
 });
 
 export type PuzzleAttempt = z.infer<typeof puzzleAttemptSchema>;
 
+// Email addresses are matched exactly in the database, so every input trims them and
+// lower-cases them first
+export const emailSchema = z.string().trim().toLowerCase().email();
+
 // Input schemas for creating users
 export const createUserInputSchema = z.object({
-  email: z.string().email(),
+  email: emailSchema,
   display_name: z.string().min(1),
   auth_provider: authProviderSchema,
   auth_provider_id: z.string().min(1)
@@ -82,6 +225,39 @@ export const createUserInputSchema = z.object({
 
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+// Input schemas for email and password accounts
+export const passwordSchema = z.string().min(8, 'Password must be at least 8 characters').max(256);
+
+export const signUpInputSchema = z.object({
+  email: emailSchema,
+  display_name: z.string().min(1),
+  password: passwordSchema
+});
+
+export type SignUpInput = z.infer<typeof signUpInputSchema>;
+
+export const signInInputSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1)
+});
+
+export type SignInInput = z.infer<typeof signInInputSchema>;
+
+// Input schemas for signing in with an OpenID Connect provider. The browser is sent to
+// the provider, which redirects back with a code and the state that was handed out.
+export const startOAuthSignInInputSchema = z.object({
+  provider: oauthProviderSchema
+});
+
+export type StartOAuthSignInInput = z.infer<typeof startOAuthSignInInputSchema>;
+
+export const completeOAuthSignInInputSchema = z.object({
+  state: z.string().min(1),
+  code: z.string().min(1)
+});
+
+export type CompleteOAuthSignInInput = z.infer<typeof completeOAuthSignInInputSchema>;
+
 // Input schemas for creating puzzles
 export const createPuzzleInputSchema = z.object({
   title: z.string().min(1),
@@ -113,20 +289,15 @@ export const updatePuzzleInputSchema = z.object({
   dominoes_data: z.string().min(1).optional(),
   conditions_data: z.string().min(1).optional(),
   solution_data: z.string().nullable().optional(),
-  is_published: z.boolean().optional(),
-  is_daily_puzzle: z.boolean().optional(),
-  daily_puzzle_date: z.coerce.date().nullable().optional()
+  is_published: z.boolean().optional()
 });
 
 export type UpdatePuzzleInput = z.infer<typeof updatePuzzleInputSchema>;
 
 // Input schemas for creating achievements
+// Everything else is taken from the completed attempt and its puzzle
 export const createAchievementInputSchema = z.object({
-  user_id: z.number(),
-  puzzle_id: z.number(),
-  difficulty_level: difficultyLevelSchema,
-  completion_time: z.number().positive(),
-  is_cookie_trifecta: z.boolean().optional().default(false)
+  attempt_id: z.number()
 });
 
 export type CreateAchievementInput = z.infer<typeof createAchievementInputSchema>;
@@ -135,25 +306,71 @@ export type CreateAchievementInput = z.infer<typeof createAchievementInputSchema
 export const createPuzzleAttemptInputSchema = z.object({
   user_id: z.number().nullable().optional(),
   puzzle_id: z.number(),
-  attempt_data: z.string().min(1)
+  attempt_data: z.string().min(1),
+  mode: playModeSchema.optional() // defaults to practice
 });
 
 export type CreatePuzzleAttemptInput = z.infer<typeof createPuzzleAttemptInputSchema>;
 
 // Input schemas for updating puzzle attempts
+// Completion is decided by the server from the submitted board
 export const updatePuzzleAttemptInputSchema = z.object({
   id: z.number(),
-  attempt_data: z.string().min(1).optional(),
-  is_completed: z.boolean().optional(),
-  completion_time: z.number().positive().nullable().optional(),
-  completed_at: z.coerce.date().nullable().optional()
+  attempt_data: z.string().min(1).optional()
 });
 
 export type UpdatePuzzleAttemptInput = z.infer<typeof updatePuzzleAttemptInputSchema>;
 
+// Input schema for resuming a puzzle; attempt_data is only used when a new attempt is started
+export const getOrCreateActiveAttemptInputSchema = z.object({
+  user_id: z.number(),
+  puzzle_id: z.number(),
+  attempt_data: z.string().min(1),
+  mode: playModeSchema.optional() // defaults to practice
+});
+
+export type GetOrCreateActiveAttemptInput = z.infer<typeof getOrCreateActiveAttemptInputSchema>;
+
+// Input schema for abandoning an attempt and starting over with a fresh board
+export const restartPuzzleAttemptInputSchema = z.object({
+  id: z.number(),
+  attempt_data: z.string().min(1)
+});
+
+export type RestartPuzzleAttemptInput = z.infer<typeof restartPuzzleAttemptInputSchema>;
+
+// Input schema for pausing or resuming an attempt's clock
+export const puzzleAttemptClockInputSchema = z.object({
+  id: z.number()
+});
+
+export type PuzzleAttemptClockInput = z.infer<typeof puzzleAttemptClockInputSchema>;
+
+// Input schema for asking for a hint on the current board
+// region: a region to focus on, cell: one cell's value, placement: a whole domino
+export const hintLevelSchema = z.enum(['region', 'cell', 'placement']);
+export type HintLevel = z.infer<typeof hintLevelSchema>;
+
+export const getHintInputSchema = z.object({
+  attempt_id: z.number(),
+  attempt_data: z.string().min(1),
+  level: hintLevelSchema
+});
+
+export type GetHintInput = z.infer<typeof getHintInputSchema>;
+
+// Input schema for checking the current board against the solution
+export const checkAttemptInputSchema = z.object({
+  attempt_id: z.number(),
+  attempt_data: z.string().min(1)
+});
+
+export type CheckAttemptInput = z.infer<typeof checkAttemptInputSchema>;
+
 // Query schemas
 export const getPuzzlesByDifficultyInputSchema = z.object({
   difficulty_level: difficultyLevelSchema,
+  sort_by: z.enum(['newest', 'rating']).optional().default('newest'), // rating sorts easiest first
   limit: z.number().int().positive().optional().default(20),
   offset: z.number().int().nonnegative().optional().default(0)
 });
@@ -173,4 +390,53 @@ export const getUserAchievementsInputSchema = z.object({
   difficulty_level: difficultyLevelSchema.optional()
 });
 
-export type GetUserAchievementsInput = z.infer<typeof getUserAchievementsInputSchema>;
\ No newline at end of file
+export type GetUserAchievementsInput = z.infer<typeof getUserAchievementsInputSchema>;
+
+export const solvePuzzleInputSchema = z.object({
+  grid_width: z.number().int().min(3).max(10),
+  grid_height: z.number().int().min(3).max(10),
+  board_data: z.string().min(1), // JSON string
+  dominoes_data: z.string().min(1), // JSON string
+  conditions_data: z.string().min(1), // JSON string
+  max_solutions: z.number().int().positive().max(1000).optional().default(10)
+});
+
+export type SolvePuzzleInput = z.infer<typeof solvePuzzleInputSchema>;
+
+export const ratePuzzleInputSchema = solvePuzzleInputSchema.omit({ max_solutions: true });
+
+export type RatePuzzleInput = z.infer<typeof ratePuzzleInputSchema>;
+
+// Input schema for generating a puzzle
+export const generatePuzzleInputSchema = z.object({
+  difficulty_level: difficultyLevelSchema,
+  grid_width: z.number().int().min(3).max(10),
+  grid_height: z.number().int().min(3).max(10),
+  seed: z.number().int().nonnegative().max(2 ** 32 - 1).optional() // same seed, same puzzle
+});
+
+export type GeneratePuzzleInput = z.infer<typeof generatePuzzleInputSchema>;
+
+// Input schemas for the admin procedures
+export const listUsersInputSchema = z.object({
+  role: userRoleSchema.optional(),
+  limit: z.number().int().positive().max(100).optional().default(50),
+  offset: z.number().int().nonnegative().optional().default(0)
+});
+
+export type ListUsersInput = z.infer<typeof listUsersInputSchema>;
+
+export const updateUserRoleInputSchema = z.object({
+  user_id: z.number(),
+  role: userRoleSchema
+});
+
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleInputSchema>;
+
+// Puts a published puzzle on the daily schedule, replacing any puzzle already on that date
+export const scheduleDailyPuzzleInputSchema = z.object({
+  puzzle_id: z.number(),
+  date: z.coerce.date()
+});
+
+export type ScheduleDailyPuzzleInput = z.infer<typeof scheduleDailyPuzzleInputSchema>;
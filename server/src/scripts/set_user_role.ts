@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { emailSchema, userRoleSchema } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Sets a user's role from the command line, which is how the first admin is made:
+//   bun run user:role <email> <role>
+const [rawEmail, role] = process.argv.slice(2);
+// Emails are stored trimmed and lowercased, so the argument is matched the same way
+const parsedEmail = emailSchema.safeParse(rawEmail);
+const parsedRole = userRoleSchema.safeParse(role);
+if (!parsedEmail.success || !parsedRole.success) {
+  console.error(`Usage: bun run user:role <email> <${userRoleSchema.options.join('|')}>`);
+  process.exit(1);
+}
+const email = parsedEmail.data;
+
+const result = await db.update(usersTable)
+  .set({ role: parsedRole.data, updated_at: new Date() })
+  .where(eq(usersTable.email, email))
+  .returning({ id: usersTable.id })
+  .execute();
+
+if (result.length === 0) {
+  console.error(`No account uses ${email}`);
+  process.exit(1);
+}
+
+console.log(`${email} is now ${parsedRole.data}`);
+process.exit(0);
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'bun:test';
+import { evaluateBoard, readAttemptBoard } from '../puzzle/board';
+import { type PuzzleContent } from '../puzzle/content';
+
+// 2×2 board with a unique solution:
+//   1 2
+//   3 4
+const content: PuzzleContent = {
+  grid_width: 2,
+  grid_height: 2,
+  board_data: {
+    regions: [
+      { id: 1, color: 'red', cells: [[0, 0]] },
+      { id: 2, color: 'blue', cells: [[1, 0]] },
+      { id: 3, color: 'green', cells: [[0, 1], [1, 1]] }
+    ],
+    voids: []
+  },
+  dominoes_data: { dominoes: [{ id: 1, values: [1, 2] }, { id: 2, values: [3, 4] }] },
+  conditions_data: {
+    conditions: [
+      { region_id: 1, type: 'less_than', target: 2 },
+      { region_id: 2, type: 'greater_than', target: 2 },
+      { region_id: 3, type: 'sum', target: 6 }
+    ]
+  },
+  solution_data: null
+};
+
+describe('evaluateBoard', () => {
+  it('should accept a solved board', () => {
+    const result = evaluateBoard(content, [
+      { domino_id: 1, position: [[0, 0], [0, 1]] },
+      { domino_id: 2, position: [[1, 0], [1, 1]] }
+    ]);
+
+    expect(result).toEqual({
+      is_solved: true,
+      invalid_placements: [],
+      unplaced_dominoes: [],
+      uncovered_cells: [],
+      violated_regions: []
+    });
+  });
+
+  it('should accept dominoes in any of their four orientations', () => {
+    //   2 4
+    //   1 3
+    const upsideDown: PuzzleContent = {
+      ...content,
+      board_data: {
+        regions: [
+          { id: 1, color: 'red', cells: [[0, 0]] },
+          { id: 2, color: 'green', cells: [[0, 1]] },
+          { id: 3, color: 'blue', cells: [[1, 0], [1, 1]] }
+        ],
+        voids: []
+      },
+      conditions_data: {
+        conditions: [
+          { region_id: 1, type: 'exactly', target: 2 },
+          { region_id: 2, type: 'exactly', target: 4 },
+          { region_id: 3, type: 'sum', target: 4 }
+        ]
+      }
+    };
+
+    const result = evaluateBoard(upsideDown, [
+      { domino_id: 1, position: [[1, 0], [0, 0]] },
+      { domino_id: 2, position: [[1, 1], [0, 1]] }
+    ]);
+
+    expect(result.is_solved).toBe(true);
+    expect(result.invalid_placements).toEqual([]);
+  });
+
+  it('should report unplaced dominoes and uncovered cells', () => {
+    const result = evaluateBoard(content, [{ domino_id: 1, position: [[0, 0], [0, 1]] }]);
+
+    expect(result.is_solved).toBe(false);
+    expect(result.unplaced_dominoes).toEqual([2]);
+    expect(result.uncovered_cells).toEqual([[1, 0], [1, 1]]);
+    expect(result.violated_regions).toEqual([]);
+  });
+
+  it('should report broken conditions', () => {
+    const result = evaluateBoard(content, [
+      { domino_id: 1, position: [[0, 1], [0, 0]] },
+      { domino_id: 2, position: [[1, 0], [1, 1]] }
+    ]);
+
+    expect(result.is_solved).toBe(false);
+    expect(result.violated_regions).toEqual([1, 3]);
+  });
+
+  it('should ignore invalid placements', () => {
+    const result = evaluateBoard(content, [
+      { domino_id: 1, position: [[0, 0], [1, 1]] }, // not adjacent
+      { domino_id: 2, position: [[1, 1], [1, 2]] }, // off the grid
+      { domino_id: 3, position: [[1, 0], [1, 1]] }, // unknown domino
+      { domino_id: 1, position: [[0, 0], [0, 1]] }
+    ]);
+
+    expect(result.is_solved).toBe(false);
+    expect(result.invalid_placements).toEqual([1, 2, 3]);
+    expect(result.unplaced_dominoes).toEqual([2]);
+  });
+
+  it('should reject overlapping dominoes', () => {
+    const result = evaluateBoard(content, [
+      { domino_id: 1, position: [[0, 0], [0, 1]] },
+      { domino_id: 2, position: [[0, 1], [1, 1]] }
+    ]);
+
+    expect(result.invalid_placements).toEqual([2]);
+  });
+
+  it('should reject dominoes on void cells', () => {
+    const holed: PuzzleContent = {
+      ...content,
+      grid_width: 3,
+      board_data: { ...content.board_data, voids: [[0, 2]] }
+    };
+
+    const result = evaluateBoard(holed, [
+      { domino_id: 1, position: [[0, 1], [0, 2]] },
+      { domino_id: 2, position: [[1, 1], [1, 2]] }
+    ]);
+
+    expect(result.invalid_placements).toEqual([1]);
+  });
+});
+
+describe('readAttemptBoard', () => {
+  it('should read placements from attempt data', () => {
+    expect(readAttemptBoard('{"placements": [{"domino_id": 1, "position": [[0,0], [0,1]]}], "ui": {}}'))
+      .toEqual([{ domino_id: 1, position: [[0, 0], [0, 1]] }]);
+  });
+
+  it('should return null when there is no board', () => {
+    expect(readAttemptBoard('{"progress": "halfway"}')).toBeNull();
+    expect(readAttemptBoard('not json')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzlesTable, puzzleAttemptsTable, usersTable } from '../db/schema';
+import { checkAttempt } from '../handlers/check_attempt';
+import { eq } from 'drizzle-orm';
+
+const emptyBoard = '{"placements": []}';
+
+// Solution: [1, 2] across the top row, [3, 4] across the middle row
+const createTestPuzzle = async (solutionData: string | null = '{"placement": [{"domino_id": 1, "position": [[0,0], [0,1]]}, {"domino_id": 2, "position": [[1,0], [1,1]]}]}'): Promise<number> => {
+  const result = await db.insert(puzzlesTable)
+    .values({
+      title: 'Check Puzzle',
+      difficulty_level: 'Easy',
+      grid_width: 3,
+      grid_height: 3,
+      board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0], [0,1], [1,0], [1,1]]}]}',
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [1, 2]}, {"id": 2, "values": [3, 4]}]}',
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "sum", "target": 10}]}',
+      solution_data: solutionData,
+      is_published: true
+    })
+    .returning()
+    .execute();
+
+  return result[0].id;
+};
+
+const createTestAttempt = async (puzzleId: number, values: Partial<typeof puzzleAttemptsTable.$inferInsert> = {}) => {
+  const player = await db.insert(usersTable)
+    .values({ email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' })
+    .returning()
+    .execute();
+
+  const result = await db.insert(puzzleAttemptsTable)
+    .values({ user_id: player[0].id, puzzle_id: puzzleId, attempt_data: emptyBoard, ...values })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('checkAttempt', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should report placed dominoes that differ from the solution', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+    const board = '{"placements": [{"domino_id": 1, "position": [[0,0], [0,1]]}, {"domino_id": 2, "position": [[1,1], [1,0]]}]}';
+
+    const result = await checkAttempt({ attempt_id: attempt.id, attempt_data: board }, attempt.user_id!);
+
+    expect(result).toEqual({ wrong_placements: [2], mistakes: 1 });
+  });
+
+  it('should report nothing for correct placements on an unfinished board', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+    const board = '{"placements": [{"domino_id": 2, "position": [[1,0], [1,1]]}]}';
+
+    const result = await checkAttempt({ attempt_id: attempt.id, attempt_data: board }, attempt.user_id!);
+
+    expect(result.wrong_placements).toEqual([]);
+  });
+
+  it('should count every check as a mistake', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+
+    await checkAttempt({ attempt_id: attempt.id, attempt_data: emptyBoard }, attempt.user_id!);
+    const result = await checkAttempt({ attempt_id: attempt.id, attempt_data: emptyBoard }, attempt.user_id!);
+
+    expect(result.mistakes).toEqual(2);
+
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .execute();
+    expect(attempts[0].mistakes).toEqual(2);
+  });
+
+  it('should refuse checks in ranked play', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle(), { mode: 'ranked' });
+
+    await expect(checkAttempt({ attempt_id: attempt.id, attempt_data: emptyBoard }, attempt.user_id!))
+      .rejects.toThrow(/not allowed in ranked play/i);
+  });
+
+  it('should refuse checks on a completed attempt', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle(), { is_completed: true });
+
+    await expect(checkAttempt({ attempt_id: attempt.id, attempt_data: emptyBoard }, attempt.user_id!))
+      .rejects.toThrow(/already completed/i);
+  });
+
+  it('should refuse checks for a puzzle without a stored solution', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle(null));
+
+    await expect(checkAttempt({ attempt_id: attempt.id, attempt_data: emptyBoard }, attempt.user_id!))
+      .rejects.toThrow(/no stored solution/i);
+  });
+
+  it('should throw error for non-existent attempt', async () => {
+    await expect(checkAttempt({ attempt_id: 99999, attempt_data: emptyBoard }, 1))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+import { evaluateCondition } from '../puzzle/conditions';
+
+describe('evaluateCondition', () => {
+  it('should keep a partly filled region pending until it is complete', () => {
+    const sum = { region_id: 1, type: 'sum', target: 7 } as const;
+
+    expect(evaluateCondition(sum, [3], 2)).toEqual('pending');
+    expect(evaluateCondition(sum, [3, 4], 2)).toEqual('satisfied');
+    expect(evaluateCondition(sum, [3, 5], 2)).toEqual('violated');
+    expect(evaluateCondition(sum, [9], 2)).toEqual('violated');
+  });
+
+  it('should bound partial sums by the largest pip value', () => {
+    const sum = { region_id: 1, type: 'sum', target: 10 } as const;
+
+    expect(evaluateCondition(sum, [2], 2, 8)).toEqual('pending');
+    expect(evaluateCondition(sum, [2], 2, 6)).toEqual('violated');
+  });
+
+  it('should require all different values', () => {
+    const condition = { region_id: 1, type: 'all_different' } as const;
+
+    expect(evaluateCondition(condition, [1, 4], 3)).toEqual('pending');
+    expect(evaluateCondition(condition, [1, 4, 2], 3)).toEqual('satisfied');
+    expect(evaluateCondition(condition, [1, 4, 1], 3)).toEqual('violated');
+    expect(evaluateCondition(condition, [0, 1], 3, 1)).toEqual('violated'); // only two pip values exist
+  });
+
+  it('should rule out a value with not_equal', () => {
+    const condition = { region_id: 1, type: 'not_equal', target: 3 } as const;
+
+    expect(evaluateCondition(condition, [2, 4], 2)).toEqual('satisfied');
+    expect(evaluateCondition(condition, [3], 2)).toEqual('violated');
+  });
+
+  it('should require every value to be exactly the target', () => {
+    const condition = { region_id: 1, type: 'exactly', target: 5 } as const;
+
+    expect(evaluateCondition(condition, [5], 2)).toEqual('pending');
+    expect(evaluateCondition(condition, [5, 5], 2)).toEqual('satisfied');
+    expect(evaluateCondition(condition, [5, 4], 2)).toEqual('violated');
+  });
+
+  it('should keep values inside an inclusive range', () => {
+    const condition = { region_id: 1, type: 'range', min: 2, max: 4 } as const;
+
+    expect(evaluateCondition(condition, [2, 4], 2)).toEqual('satisfied');
+    expect(evaluateCondition(condition, [1], 2)).toEqual('violated');
+    expect(evaluateCondition(condition, [5], 2)).toEqual('violated');
+  });
+
+  it('should check parity', () => {
+    const even = { region_id: 1, type: 'parity', parity: 'even' } as const;
+    const odd = { region_id: 1, type: 'parity', parity: 'odd' } as const;
+
+    expect(evaluateCondition(even, [0, 2, 12], 3)).toEqual('satisfied');
+    expect(evaluateCondition(even, [0, 3], 3)).toEqual('violated');
+    expect(evaluateCondition(odd, [1, 7], 2)).toEqual('satisfied');
+    expect(evaluateCondition(odd, [2], 2)).toEqual('violated');
+  });
+});
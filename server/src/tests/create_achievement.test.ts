@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { achievementsTable, usersTable, puzzlesTable } from '../db/schema';
-import { type CreateAchievementInput } from '../schema';
+import { achievementsTable, usersTable, puzzlesTable, puzzleAttemptsTable } from '../db/schema';
+import { type CreateAchievementInput, type DifficultyLevel, type PlayMode } from '../schema';
 import { createAchievement } from '../handlers/create_achievement';
 import { eq } from 'drizzle-orm';
 
@@ -10,10 +10,6 @@ describe('createAchievement', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
-  // Setup test data
-  let testUserId: number;
-  let testPuzzleId: number;
-
   const createTestUser = async () => {
     const result = await db.insert(usersTable)
       .values({
@@ -27,15 +23,15 @@ describe('createAchievement', () => {
     return result[0].id;
   };
 
-  const createTestPuzzle = async () => {
+  const createTestPuzzle = async (difficulty: DifficultyLevel = 'Medium') => {
     const result = await db.insert(puzzlesTable)
       .values({
         title: 'Test Puzzle',
         description: 'A puzzle for testing',
-        difficulty_level: 'Medium',
+        difficulty_level: difficulty,
         grid_width: 5,
         grid_height: 5,
-        board_data: '{"grid": "test"}',
+        board_data: '{"regions": []}',
         dominoes_data: '{"dominoes": []}',
         conditions_data: '{"conditions": []}',
         is_published: true
@@ -45,24 +41,36 @@ describe('createAchievement', () => {
     return result[0].id;
   };
 
-  it('should create an achievement with valid input', async () => {
-    testUserId = await createTestUser();
-    testPuzzleId = await createTestPuzzle();
+  // Stands in for an attempt the server has verified as completed
+  const createTestAttempt = async (userId: number | null, puzzleId: number, completionTime: number | null, mode: PlayMode = 'ranked') => {
+    const result = await db.insert(puzzleAttemptsTable)
+      .values({
+        user_id: userId,
+        puzzle_id: puzzleId,
+        attempt_data: '{"placements": []}',
+        mode,
+        is_completed: completionTime !== null,
+        completion_time: completionTime,
+        completed_at: completionTime !== null ? new Date() : null
+      })
+      .returning()
+      .execute();
+    return result[0].id;
+  };
 
-    const testInput: CreateAchievementInput = {
-      user_id: testUserId,
-      puzzle_id: testPuzzleId,
-      difficulty_level: 'Medium',
-      completion_time: 300,
-      is_cookie_trifecta: false
-    };
+  it('should create an achievement from a completed attempt', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    const attemptId = await createTestAttempt(userId, puzzleId, 300);
 
-    const result = await createAchievement(testInput);
+    const testInput: CreateAchievementInput = { attempt_id: attemptId };
+    const result = await createAchievement(testInput, userId);
 
     // Validate return values
     expect(result.id).toBeDefined();
-    expect(result.user_id).toEqual(testUserId);
-    expect(result.puzzle_id).toEqual(testPuzzleId);
+    expect(result.user_id).toEqual(userId);
+    expect(result.puzzle_id).toEqual(puzzleId);
+    expect(result.attempt_id).toEqual(attemptId);
     expect(result.difficulty_level).toEqual('Medium');
     expect(result.completion_time).toEqual(300);
     expect(result.is_cookie_trifecta).toEqual(false);
@@ -70,18 +78,11 @@ describe('createAchievement', () => {
   });
 
   it('should save achievement to database', async () => {
-    testUserId = await createTestUser();
-    testPuzzleId = await createTestPuzzle();
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle('Hard');
+    const attemptId = await createTestAttempt(userId, puzzleId, 45);
 
-    const testInput: CreateAchievementInput = {
-      user_id: testUserId,
-      puzzle_id: testPuzzleId,
-      difficulty_level: 'Hard',
-      completion_time: 180,
-      is_cookie_trifecta: true
-    };
-
-    const result = await createAchievement(testInput);
+    const result = await createAchievement({ attempt_id: attemptId }, userId);
 
     // Query database to verify save
     const achievements = await db.select()
@@ -90,130 +91,133 @@ describe('createAchievement', () => {
       .execute();
 
     expect(achievements).toHaveLength(1);
-    expect(achievements[0].user_id).toEqual(testUserId);
-    expect(achievements[0].puzzle_id).toEqual(testPuzzleId);
+    expect(achievements[0].user_id).toEqual(userId);
+    expect(achievements[0].puzzle_id).toEqual(puzzleId);
     expect(achievements[0].difficulty_level).toEqual('Hard');
-    expect(achievements[0].completion_time).toEqual(180);
+    expect(achievements[0].completion_time).toEqual(45);
     expect(achievements[0].is_cookie_trifecta).toEqual(true);
     expect(achievements[0].achieved_at).toBeInstanceOf(Date);
   });
 
-  it('should default is_cookie_trifecta to false when not provided', async () => {
-    testUserId = await createTestUser();
-    testPuzzleId = await createTestPuzzle();
+  it('should award the cookie trifecta from the verified completion time', async () => {
+    const userId = await createTestUser();
+
+    // Each puzzle can only be played ranked once
+    const completionTimes = [30, 60, 61, 600];
+    for (const time of completionTimes) {
+      const puzzleId = await createTestPuzzle();
+      const attemptId = await createTestAttempt(userId, puzzleId, time);
+      const result = await createAchievement({ attempt_id: attemptId }, userId);
+
+      expect(result.completion_time).toEqual(time);
+      expect(result.is_cookie_trifecta).toEqual(time <= 60);
+    }
+  });
 
-    const testInput: CreateAchievementInput = {
-      user_id: testUserId,
-      puzzle_id: testPuzzleId,
-      difficulty_level: 'Easy',
-      completion_time: 420,
-      is_cookie_trifecta: false // Explicitly set to test the default behavior
-    };
+  it('should withhold the cookie trifecta when hints were used', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    const attemptId = await createTestAttempt(userId, puzzleId, 30);
+    await db.update(puzzleAttemptsTable)
+      .set({ hints_used: 1 })
+      .where(eq(puzzleAttemptsTable.id, attemptId))
+      .execute();
 
-    const result = await createAchievement(testInput);
+    const result = await createAchievement({ attempt_id: attemptId }, userId);
 
+    expect(result.completion_time).toEqual(30);
     expect(result.is_cookie_trifecta).toEqual(false);
+  });
 
-    // Verify in database
-    const achievements = await db.select()
-      .from(achievementsTable)
-      .where(eq(achievementsTable.id, result.id))
-      .execute();
+  it('should take the difficulty level from the puzzle', async () => {
+    const userId = await createTestUser();
 
-    expect(achievements[0].is_cookie_trifecta).toEqual(false);
+    const difficultyLevels = ['Easy', 'Medium', 'Hard'] as const;
+    for (const difficulty of difficultyLevels) {
+      const puzzleId = await createTestPuzzle(difficulty);
+      const attemptId = await createTestAttempt(userId, puzzleId, 240);
+
+      const result = await createAchievement({ attempt_id: attemptId }, userId);
+      expect(result.difficulty_level).toEqual(difficulty);
+    }
   });
 
-  it('should handle cookie trifecta achievement for fast completion', async () => {
-    testUserId = await createTestUser();
-    testPuzzleId = await createTestPuzzle();
+  it('should mint only one achievement per attempt', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    const attemptId = await createTestAttempt(userId, puzzleId, 120);
 
-    const testInput: CreateAchievementInput = {
-      user_id: testUserId,
-      puzzle_id: testPuzzleId,
-      difficulty_level: 'Hard',
-      completion_time: 60, // Very fast completion
-      is_cookie_trifecta: true
-    };
+    const first = await createAchievement({ attempt_id: attemptId }, userId);
+    const second = await createAchievement({ attempt_id: attemptId }, userId);
+
+    expect(second.id).toEqual(first.id);
+    const achievements = await db.select().from(achievementsTable).execute();
+    expect(achievements).toHaveLength(1);
+  });
 
-    const result = await createAchievement(testInput);
+  it('should reject attempts that are not completed', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    const attemptId = await createTestAttempt(userId, puzzleId, null);
 
-    expect(result.is_cookie_trifecta).toEqual(true);
-    expect(result.completion_time).toEqual(60);
-    expect(result.difficulty_level).toEqual('Hard');
+    await expect(createAchievement({ attempt_id: attemptId }, userId))
+      .rejects
+      .toThrow(/not been completed/i);
   });
 
-  it('should throw error when user does not exist', async () => {
-    testPuzzleId = await createTestPuzzle();
-    const nonExistentUserId = 99999;
-
-    const testInput: CreateAchievementInput = {
-      user_id: nonExistentUserId,
-      puzzle_id: testPuzzleId,
-      difficulty_level: 'Medium',
-      completion_time: 300,
-      is_cookie_trifecta: false
-    };
-
-    await expect(createAchievement(testInput))
+  it('should reject guest attempts', async () => {
+    const puzzleId = await createTestPuzzle();
+    const attemptId = await createTestAttempt(null, puzzleId, 120);
+
+    await expect(createAchievement({ attempt_id: attemptId }, 1))
       .rejects
-      .toThrow(/user.*not found/i);
+      .toThrow(/guest/i);
   });
 
-  it('should throw error when puzzle does not exist', async () => {
-    testUserId = await createTestUser();
-    const nonExistentPuzzleId = 99999;
-
-    const testInput: CreateAchievementInput = {
-      user_id: testUserId,
-      puzzle_id: nonExistentPuzzleId,
-      difficulty_level: 'Medium',
-      completion_time: 300,
-      is_cookie_trifecta: false
-    };
-
-    await expect(createAchievement(testInput))
+  it('should reject practice attempts', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    const attemptId = await createTestAttempt(userId, puzzleId, 120, 'practice');
+
+    await expect(createAchievement({ attempt_id: attemptId }, userId))
       .rejects
-      .toThrow(/puzzle.*not found/i);
+      .toThrow(/practice/i);
+
+    const achievements = await db.select().from(achievementsTable).execute();
+    expect(achievements).toHaveLength(0);
   });
 
-  it('should handle all difficulty levels correctly', async () => {
-    testUserId = await createTestUser();
-    testPuzzleId = await createTestPuzzle();
+  it('should reject attempts of other players', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    const attemptId = await createTestAttempt(userId, puzzleId, 120);
 
-    const difficultyLevels = ['Easy', 'Medium', 'Hard'] as const;
-    
-    for (const difficulty of difficultyLevels) {
-      const testInput: CreateAchievementInput = {
-        user_id: testUserId,
-        puzzle_id: testPuzzleId,
-        difficulty_level: difficulty,
-        completion_time: 240,
-        is_cookie_trifecta: false
-      };
+    await expect(createAchievement({ attempt_id: attemptId }, userId + 1))
+      .rejects
+      .toThrow(/another player/i);
+  });
 
-      const result = await createAchievement(testInput);
-      expect(result.difficulty_level).toEqual(difficulty);
-    }
+  it('should throw error when attempt does not exist', async () => {
+    await expect(createAchievement({ attempt_id: 99999 }, 1))
+      .rejects
+      .toThrow(/attempt.*not found/i);
   });
 
-  it('should track completion times accurately', async () => {
-    testUserId = await createTestUser();
-    testPuzzleId = await createTestPuzzle();
+  it('should throw error when user does not exist', async () => {
+    const puzzleId = await createTestPuzzle();
+    const attemptId = await createTestAttempt(99999, puzzleId, 120);
 
-    const completionTimes = [30, 120, 300, 600]; // Different completion times
-    
-    for (const time of completionTimes) {
-      const testInput: CreateAchievementInput = {
-        user_id: testUserId,
-        puzzle_id: testPuzzleId,
-        difficulty_level: 'Medium',
-        completion_time: time,
-        is_cookie_trifecta: time <= 60 // Fast completion gets trifecta
-      };
-
-      const result = await createAchievement(testInput);
-      expect(result.completion_time).toEqual(time);
-      expect(result.is_cookie_trifecta).toEqual(time <= 60);
-    }
+    await expect(createAchievement({ attempt_id: attemptId }, 99999))
+      .rejects
+      .toThrow(/user.*not found/i);
+  });
+
+  it('should throw error when puzzle does not exist', async () => {
+    const userId = await createTestUser();
+    const attemptId = await createTestAttempt(userId, 99999, 120);
+
+    await expect(createAchievement({ attempt_id: attemptId }, userId))
+      .rejects
+      .toThrow(/puzzle.*not found/i);
   });
-});
\ No newline at end of file
+});
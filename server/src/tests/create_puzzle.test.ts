@@ -4,7 +4,9 @@ import { db } from '../db';
 import { puzzlesTable, usersTable } from '../db/schema';
 import { type CreatePuzzleInput } from '../schema';
 import { createPuzzle } from '../handlers/create_puzzle';
+import { PuzzlePublishError } from '../puzzle/publishing';
 import { eq } from 'drizzle-orm';
+import { ZodError } from 'zod';
 
 // Test user data for creating puzzles with creators
 const testUser = {
@@ -14,21 +16,23 @@ const testUser = {
   auth_provider_id: 'creator123'
 };
 
-// Basic puzzle input
+// Basic puzzle input with a single solution: [1, 2] across the top-left corner
 const testPuzzleInput: CreatePuzzleInput = {
   title: 'Test Puzzle',
   description: 'A test puzzle for unit testing',
   difficulty_level: 'Medium',
   grid_width: 5,
   grid_height: 5,
-  board_data: '{"regions": [{"id": 1, "cells": [[0,0], [0,1]], "color": "red"}]}',
+  board_data: '{"regions": [{"id": 1, "cells": [[0,0]], "color": "red"}, {"id": 2, "cells": [[0,1]], "color": "blue"}]}',
   dominoes_data: '{"dominoes": [{"id": 1, "values": [1, 2]}]}',
-  conditions_data: '{"conditions": [{"region_id": 1, "type": "sum", "target": 3}]}',
-  solution_data: '{"placement": [{"domino_id": 1, "position": [[0,0], [0,1]]}]}',
+  conditions_data: '{"conditions": [{"region_id": 1, "type": "less_than", "target": 2}, {"region_id": 2, "type": "greater_than", "target": 1}]}',
+  solution_data: null,
   is_published: true,
   is_daily_puzzle: false
 };
 
+const expectedSolution = '{"placement":[{"domino_id":1,"position":[[0,0],[0,1]]}]}';
+
 // System-generated puzzle input (no creator)
 const systemPuzzleInput: CreatePuzzleInput = {
   title: 'Daily Puzzle',
@@ -43,6 +47,21 @@ const systemPuzzleInput: CreatePuzzleInput = {
   daily_puzzle_date: new Date('2024-01-15')
 };
 
+// 10×10 board covered by one region whose sum is one more than the dominoes can give.
+// Nothing short of covering the whole board shows that, so the search runs out of time.
+const dominoes = Array.from({ length: 50 }, (_, i) => ({ id: i + 1, values: [i % 13, (i * 7) % 11] }));
+const dominoTotal = dominoes.reduce((total, { values: [a, b] }) => total + a + b, 0);
+const unsolvableInput: CreatePuzzleInput = {
+  ...testPuzzleInput,
+  grid_width: 10,
+  grid_height: 10,
+  board_data: JSON.stringify({
+    regions: [{ id: 1, color: 'red', cells: Array.from({ length: 100 }, (_, i) => [Math.floor(i / 10), i % 10]) }]
+  }),
+  dominoes_data: JSON.stringify({ dominoes }),
+  conditions_data: JSON.stringify({ conditions: [{ region_id: 1, type: 'sum', target: dominoTotal + 1 }] })
+};
+
 describe('createPuzzle', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -69,7 +88,7 @@ describe('createPuzzle', () => {
     expect(result.board_data).toEqual(puzzleInput.board_data);
     expect(result.dominoes_data).toEqual(puzzleInput.dominoes_data);
     expect(result.conditions_data).toEqual(puzzleInput.conditions_data);
-    expect(result.solution_data).toEqual(puzzleInput.solution_data || null);
+    expect(result.solution_data).toEqual(expectedSolution);
     expect(result.is_published).toBe(true);
     expect(result.is_daily_puzzle).toBe(false);
     expect(result.daily_puzzle_date).toBeNull();
@@ -220,4 +239,193 @@ describe('createPuzzle', () => {
     expect(largeResult.grid_width).toEqual(10);
     expect(largeResult.grid_height).toEqual(10);
   });
-});
\ No newline at end of file
+
+  it('should reject board data that is not valid JSON', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...systemPuzzleInput,
+      board_data: '{"regions": ['
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+
+    expect(error.message).toMatch(/invalid puzzle data/i);
+    expect(error.cause).toBeInstanceOf(ZodError);
+    expect(error.cause.issues[0].path).toEqual(['board_data']);
+  });
+
+  it('should reject region cells outside the grid', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...systemPuzzleInput,
+      grid_width: 3,
+      grid_height: 3,
+      board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0], [3,0]]}]}'
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+
+    expect(error.message).toMatch(/invalid puzzle data/i);
+    expect(error.cause.issues[0].path).toEqual(['board_data', 'regions', 0, 'cells', 1]);
+    expect(error.cause.issues[0].message).toMatch(/outside the 3×3 grid/i);
+  });
+
+  it('should accept boards with void cells', async () => {
+    const result = await createPuzzle({
+      ...systemPuzzleInput,
+      grid_width: 3,
+      grid_height: 3,
+      board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0], [0,1]]}], "voids": [[1,1], [2,2]]}',
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [1, 2]}]}',
+      conditions_data: '{"conditions": []}'
+    });
+
+    expect(result.board_data).toContain('"voids"');
+  });
+
+  it('should reject void cells inside a region or outside the grid', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...systemPuzzleInput,
+      grid_width: 3,
+      grid_height: 3,
+      board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0], [0,1]]}], "voids": [[0,1], [3,3]]}',
+      conditions_data: '{"conditions": []}'
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+    const messages = error.cause.issues.map((issue: { message: string }) => issue.message);
+
+    expect(error.message).toMatch(/invalid puzzle data/i);
+    expect(messages).toContain('Cell [0,1] is void but belongs to region 1');
+    expect(messages).toContain('Cell [3,3] is outside the 3×3 grid');
+  });
+
+  it('should reject solutions that cover void cells', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...systemPuzzleInput,
+      grid_width: 3,
+      grid_height: 3,
+      board_data: '{"regions": [], "voids": [[0,1]]}',
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [1, 2]}]}',
+      conditions_data: '{"conditions": []}',
+      solution_data: '{"placement": [{"domino_id": 1, "position": [[0,0], [0,1]]}]}'
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+
+    expect(error.cause.issues[0].path).toEqual(['solution_data', 'placement', 0, 'position']);
+    expect(error.cause.issues[0].message).toEqual('Cell [0,1] is void');
+  });
+
+  it('should reject malformed dominoes and conditions', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...systemPuzzleInput,
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [3]}]}',
+      conditions_data: '{"conditions": [{"region_id": 2, "type": "sum", "target": 7}]}'
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+    const paths = error.cause.issues.map((issue: { path: (string | number)[] }) => issue.path.join('.'));
+
+    expect(paths).toContain('dominoes_data.dominoes.0.values');
+    expect(paths).not.toContain('conditions_data.conditions.0.region_id'); // cross checks only run on well-formed data
+  });
+
+  it('should reject conditions that reference unknown regions', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...systemPuzzleInput,
+      conditions_data: '{"conditions": [{"region_id": 2, "type": "sum", "target": 7}]}'
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+
+    expect(error.cause.issues[0].path).toEqual(['conditions_data', 'conditions', 0, 'region_id']);
+
+    const puzzles = await db.select().from(puzzlesTable).execute();
+    expect(puzzles).toHaveLength(0);
+  });
+
+  it('should reject empty ranges', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...systemPuzzleInput,
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "range", "min": 5, "max": 2}]}'
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+
+    expect(error.cause.issues[0].path).toEqual(['conditions_data', 'conditions', 0, 'max']);
+    expect(error.cause.issues[0].message).toEqual('Range 5–2 is empty');
+  });
+
+  it('should keep the submitted solution for unpublished drafts', async () => {
+    const draftInput: CreatePuzzleInput = {
+      ...testPuzzleInput,
+      conditions_data: '{"conditions": []}',
+      solution_data: '{"placement": [{"domino_id": 1, "position": [[1,0], [1,1]]}]}',
+      is_published: false
+    };
+
+    const result = await createPuzzle(draftInput);
+
+    expect(result.is_published).toBe(false);
+    expect(result.solution_data).toEqual(draftInput.solution_data ?? null);
+  });
+
+  it('should replace a submitted solution with the verified one when publishing', async () => {
+    const result = await createPuzzle({
+      ...testPuzzleInput,
+      solution_data: '{"placement": [{"domino_id": 1, "position": [[0,1], [0,0]]}]}'
+    });
+
+    expect(result.solution_data).toEqual(expectedSolution);
+  });
+
+  it('should rate published puzzles and leave drafts unrated', async () => {
+    const published = await createPuzzle(testPuzzleInput);
+    const draft = await createPuzzle({ ...testPuzzleInput, is_published: false });
+
+    expect(published.difficulty_rating).toBeGreaterThanOrEqual(0);
+    expect(published.difficulty_rating).toBeLessThanOrEqual(100);
+    expect(published.suggested_difficulty).toEqual('Easy');
+    expect(draft.difficulty_rating).toBeNull();
+    expect(draft.suggested_difficulty).toBeNull();
+  });
+
+  it('should refuse to publish a puzzle without a solution', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...testPuzzleInput,
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "greater_than", "target": 2}, {"region_id": 2, "type": "greater_than", "target": 2}]}'
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+
+    expect(error.message).toMatch(/no solution/i);
+    expect(error.cause).toBeInstanceOf(PuzzlePublishError);
+    expect(error.cause.problem).toEqual('no_solution');
+    expect(error.cause.solutionCount).toEqual(0);
+
+    const puzzles = await db.select().from(puzzlesTable).execute();
+    expect(puzzles).toHaveLength(0);
+  });
+
+  it('should refuse to publish a puzzle with several solutions', async () => {
+    const puzzleInput: CreatePuzzleInput = {
+      ...testPuzzleInput,
+      board_data: '{"regions": [{"id": 1, "cells": [[0,0], [0,1]], "color": "red"}]}',
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "sum", "target": 3}]}'
+    };
+
+    const error = await createPuzzle(puzzleInput).catch(e => e);
+
+    expect(error.message).toMatch(/more than one solution/i);
+    expect(error.cause.problem).toEqual('multiple_solutions');
+    expect(error.cause.solutionCount).toEqual(2);
+  });
+
+  it('should give up on puzzles that take too long to verify', async () => {
+    const startedAt = Date.now();
+    const error = await createPuzzle(unsolvableInput).catch(e => e);
+
+    expect(error.message).toMatch(/too complex/i);
+    expect(error.cause.problem).toEqual('too_complex');
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+  });
+});
@@ -1,6 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
-import { db } from '../db';
+import { db, isUniqueViolation } from '../db';
 import { puzzleAttemptsTable, usersTable, puzzlesTable } from '../db/schema';
 import { type CreatePuzzleAttemptInput } from '../schema';
 import { createPuzzleAttempt } from '../handlers/create_puzzle_attempt';
@@ -280,4 +280,84 @@ describe('createPuzzleAttempt', () => {
     expect(result1.puzzle_id).toEqual(puzzleId);
     expect(result2.puzzle_id).toEqual(puzzleId);
   });
-});
\ No newline at end of file
+
+  it('should start attempts in practice mode by default', async () => {
+    const result = await createPuzzleAttempt({ puzzle_id: 1, attempt_data: '{"placements": []}' });
+
+    expect(result.mode).toEqual('practice');
+  });
+
+  it('should allow one ranked attempt per puzzle and user', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'ranked@example.com', display_name: 'Ranked User', auth_provider: 'email', auth_provider_id: 'ranked123' })
+      .returning()
+      .execute();
+    const input: CreatePuzzleAttemptInput = { user_id: user[0].id, puzzle_id: 1, attempt_data: '{"placements": []}', mode: 'ranked' };
+
+    const result = await createPuzzleAttempt(input);
+    expect(result.mode).toEqual('ranked');
+
+    await expect(createPuzzleAttempt(input)).rejects.toThrow(/already been played in ranked mode/i);
+    const practice = await createPuzzleAttempt({ ...input, mode: 'practice' });
+    expect(practice.mode).toEqual('practice');
+  });
+
+  it('should start only one of two simultaneous ranked attempts', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'ranked@example.com', display_name: 'Ranked User', auth_provider: 'email', auth_provider_id: 'ranked123' })
+      .returning()
+      .execute();
+    const input: CreatePuzzleAttemptInput = { user_id: user[0].id, puzzle_id: 1, attempt_data: '{"placements": []}', mode: 'ranked' };
+
+    const results = await Promise.allSettled([createPuzzleAttempt(input), createPuzzleAttempt(input)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason.code).toEqual('CONFLICT');
+
+    // The index holds even for writes that skip the handler's check
+    const duplicate = await db.insert(puzzleAttemptsTable)
+      .values({ user_id: user[0].id, puzzle_id: 1, attempt_data: '{}', mode: 'ranked' })
+      .execute()
+      .catch(error => error);
+    expect(isUniqueViolation(duplicate, 'puzzle_attempts_ranked_once_unique')).toBe(true);
+  });
+
+  it('should keep guests out of ranked play', async () => {
+    await expect(createPuzzleAttempt({ puzzle_id: 1, attempt_data: '{"placements": []}', mode: 'ranked' }))
+      .rejects
+      .toThrow(/guests/i);
+  });
+
+  it('should only open attempts on drafts to the people who manage them', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'creator@example.com', display_name: 'Creator', auth_provider: 'email', auth_provider_id: 'creator', role: 'creator' },
+        { email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' }
+      ])
+      .returning()
+      .execute();
+    const [creator, player] = users;
+    const draft = await db.insert(puzzlesTable)
+      .values({
+        title: 'Draft',
+        creator_id: creator.id,
+        difficulty_level: 'Easy',
+        grid_width: 3,
+        grid_height: 3,
+        board_data: '{"regions":[]}',
+        dominoes_data: '{"dominoes":[]}',
+        conditions_data: '{"conditions":[]}',
+        is_published: false
+      })
+      .returning()
+      .execute();
+    const input = { puzzle_id: draft[0].id, attempt_data: '{"placements": []}' };
+
+    const own = await createPuzzleAttempt({ ...input, user_id: creator.id });
+    expect(own.puzzle_id).toEqual(draft[0].id);
+
+    await expect(createPuzzleAttempt({ ...input, user_id: player.id })).rejects.toThrow(/not been published/i);
+    await expect(createPuzzleAttempt(input)).rejects.toThrow(/not been published/i);
+  });
+});
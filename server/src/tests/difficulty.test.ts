@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'bun:test';
+import { rateDifficulty } from '../puzzle/difficulty';
+import { type PuzzleContent } from '../puzzle/content';
+import { type SolverStats } from '../puzzle/solver';
+
+// 2×2 board with a unique solution:
+//   1 2
+//   3 4
+const smallPuzzle: PuzzleContent = {
+  grid_width: 2,
+  grid_height: 2,
+  board_data: {
+    regions: [
+      { id: 1, color: 'red', cells: [[0, 0]] },
+      { id: 2, color: 'blue', cells: [[1, 0]] },
+      { id: 3, color: 'green', cells: [[0, 1], [1, 1]] }
+    ],
+    voids: []
+  },
+  dominoes_data: { dominoes: [{ id: 1, values: [1, 2] }, { id: 2, values: [3, 4] }] },
+  conditions_data: {
+    conditions: [
+      { region_id: 1, type: 'less_than', target: 2 },
+      { region_id: 2, type: 'greater_than', target: 2 },
+      { region_id: 3, type: 'sum', target: 6 }
+    ]
+  },
+  solution_data: null
+};
+
+const buildStats = (stats: Partial<SolverStats>): SolverStats => ({
+  nodes: 0,
+  backtracks: 0,
+  backtrack_depth: 0,
+  max_depth: 0,
+  decision_points: 0,
+  forced_moves: 0,
+  average_branching: 0,
+  elapsed_ms: 0,
+  ...stats
+});
+
+describe('rateDifficulty', () => {
+  it('should rate a fully forced search as easy', () => {
+    const result = rateDifficulty(smallPuzzle, buildStats({ decision_points: 2, forced_moves: 2, average_branching: 1 }));
+
+    expect(result.rating).toBeLessThan(10);
+    expect(result.suggested_difficulty).toEqual('Easy');
+  });
+
+  it('should rate searches with guessing and backtracking as hard', () => {
+    const result = rateDifficulty(smallPuzzle, buildStats({
+      decision_points: 500,
+      forced_moves: 20,
+      average_branching: 3.5,
+      backtracks: 2000,
+      backtrack_depth: 12
+    }));
+
+    expect(result.rating).toBeGreaterThanOrEqual(65);
+    expect(result.rating).toBeLessThanOrEqual(100);
+    expect(result.suggested_difficulty).toEqual('Hard');
+  });
+
+  it('should rate deeper wrong guesses higher for the same number of dead ends', () => {
+    const shallow = buildStats({ decision_points: 10, forced_moves: 5, average_branching: 2, backtracks: 10, backtrack_depth: 1 });
+    const deep = { ...shallow, backtrack_depth: 6 };
+
+    expect(rateDifficulty(smallPuzzle, deep).rating).toBeGreaterThan(rateDifficulty(smallPuzzle, shallow).rating);
+  });
+
+  it('should rate larger boards higher for the same search', () => {
+    const stats = buildStats({ decision_points: 10, forced_moves: 5, average_branching: 2, backtracks: 10, backtrack_depth: 3 });
+    const largerPuzzle: PuzzleContent = {
+      ...smallPuzzle,
+      grid_width: 6,
+      grid_height: 6,
+      board_data: {
+        regions: [{ id: 1, color: 'red', cells: Array.from({ length: 20 }, (_, i) => [Math.floor(i / 6), i % 6] as [number, number]) }],
+        voids: []
+      }
+    };
+
+    expect(rateDifficulty(largerPuzzle, stats).rating).toBeGreaterThan(rateDifficulty(smallPuzzle, stats).rating);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'bun:test';
+import { type GeneratePuzzleInput } from '../schema';
+import { generatePuzzle } from '../handlers/generate_puzzle';
+import { verifyUniqueSolution } from '../puzzle/publishing';
+
+const testInput: GeneratePuzzleInput = {
+  difficulty_level: 'Easy',
+  grid_width: 5,
+  grid_height: 4,
+  seed: 1234
+};
+
+describe('generatePuzzle', () => {
+  it('should generate a publishable puzzle', async () => {
+    const puzzle = await generatePuzzle(testInput);
+
+    expect(puzzle.grid_width).toEqual(5);
+    expect(puzzle.grid_height).toEqual(4);
+    expect(puzzle.seed).toEqual(1234);
+    expect(puzzle.board_data.regions.length).toBeGreaterThan(0);
+    expect(puzzle.conditions_data.conditions.length).toBeGreaterThan(0);
+    expect(puzzle.solution_data).not.toBeNull();
+    expect(verifyUniqueSolution(puzzle).solution).toBeDefined();
+  });
+
+  it('should be reproducible from its seed', async () => {
+    const first = await generatePuzzle(testInput);
+    const second = await generatePuzzle(testInput);
+
+    expect(second).toEqual(first);
+  });
+});
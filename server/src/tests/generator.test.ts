@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'bun:test';
+import { generatePuzzle } from '../puzzle/generator';
+import { parsePuzzleContent } from '../puzzle/content';
+import { findSolutions } from '../puzzle/solver';
+import { type DifficultyLevel } from '../schema';
+
+const DIFFICULTIES: DifficultyLevel[] = ['Easy', 'Medium', 'Hard'];
+
+describe('generatePuzzle', () => {
+  it('should generate the same puzzle for the same seed', () => {
+    const first = generatePuzzle({ difficulty: 'Medium', gridWidth: 5, gridHeight: 5, seed: 42 });
+    const second = generatePuzzle({ difficulty: 'Medium', gridWidth: 5, gridHeight: 5, seed: 42 });
+
+    expect(first).not.toBeNull();
+    expect(second).toEqual(first);
+  });
+
+  it('should pick a seed when none is given', () => {
+    const puzzle = generatePuzzle({ difficulty: 'Easy', gridWidth: 4, gridHeight: 4 });
+
+    expect(puzzle?.seed).toBeNumber();
+    expect(generatePuzzle({ difficulty: 'Easy', gridWidth: 4, gridHeight: 4, seed: puzzle!.seed })).toEqual(puzzle);
+  });
+
+  it('should give up when the time limit is reached', () => {
+    expect(generatePuzzle({ difficulty: 'Hard', gridWidth: 10, gridHeight: 10, seed: 42, timeLimitMs: 0 })).toBeNull();
+  });
+
+  DIFFICULTIES.forEach(difficulty => {
+    it(`should generate a valid ${difficulty} puzzle with a unique planted solution`, () => {
+      const puzzle = generatePuzzle({ difficulty, gridWidth: 6, gridHeight: 5, seed: 7 });
+      expect(puzzle).not.toBeNull();
+
+      // Round-trips through the shared validator, planted solution included
+      const parsed = parsePuzzleContent({
+        grid_width: puzzle!.grid_width,
+        grid_height: puzzle!.grid_height,
+        board_data: JSON.stringify(puzzle!.board_data),
+        dominoes_data: JSON.stringify(puzzle!.dominoes_data),
+        conditions_data: JSON.stringify(puzzle!.conditions_data),
+        solution_data: JSON.stringify(puzzle!.solution_data)
+      });
+      expect(parsed.success).toBe(true);
+
+      const result = findSolutions(puzzle!);
+      expect(result.search_complete).toBe(true);
+      expect(result.solution_count).toEqual(1);
+
+      // The only solution covers exactly the planted cells with the planted values
+      const valuesOf = (placement: typeof result.solutions[number]['placement']) => {
+        const values = new Map<string, number>();
+        placement.forEach(({ domino_id, position }) => {
+          const domino = puzzle!.dominoes_data.dominoes.find(d => d.id === domino_id)!;
+          position.forEach(([row, col], half) => values.set(`${row}-${col}`, domino.values[half]));
+        });
+        return values;
+      };
+      expect(valuesOf(result.solution!.placement)).toEqual(valuesOf(puzzle!.solution_data!.placement));
+    });
+  });
+
+  it('should cover every region cell with the planted dominoes', () => {
+    const puzzle = generatePuzzle({ difficulty: 'Hard', gridWidth: 3, gridHeight: 3, seed: 3 })!;
+
+    const regionCells = puzzle.board_data.regions.flatMap(region => region.cells.map(([r, c]) => `${r}-${c}`)).sort();
+    const plantedCells = puzzle.solution_data!.placement.flatMap(p => p.position.map(([r, c]) => `${r}-${c}`)).sort();
+
+    expect(regionCells).toEqual(plantedCells);
+    expect(puzzle.dominoes_data.dominoes).toHaveLength(puzzle.solution_data!.placement.length);
+  });
+
+  it('should cut every cell outside the planted tiling out of the board', () => {
+    const puzzle = generatePuzzle({ difficulty: 'Easy', gridWidth: 5, gridHeight: 4, seed: 11 })!;
+    const regionCellCount = puzzle.board_data.regions.reduce((count, region) => count + region.cells.length, 0);
+
+    expect(puzzle.board_data.voids.length).toEqual(5 * 4 - regionCellCount);
+  });
+
+  it('should use larger pip values for harder puzzles', () => {
+    const maxPip = (difficulty: DifficultyLevel) => Math.max(...[1, 2, 3, 4, 5].flatMap(seed =>
+      generatePuzzle({ difficulty, gridWidth: 6, gridHeight: 6, seed })!.dominoes_data.dominoes.flatMap(d => d.values)));
+
+    expect(maxPip('Easy')).toBeLessThanOrEqual(6);
+    expect(maxPip('Hard')).toBeGreaterThan(6);
+  });
+});
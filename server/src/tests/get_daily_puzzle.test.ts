@@ -64,6 +64,7 @@ describe('getDailyPuzzle', () => {
     expect(result!.is_daily_puzzle).toBe(true);
     expect(result!.is_published).toBe(true);
     expect(result!.daily_puzzle_date).toEqual(testDate);
+    expect(result).not.toHaveProperty('solution_data');
     expect(result!.created_at).toBeInstanceOf(Date);
     expect(result!.updated_at).toBeInstanceOf(Date);
   });
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzlesTable } from '../db/schema';
+import { getDailySchedule } from '../handlers/get_daily_schedule';
+
+const testPuzzle = {
+  difficulty_level: 'Hard' as const,
+  grid_width: 4,
+  grid_height: 4,
+  board_data: '{"regions": []}',
+  dominoes_data: '{"dominoes": []}',
+  conditions_data: '{"conditions": []}',
+  is_published: true
+};
+
+describe('getDailySchedule', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list scheduled puzzles from the given day on, earliest first', async () => {
+    await db.insert(puzzlesTable)
+      .values([
+        { ...testPuzzle, title: 'Later', is_daily_puzzle: true, daily_puzzle_date: '2024-05-03' },
+        { ...testPuzzle, title: 'Past', is_daily_puzzle: true, daily_puzzle_date: '2024-04-30' },
+        { ...testPuzzle, title: 'Sooner', is_daily_puzzle: true, daily_puzzle_date: '2024-05-01' },
+        { ...testPuzzle, title: 'Unscheduled' }
+      ])
+      .execute();
+
+    const schedule = await getDailySchedule(new Date('2024-05-01'));
+
+    expect(schedule.map(puzzle => puzzle.title)).toEqual(['Sooner', 'Later']);
+    expect(schedule[0].daily_puzzle_date).toEqual(new Date('2024-05-01'));
+  });
+
+  it('should return an empty schedule when nothing is scheduled', async () => {
+    expect(await getDailySchedule(new Date('2024-05-01'))).toEqual([]);
+  });
+});
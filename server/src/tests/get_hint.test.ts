@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzlesTable, puzzleAttemptsTable, usersTable } from '../db/schema';
+import { getHint } from '../handlers/get_hint';
+import { eq } from 'drizzle-orm';
+
+const emptyBoard = '{"placements": []}';
+const solvedBoard = '{"placements": [{"domino_id": 1, "position": [[0,0], [0,1]]}]}';
+
+// Single solution: [1, 2] across the top-left corner
+const createTestPuzzle = async (): Promise<number> => {
+  const result = await db.insert(puzzlesTable)
+    .values({
+      title: 'Hint Puzzle',
+      difficulty_level: 'Easy',
+      grid_width: 3,
+      grid_height: 3,
+      board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0]]}, {"id": 2, "color": "blue", "cells": [[0,1]]}]}',
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [1, 2]}]}',
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "less_than", "target": 2}, {"region_id": 2, "type": "greater_than", "target": 1}]}',
+      is_published: true
+    })
+    .returning()
+    .execute();
+
+  return result[0].id;
+};
+
+const createTestAttempt = async (puzzleId: number, isCompleted = false) => {
+  const player = await db.insert(usersTable)
+    .values({ email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' })
+    .returning()
+    .execute();
+
+  const result = await db.insert(puzzleAttemptsTable)
+    .values({ user_id: player[0].id, puzzle_id: puzzleId, attempt_data: emptyBoard, is_completed: isCompleted })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('getHint', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a solver-computed hint', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+
+    const result = await getHint({ attempt_id: attempt.id, attempt_data: emptyBoard, level: 'placement' }, attempt.user_id!);
+
+    expect(result.hint).toEqual({ level: 'placement', placement: { domino_id: 1, position: [[0, 0], [0, 1]] } });
+    expect(result.hints_used).toEqual(1);
+  });
+
+  it('should count every hint on the attempt', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+
+    await getHint({ attempt_id: attempt.id, attempt_data: emptyBoard, level: 'region' }, attempt.user_id!);
+    const result = await getHint({ attempt_id: attempt.id, attempt_data: emptyBoard, level: 'cell' }, attempt.user_id!);
+
+    expect(result.hint).toEqual({ level: 'cell', cell: [0, 0], value: 1 });
+    expect(result.hints_used).toEqual(2);
+
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .execute();
+    expect(attempts[0].hints_used).toEqual(2);
+  });
+
+  it('should treat unreadable attempt data as an empty board', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+
+    const result = await getHint({ attempt_id: attempt.id, attempt_data: '{"progress": "initial"}', level: 'region' }, attempt.user_id!);
+
+    expect(result.hint).toEqual({ level: 'region', region_id: 1 });
+  });
+
+  it('should not count a hint for a solved board', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+
+    await expect(getHint({ attempt_id: attempt.id, attempt_data: solvedBoard, level: 'cell' }, attempt.user_id!))
+      .rejects
+      .toThrow(/no hint/i);
+
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .execute();
+    expect(attempts[0].hints_used).toEqual(0);
+  });
+
+  it('should refuse hints for completed attempts', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle(), true);
+
+    await expect(getHint({ attempt_id: attempt.id, attempt_data: emptyBoard, level: 'cell' }, attempt.user_id!))
+      .rejects
+      .toThrow(/already completed/i);
+  });
+
+  it('should refuse hints in ranked play', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+    await db.update(puzzleAttemptsTable)
+      .set({ mode: 'ranked' })
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .execute();
+
+    await expect(getHint({ attempt_id: attempt.id, attempt_data: emptyBoard, level: 'cell' }, attempt.user_id!))
+      .rejects
+      .toThrow(/not allowed in ranked play/i);
+  });
+
+  it('should refuse hints on attempts of other players', async () => {
+    const attempt = await createTestAttempt(await createTestPuzzle());
+
+    await expect(getHint({ attempt_id: attempt.id, attempt_data: emptyBoard, level: 'cell' }, attempt.user_id! + 1))
+      .rejects
+      .toThrow(/another player/i);
+  });
+
+  it('should throw error for non-existent attempt', async () => {
+    await expect(getHint({ attempt_id: 99999, attempt_data: emptyBoard, level: 'cell' }, 1))
+      .rejects
+      .toThrow(/Puzzle attempt with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzleAttemptsTable, puzzlesTable, usersTable } from '../db/schema';
+import { getOrCreateActiveAttempt } from '../handlers/get_or_create_active_attempt';
+import { eq, sql } from 'drizzle-orm';
+
+const createTestUser = async (email = 'player@example.com'): Promise<number> => {
+  const result = await db.insert(usersTable)
+    .values({ email, display_name: 'Player', auth_provider: 'email', auth_provider_id: email })
+    .returning()
+    .execute();
+  return result[0].id;
+};
+
+const createTestPuzzle = async (isPublished = true, creatorId: number | null = null): Promise<number> => {
+  const result = await db.insert(puzzlesTable)
+    .values({
+      title: 'Test Puzzle',
+      creator_id: creatorId,
+      difficulty_level: 'Easy',
+      grid_width: 4,
+      grid_height: 4,
+      board_data: '{"regions": []}',
+      dominoes_data: '{"dominoes": []}',
+      conditions_data: '{"conditions": []}',
+      is_published: isPublished
+    })
+    .returning()
+    .execute();
+  return result[0].id;
+};
+
+describe('getOrCreateActiveAttempt', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should start a new attempt when there is none', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+
+    const result = await getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{"placements": []}' });
+
+    expect(result.user_id).toEqual(userId);
+    expect(result.puzzle_id).toEqual(puzzleId);
+    expect(result.attempt_data).toEqual('{"placements": []}');
+    expect(result.is_completed).toBe(false);
+    expect(result.abandoned_at).toBeNull();
+  });
+
+  it('should resume the latest incomplete attempt', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    await db.insert(puzzleAttemptsTable)
+      .values({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{"progress": "older"}', started_at: sql`now() - interval '1 hour'` })
+      .execute();
+    const latest = await db.insert(puzzleAttemptsTable)
+      .values({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{"progress": "latest"}' })
+      .returning()
+      .execute();
+
+    const result = await getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{"placements": []}' });
+
+    expect(result.id).toEqual(latest[0].id);
+    expect(result.attempt_data).toEqual('{"progress": "latest"}');
+
+    const attempts = await db.select().from(puzzleAttemptsTable).execute();
+    expect(attempts).toHaveLength(2);
+  });
+
+  it('should skip completed and restarted attempts', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    await db.insert(puzzleAttemptsTable)
+      .values([
+        { user_id: userId, puzzle_id: puzzleId, attempt_data: '{}', is_completed: true, completion_time: 90, completed_at: new Date() },
+        { user_id: userId, puzzle_id: puzzleId, attempt_data: '{}', abandoned_at: new Date() }
+      ])
+      .execute();
+
+    const result = await getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{"placements": []}' });
+
+    expect(result.attempt_data).toEqual('{"placements": []}');
+    const attempts = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.user_id, userId))
+      .execute();
+    expect(attempts).toHaveLength(3);
+  });
+
+  it('should not resume attempts of other users or puzzles', async () => {
+    const userId = await createTestUser();
+    const otherUserId = await createTestUser('other@example.com');
+    const puzzleId = await createTestPuzzle();
+    const otherPuzzleId = await createTestPuzzle();
+    await db.insert(puzzleAttemptsTable)
+      .values([
+        { user_id: otherUserId, puzzle_id: puzzleId, attempt_data: '{}' },
+        { user_id: userId, puzzle_id: otherPuzzleId, attempt_data: '{}' }
+      ])
+      .execute();
+
+    const result = await getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{"placements": []}' });
+
+    expect(result.user_id).toEqual(userId);
+    expect(result.puzzle_id).toEqual(puzzleId);
+    expect(result.attempt_data).toEqual('{"placements": []}');
+  });
+
+  it('should only resume attempts in the chosen mode', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    const practice = await getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{}' });
+
+    const ranked = await getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{}', mode: 'ranked' });
+    const resumed = await getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{}', mode: 'ranked' });
+
+    expect(practice.mode).toEqual('practice');
+    expect(ranked.mode).toEqual('ranked');
+    expect(ranked.id).not.toEqual(practice.id);
+    expect(resumed.id).toEqual(ranked.id);
+  });
+
+  it('should not start a second ranked attempt once one is finished', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle();
+    await db.insert(puzzleAttemptsTable)
+      .values({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{}', mode: 'ranked', is_completed: true, completion_time: 90, completed_at: new Date() })
+      .execute();
+
+    await expect(getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{}', mode: 'ranked' }))
+      .rejects
+      .toThrow(/already been played in ranked mode/i);
+
+    const practice = await getOrCreateActiveAttempt({ user_id: userId, puzzle_id: puzzleId, attempt_data: '{}', mode: 'practice' });
+    expect(practice.mode).toEqual('practice');
+  });
+
+  it('should keep other players out of drafts', async () => {
+    const creatorId = await createTestUser('creator@example.com');
+    const playerId = await createTestUser();
+    const puzzleId = await createTestPuzzle(false, creatorId);
+
+    const own = await getOrCreateActiveAttempt({ user_id: creatorId, puzzle_id: puzzleId, attempt_data: '{}' });
+    expect(own.user_id).toEqual(creatorId);
+
+    await expect(getOrCreateActiveAttempt({ user_id: playerId, puzzle_id: puzzleId, attempt_data: '{}' }))
+      .rejects
+      .toThrow(/not been published/i);
+  });
+});
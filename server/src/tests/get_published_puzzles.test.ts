@@ -85,6 +85,7 @@ describe('getPublishedPuzzles', () => {
 
     expect(result).toHaveLength(2);
     expect(result.every(puzzle => puzzle.is_published)).toBe(true);
+    result.forEach(puzzle => expect(puzzle).not.toHaveProperty('solution_data'));
     expect(result.map(p => p.title)).toContain('Published Puzzle 1');
     expect(result.map(p => p.title)).toContain('Published Puzzle 2');
     expect(result.map(p => p.title)).not.toContain('Unpublished Puzzle');
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzleAttemptsTable, puzzlesTable, usersTable } from '../db/schema';
+import { getPuzzleAttemptById } from '../handlers/get_puzzle_attempt_by_id';
+
+describe('getPuzzleAttemptById', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the attempt with its recorded moves', async () => {
+    const user = await db.insert(usersTable)
+      .values({ email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' })
+      .returning()
+      .execute();
+    const puzzle = await db.insert(puzzlesTable)
+      .values({
+        title: 'Test Puzzle',
+        difficulty_level: 'Easy',
+        grid_width: 4,
+        grid_height: 4,
+        board_data: '{"regions": []}',
+        dominoes_data: '{"dominoes": []}',
+        conditions_data: '{"conditions": []}',
+        is_published: true
+      })
+      .returning()
+      .execute();
+    const attemptData = '{"replay": [{"at": 1200, "type": "move", "move": {"type": "flip", "domino_id": 1}}]}';
+    const attempt = await db.insert(puzzleAttemptsTable)
+      .values({ user_id: user[0].id, puzzle_id: puzzle[0].id, attempt_data: attemptData })
+      .returning()
+      .execute();
+
+    const result = await getPuzzleAttemptById(attempt[0].id, user[0].id);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(attempt[0].id);
+    expect(result!.user_id).toEqual(user[0].id);
+    expect(result!.puzzle_id).toEqual(puzzle[0].id);
+    expect(result!.attempt_data).toEqual(attemptData);
+    expect(result!.started_at).toBeInstanceOf(Date);
+  });
+
+  it('should only show an unfinished attempt to its player', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' },
+        { email: 'other@example.com', display_name: 'Other', auth_provider: 'email', auth_provider_id: 'other' }
+      ])
+      .returning()
+      .execute();
+    const [player, other] = users;
+    const attempts = await db.insert(puzzleAttemptsTable)
+      .values([
+        { user_id: player.id, puzzle_id: 1, attempt_data: '{"replay": []}' },
+        { user_id: null, puzzle_id: 1, attempt_data: '{"replay": []}' },
+        { user_id: player.id, puzzle_id: 1, attempt_data: '{"replay": []}', is_completed: true, completion_time: 60, completed_at: new Date() }
+      ])
+      .returning()
+      .execute();
+    const [unfinished, guestAttempt, finished] = attempts;
+
+    expect(await getPuzzleAttemptById(unfinished.id, player.id)).not.toBeNull();
+    expect(await getPuzzleAttemptById(unfinished.id, other.id)).toBeNull();
+    expect(await getPuzzleAttemptById(unfinished.id)).toBeNull();
+    expect(await getPuzzleAttemptById(guestAttempt.id)).toBeNull();
+
+    expect((await getPuzzleAttemptById(finished.id, other.id))?.id).toEqual(finished.id);
+    expect((await getPuzzleAttemptById(finished.id))?.id).toEqual(finished.id);
+  });
+
+  it('should return null for a missing attempt', async () => {
+    expect(await getPuzzleAttemptById(99999)).toBeNull();
+  });
+});
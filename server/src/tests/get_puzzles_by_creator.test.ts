@@ -107,6 +107,7 @@ describe('getPuzzlesByCreator', () => {
     expect(result[1].creator_id).toEqual(userId);
     expect(result[0].difficulty_level).toEqual('Medium');
     expect(result[0].is_published).toBe(true);
+    expect(result[0]).not.toHaveProperty('solution_data');
     expect(result[0].created_at).toBeInstanceOf(Date);
   });
 
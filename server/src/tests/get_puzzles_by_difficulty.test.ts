@@ -146,6 +146,7 @@ describe('getPuzzlesByDifficulty', () => {
 
     const input: GetPuzzlesByDifficultyInput = {
       difficulty_level: 'Easy',
+      sort_by: 'newest',
       limit: 20,
       offset: 0
     };
@@ -230,6 +231,7 @@ describe('getPuzzlesByDifficulty', () => {
 
     const input: GetPuzzlesByDifficultyInput = {
       difficulty_level: 'Medium',
+      sort_by: 'newest',
       limit: 20,
       offset: 0
     };
@@ -278,6 +280,7 @@ describe('getPuzzlesByDifficulty', () => {
     // Test with limit = 3
     const firstPageInput: GetPuzzlesByDifficultyInput = {
       difficulty_level: 'Easy',
+      sort_by: 'newest',
       limit: 3,
       offset: 0
     };
@@ -288,6 +291,7 @@ describe('getPuzzlesByDifficulty', () => {
     // Test with offset = 3, limit = 3 (should get remaining 2)
     const secondPageInput: GetPuzzlesByDifficultyInput = {
       difficulty_level: 'Easy',
+      sort_by: 'newest',
       limit: 3,
       offset: 3
     };
@@ -305,6 +309,7 @@ describe('getPuzzlesByDifficulty', () => {
   it('should return empty array when no puzzles match difficulty', async () => {
     const input: GetPuzzlesByDifficultyInput = {
       difficulty_level: 'Hard',
+      sort_by: 'newest',
       limit: 20,
       offset: 0
     };
@@ -335,6 +340,7 @@ describe('getPuzzlesByDifficulty', () => {
 
     const input: GetPuzzlesByDifficultyInput = {
       difficulty_level: 'Easy',
+      sort_by: 'newest',
       limit: 20,
       offset: 0
     };
@@ -381,6 +387,7 @@ describe('getPuzzlesByDifficulty', () => {
     // Input with only difficulty_level (limit and offset should use defaults)
     const input: GetPuzzlesByDifficultyInput = {
       difficulty_level: 'Easy',
+      sort_by: 'newest',
       limit: 20,
       offset: 0
     };
@@ -426,6 +433,7 @@ describe('getPuzzlesByDifficulty', () => {
 
     const input: GetPuzzlesByDifficultyInput = {
       difficulty_level: 'Easy',
+      sort_by: 'newest',
       limit: 20,
       offset: 0
     };
@@ -446,11 +454,44 @@ describe('getPuzzlesByDifficulty', () => {
     expect(puzzle.board_data).toBeDefined();
     expect(puzzle.dominoes_data).toBeDefined();
     expect(puzzle.conditions_data).toBeDefined();
-    expect(puzzle.solution_data).toBeDefined();
+    expect(puzzle).not.toHaveProperty('solution_data');
     expect(puzzle.is_published).toEqual(true);
     expect(puzzle.is_daily_puzzle).toEqual(true);
     expect(puzzle.daily_puzzle_date).toBeInstanceOf(Date);
     expect(puzzle.created_at).toBeInstanceOf(Date);
     expect(puzzle.updated_at).toBeInstanceOf(Date);
   });
-});
\ No newline at end of file
+
+  it('should sort by difficulty rating with unrated puzzles last', async () => {
+    const ratings = [
+      { title: 'Unrated', difficulty_rating: null },
+      { title: 'Harder', difficulty_rating: 40.5 },
+      { title: 'Easiest', difficulty_rating: 12 }
+    ];
+    for (const { title, difficulty_rating } of ratings) {
+      await db.insert(puzzlesTable)
+        .values({
+          title,
+          difficulty_level: 'Easy',
+          grid_width: easyPuzzle.grid_width,
+          grid_height: easyPuzzle.grid_height,
+          board_data: easyPuzzle.board_data,
+          dominoes_data: easyPuzzle.dominoes_data,
+          conditions_data: easyPuzzle.conditions_data,
+          difficulty_rating,
+          suggested_difficulty: difficulty_rating === null ? null : 'Easy'
+        })
+        .execute();
+    }
+
+    const result = await getPuzzlesByDifficulty({
+      difficulty_level: 'Easy',
+      sort_by: 'rating',
+      limit: 20,
+      offset: 0
+    });
+
+    expect(result.map(puzzle => puzzle.title)).toEqual(['Easiest', 'Harder', 'Unrated']);
+    expect(result[0].difficulty_rating).toEqual(12);
+  });
+});
@@ -56,7 +56,7 @@ describe('getUserPuzzleAttempts', () => {
       .execute();
 
     // Get all attempts for the user
-    const results = await getUserPuzzleAttempts(user.id);
+    const results = await getUserPuzzleAttempts(user.id, undefined, user.id);
 
     expect(results).toHaveLength(2);
     expect(results[0].user_id).toEqual(user.id);
@@ -125,7 +125,7 @@ describe('getUserPuzzleAttempts', () => {
       .execute();
 
     // Get attempts for specific puzzle
-    const results = await getUserPuzzleAttempts(user.id, puzzle1.id);
+    const results = await getUserPuzzleAttempts(user.id, puzzle1.id, user.id);
 
     expect(results).toHaveLength(1);
     expect(results[0].user_id).toEqual(user.id);
@@ -150,7 +150,7 @@ describe('getUserPuzzleAttempts', () => {
       .execute();
     const user = userResult[0];
 
-    const results = await getUserPuzzleAttempts(user.id);
+    const results = await getUserPuzzleAttempts(user.id, undefined, user.id);
 
     expect(results).toHaveLength(0);
     expect(Array.isArray(results)).toBe(true);
@@ -205,7 +205,7 @@ describe('getUserPuzzleAttempts', () => {
       .execute();
 
     // Get attempts for the target puzzle (should be empty)
-    const results = await getUserPuzzleAttempts(user.id, targetPuzzle.id);
+    const results = await getUserPuzzleAttempts(user.id, targetPuzzle.id, user.id);
 
     expect(results).toHaveLength(0);
     expect(Array.isArray(results)).toBe(true);
@@ -265,7 +265,7 @@ describe('getUserPuzzleAttempts', () => {
       .execute();
 
     // Get attempts for user1 only
-    const results = await getUserPuzzleAttempts(user1.id);
+    const results = await getUserPuzzleAttempts(user1.id, undefined, user1.id);
 
     expect(results).toHaveLength(1);
     expect(results[0].user_id).toEqual(user1.id);
@@ -312,7 +312,7 @@ describe('getUserPuzzleAttempts', () => {
       })
       .execute();
 
-    const results = await getUserPuzzleAttempts(user.id);
+    const results = await getUserPuzzleAttempts(user.id, undefined, user.id);
 
     expect(results).toHaveLength(1);
     expect(results[0].is_completed).toBe(true);
@@ -365,10 +365,47 @@ describe('getUserPuzzleAttempts', () => {
       .execute();
 
     // Get attempts for the logged-in user - should not include guest attempts
-    const results = await getUserPuzzleAttempts(user.id);
+    const results = await getUserPuzzleAttempts(user.id, undefined, user.id);
 
     expect(results).toHaveLength(1);
     expect(results[0].user_id).toEqual(user.id);
     expect(results[0].attempt_data).toEqual('{"current_state": "user_attempt"}');
   });
-});
\ No newline at end of file
+
+  it('should only show other players the finished attempts', async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' },
+        { email: 'other@example.com', display_name: 'Other', auth_provider: 'email', auth_provider_id: 'other' }
+      ])
+      .returning()
+      .execute();
+    const [player, other] = users;
+    const puzzle = await db.insert(puzzlesTable)
+      .values({
+        title: 'Test Puzzle',
+        difficulty_level: 'Easy',
+        grid_width: 4,
+        grid_height: 4,
+        board_data: '{"regions": []}',
+        dominoes_data: '{"dominoes": []}',
+        conditions_data: '{"conditions": []}'
+      })
+      .returning()
+      .execute();
+    await db.insert(puzzleAttemptsTable)
+      .values([
+        { user_id: player.id, puzzle_id: puzzle[0].id, attempt_data: '{"current_state": "playing"}' },
+        { user_id: player.id, puzzle_id: puzzle[0].id, attempt_data: '{"current_state": "done"}', is_completed: true, completion_time: 60, completed_at: new Date() }
+      ])
+      .execute();
+
+    expect(await getUserPuzzleAttempts(player.id, undefined, player.id)).toHaveLength(2);
+
+    for (const viewerId of [other.id, null]) {
+      const results = await getUserPuzzleAttempts(player.id, undefined, viewerId);
+      expect(results).toHaveLength(1);
+      expect(results[0].is_completed).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test';
+import { findHint } from '../puzzle/hints';
+import { type PuzzleContent } from '../puzzle/content';
+import { type DominoPlacement } from '../schema';
+
+// 2×2 board with a unique solution:
+//   1 2
+//   3 4
+const content: PuzzleContent = {
+  grid_width: 2,
+  grid_height: 2,
+  board_data: {
+    regions: [
+      { id: 1, color: 'red', cells: [[0, 0]] },
+      { id: 2, color: 'blue', cells: [[1, 0]] },
+      { id: 3, color: 'green', cells: [[0, 1], [1, 1]] }
+    ],
+    voids: []
+  },
+  dominoes_data: { dominoes: [{ id: 1, values: [1, 2] }, { id: 2, values: [3, 4] }] },
+  conditions_data: {
+    conditions: [
+      { region_id: 1, type: 'less_than', target: 2 },
+      { region_id: 2, type: 'greater_than', target: 2 },
+      { region_id: 3, type: 'sum', target: 6 }
+    ]
+  },
+  solution_data: null
+};
+
+describe('findHint', () => {
+  it('should give the first missing placement on an empty board', () => {
+    expect(findHint(content, [], 'placement')).toEqual({
+      level: 'placement',
+      placement: { domino_id: 1, position: [[0, 0], [0, 1]] }
+    });
+    expect(findHint(content, [], 'cell')).toEqual({ level: 'cell', cell: [0, 0], value: 1 });
+    expect(findHint(content, [], 'region')).toEqual({ level: 'region', region_id: 1 });
+  });
+
+  it('should skip placements the player already has right', () => {
+    const placements: DominoPlacement[] = [{ domino_id: 1, position: [[0, 0], [0, 1]] }];
+
+    expect(findHint(content, placements, 'placement')).toEqual({
+      level: 'placement',
+      placement: { domino_id: 2, position: [[1, 0], [1, 1]] }
+    });
+  });
+
+  it('should target cells the player got wrong first', () => {
+    // Domino 2 upside down on the bottom row breaks region 2
+    const placements: DominoPlacement[] = [{ domino_id: 2, position: [[1, 1], [1, 0]] }];
+
+    expect(findHint(content, placements, 'placement')).toEqual({
+      level: 'placement',
+      placement: { domino_id: 2, position: [[1, 0], [1, 1]] }
+    });
+    expect(findHint(content, placements, 'cell')).toEqual({ level: 'cell', cell: [1, 0], value: 3 });
+    expect(findHint(content, placements, 'region')).toEqual({ level: 'region', region_id: 2 });
+  });
+
+  it('should give no hint for a solved board', () => {
+    expect(findHint(content, [
+      { domino_id: 1, position: [[0, 0], [0, 1]] },
+      { domino_id: 2, position: [[1, 0], [1, 1]] }
+    ], 'cell')).toBeNull();
+  });
+
+  it('should give no hint when the puzzle has no solution', () => {
+    const unsolvable: PuzzleContent = {
+      ...content,
+      conditions_data: { conditions: [{ region_id: 3, type: 'sum', target: 20 }] }
+    };
+
+    expect(findHint(unsolvable, [], 'placement')).toBeNull();
+  });
+});
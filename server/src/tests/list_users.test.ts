@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { listUsers } from '../handlers/list_users';
+import { type UserRole } from '../schema';
+
+const createTestUser = async (name: string, role: UserRole = 'player') => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: `${name}@example.com`,
+      display_name: name,
+      auth_provider: 'email',
+      auth_provider_id: `${name}@example.com`,
+      password_hash: 'scrypt$not-a-real-hash',
+      role
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('listUsers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list users newest first without their password hashes', async () => {
+    const first = await createTestUser('first');
+    const second = await createTestUser('second', 'admin');
+
+    const users = await listUsers({ limit: 50, offset: 0 });
+
+    expect(users.map(user => user.id)).toEqual([second.id, first.id]);
+    expect(users[0].role).toEqual('admin');
+    expect(users[0]).not.toHaveProperty('password_hash');
+  });
+
+  it('should filter by role', async () => {
+    await createTestUser('player');
+    const moderator = await createTestUser('moderator', 'moderator');
+
+    const users = await listUsers({ role: 'moderator', limit: 50, offset: 0 });
+
+    expect(users).toHaveLength(1);
+    expect(users[0].id).toEqual(moderator.id);
+  });
+
+  it('should page through users', async () => {
+    for (const name of ['a', 'b', 'c']) {
+      await createTestUser(name);
+    }
+
+    const firstPage = await listUsers({ limit: 2, offset: 0 });
+    const secondPage = await listUsers({ limit: 2, offset: 2 });
+
+    expect(firstPage).toHaveLength(2);
+    expect(secondPage).toHaveLength(1);
+    expect(secondPage[0].display_name).toEqual('a');
+  });
+});
@@ -0,0 +1,189 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startMockOidcIssuer, type MockIdentity, type MockOidcIssuer } from '../helpers/oidc';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { startOAuthSignIn } from '../handlers/start_oauth_sign_in';
+import { completeOAuthSignIn } from '../handlers/complete_oauth_sign_in';
+import { signUp } from '../handlers/sign_up';
+import { resolveClientIp, resolveSessionUser } from '../auth/context';
+import { loadOidcProviderConfig, OidcProvider, pkceChallenge, randomToken, registerOidcProvider } from '../auth/oidc';
+
+const identity: MockIdentity = { sub: 'google-user-1', email: 'player@example.com', email_verified: true, name: 'Player' };
+
+let issuer: MockOidcIssuer;
+
+// Each test signs in from its own address, so the tests don't use up each other's limit
+let clientIp: string;
+let testCount = 0;
+
+// Runs the whole redirect dance against the mock issuer
+const signInAs = async (who: MockIdentity) => {
+  const { authorization_url } = await startOAuthSignIn({ provider: 'google' }, clientIp);
+  const code = issuer.authorize(authorization_url, who);
+  return completeOAuthSignIn({ state: new URL(authorization_url).searchParams.get('state')!, code });
+};
+
+describe('OAuth sign-in', () => {
+  beforeAll(() => {
+    issuer = startMockOidcIssuer();
+    registerOidcProvider('google', issuer.config);
+    registerOidcProvider('facebook', null);
+  });
+  afterAll(() => {
+    issuer.stop();
+  });
+  beforeEach(async () => {
+    clientIp = `203.0.113.${++testCount}`;
+    await createDB();
+  });
+  afterEach(resetDB);
+
+  it('should send the browser to the provider with PKCE', async () => {
+    const { authorization_url } = await startOAuthSignIn({ provider: 'google' }, clientIp);
+
+    const url = new URL(authorization_url);
+    expect(url.origin).toEqual(issuer.issuer);
+    expect(url.searchParams.get('client_id')).toEqual(issuer.config.clientId);
+    expect(url.searchParams.get('redirect_uri')).toEqual(issuer.config.redirectUri);
+    expect(url.searchParams.get('scope')).toEqual('openid email profile');
+    expect(url.searchParams.get('code_challenge_method')).toEqual('S256');
+    expect(url.searchParams.get('code_challenge')).toBeTruthy();
+    expect(url.searchParams.get('state')).toBeTruthy();
+    expect(url.searchParams.get('nonce')).toBeTruthy();
+  });
+
+  it('should create an account on first sign-in and log in', async () => {
+    const session = await signInAs(identity);
+
+    expect(session.user.email).toEqual('player@example.com');
+    expect(session.user.display_name).toEqual('Player');
+    expect(session.user.auth_provider).toEqual('google');
+    expect(session.user.auth_provider_id).toEqual('google-user-1');
+    const resolved = await resolveSessionUser(`Bearer ${session.token}`);
+    expect(resolved?.id).toEqual(session.user.id);
+  });
+
+  it('should find the same account on later sign-ins', async () => {
+    const first = await signInAs(identity);
+    const second = await signInAs({ ...identity, name: 'Renamed' });
+
+    expect(second.user.id).toEqual(first.user.id);
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(1);
+  });
+
+  it('should only accept each state once', async () => {
+    const { authorization_url } = await startOAuthSignIn({ provider: 'google' }, clientIp);
+    const state = new URL(authorization_url).searchParams.get('state')!;
+    await completeOAuthSignIn({ state, code: issuer.authorize(authorization_url, identity) });
+
+    await expect(completeOAuthSignIn({ state, code: issuer.authorize(authorization_url, identity) }))
+      .rejects.toThrow(/expired/i);
+  });
+
+  it('should refuse a state it never handed out', async () => {
+    await expect(completeOAuthSignIn({ state: 'made-up', code: 'made-up' })).rejects.toThrow(/expired/i);
+  });
+
+  it('should refuse a code the provider does not recognise', async () => {
+    const { authorization_url } = await startOAuthSignIn({ provider: 'google' }, clientIp);
+    const state = new URL(authorization_url).searchParams.get('state')!;
+
+    await expect(completeOAuthSignIn({ state, code: 'made-up' })).rejects.toThrow(/status 400/i);
+  });
+
+  it('should refuse ID tokens meant for another application', async () => {
+    await expect(signInAs({ ...identity, aud: 'someone-else' })).rejects.toThrow(/another application/i);
+  });
+
+  it('should refuse ID tokens from another issuer', async () => {
+    await expect(signInAs({ ...identity, iss: 'https://evil.example.com' })).rejects.toThrow(/another issuer/i);
+  });
+
+  it('should refuse expired ID tokens', async () => {
+    await expect(signInAs({ ...identity, exp: Math.floor(Date.now() / 1000) - 3600 })).rejects.toThrow(/expired/i);
+  });
+
+  it('should refuse ID tokens issued for another sign-in', async () => {
+    await expect(signInAs({ ...identity, nonce: 'replayed' })).rejects.toThrow(/another sign-in/i);
+  });
+
+  it('should refuse ID tokens whose claims were changed after signing', async () => {
+    const provider = new OidcProvider('google', issuer.config);
+    const codeVerifier = randomToken();
+    const authorizationUrl = await provider.authorizationUrl({ state: 'state', nonce: 'nonce', codeChallenge: pkceChallenge(codeVerifier) });
+    const idToken = await provider.redeemCode(issuer.authorize(authorizationUrl, identity), codeVerifier);
+    expect((await provider.verifyIdToken(idToken, 'nonce')).sub).toEqual('google-user-1');
+
+    const [header, payload, signature] = idToken.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, sub: 'google-admin' })).toString('base64url');
+
+    await expect(provider.verifyIdToken(`${header}.${forged}.${signature}`, 'nonce')).rejects.toThrow(/signature is invalid/i);
+  });
+
+  it('should refuse accounts without a verified email', async () => {
+    await expect(signInAs({ ...identity, email_verified: false })).rejects.toThrow(/verified email/i);
+    await expect(signInAs({ sub: 'google-user-2' })).rejects.toThrow(/verified email/i);
+  });
+
+  it('should not take over an email that already has an account', async () => {
+    await signUp({ email: 'player@example.com', display_name: 'Player', password: 'correct horse battery staple' }, clientIp);
+
+    await expect(signInAs(identity)).rejects.toThrow(/already exists/i);
+  });
+
+  it('should refuse providers that are not configured', async () => {
+    await expect(startOAuthSignIn({ provider: 'facebook' }, clientIp)).rejects.toThrow(/not available/i);
+  });
+
+  it('should limit how many sign-ins an address can start', async () => {
+    for (let i = 0; i < 10; i++) {
+      await startOAuthSignIn({ provider: 'google' }, clientIp);
+    }
+
+    await expect(startOAuthSignIn({ provider: 'google' }, clientIp)).rejects.toThrow(/too many sign-in attempts/i);
+    expect((await startOAuthSignIn({ provider: 'google' }, '198.51.100.1')).authorization_url).toBeTruthy();
+  });
+});
+
+describe('resolveClientIp', () => {
+  it('should use the address the request came from', () => {
+    expect(resolveClientIp('198.51.100.1', undefined)).toEqual('198.51.100.1');
+  });
+
+  it('should trust X-Real-IP only from the local proxy', () => {
+    expect(resolveClientIp('127.0.0.1', '198.51.100.1')).toEqual('198.51.100.1');
+    expect(resolveClientIp('::ffff:127.0.0.1', '198.51.100.1')).toEqual('198.51.100.1');
+    expect(resolveClientIp('198.51.100.2', '198.51.100.1')).toEqual('198.51.100.2');
+  });
+});
+
+describe('loadOidcProviderConfig', () => {
+  it('should turn providers without a client id off', () => {
+    expect(loadOidcProviderConfig('google', {})).toBeNull();
+  });
+
+  it('should use the built-in endpoints for the real provider', () => {
+    const config = loadOidcProviderConfig('facebook', { OAUTH_FACEBOOK_CLIENT_ID: 'app', OAUTH_FACEBOOK_CLIENT_SECRET: 'secret' });
+
+    expect(config?.issuer).toEqual('https://www.facebook.com');
+    expect(config?.clientSecret).toEqual('secret');
+    expect(config?.tokenEndpoint).toContain('graph.facebook.com');
+  });
+
+  it('should discover the endpoints of an overridden issuer', () => {
+    const config = loadOidcProviderConfig('facebook', {
+      OAUTH_FACEBOOK_CLIENT_ID: 'app',
+      OAUTH_FACEBOOK_ISSUER: 'http://localhost:9000',
+      OAUTH_REDIRECT_URI: 'http://localhost:3000/'
+    });
+
+    expect(config?.issuer).toEqual('http://localhost:9000');
+    expect(config?.redirectUri).toEqual('http://localhost:3000/');
+    expect(config?.authorizationEndpoint).toBeUndefined();
+    expect(config?.tokenEndpoint).toBeUndefined();
+    expect(config?.jwksUri).toBeUndefined();
+  });
+});
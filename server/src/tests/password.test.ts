@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'bun:test';
+import { hashPassword, verifyPassword } from '../auth/password';
+
+describe('password hashing', () => {
+  it('should verify the password a hash was made from', async () => {
+    const hash = await hashPassword('correct horse battery staple');
+
+    expect(hash).toStartWith('scrypt$');
+    expect(hash).not.toContain('correct horse');
+    expect(await verifyPassword('correct horse battery staple', hash)).toBe(true);
+    expect(await verifyPassword('correct horse battery stable', hash)).toBe(false);
+  });
+
+  it('should salt every hash', async () => {
+    expect(await hashPassword('same password')).not.toEqual(await hashPassword('same password'));
+  });
+
+  it('should reject hashes it does not understand', async () => {
+    expect(await verifyPassword('password', 'plain-text')).toBe(false);
+  });
+});
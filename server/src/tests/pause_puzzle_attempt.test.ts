@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzleAttemptsTable, puzzlesTable, usersTable } from '../db/schema';
+import { pausePuzzleAttempt } from '../handlers/pause_puzzle_attempt';
+import { eq, sql } from 'drizzle-orm';
+
+const createTestAttempt = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' })
+    .returning()
+    .execute();
+  const puzzle = await db.insert(puzzlesTable)
+    .values({
+      title: 'Test Puzzle',
+      difficulty_level: 'Easy',
+      grid_width: 4,
+      grid_height: 4,
+      board_data: '{"regions": []}',
+      dominoes_data: '{"dominoes": []}',
+      conditions_data: '{"conditions": []}',
+      is_published: true
+    })
+    .returning()
+    .execute();
+  const attempt = await db.insert(puzzleAttemptsTable)
+    .values({ user_id: user[0].id, puzzle_id: puzzle[0].id, attempt_data: '{"placements": []}' })
+    .returning()
+    .execute();
+  return attempt[0];
+};
+
+describe('pausePuzzleAttempt', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should stop the clock', async () => {
+    const attempt = await createTestAttempt();
+
+    const result = await pausePuzzleAttempt({ id: attempt.id }, attempt.user_id!);
+
+    expect(result.paused_at).toBeInstanceOf(Date);
+    expect(result.paused_ms).toEqual(0);
+
+    const saved = await db.select().from(puzzleAttemptsTable).where(eq(puzzleAttemptsTable.id, attempt.id)).execute();
+    expect(saved[0].paused_at).toBeInstanceOf(Date);
+  });
+
+  it('should pause ranked attempts too, since their time counts towards the trifecta', async () => {
+    const ranked = await createTestAttempt();
+    await db.update(puzzleAttemptsTable)
+      .set({ mode: 'ranked' })
+      .where(eq(puzzleAttemptsTable.id, ranked.id))
+      .execute();
+
+    const result = await pausePuzzleAttempt({ id: ranked.id }, ranked.user_id!);
+
+    expect(result.paused_at).toBeInstanceOf(Date);
+  });
+
+  it('should keep the original pause time when paused twice', async () => {
+    const attempt = await createTestAttempt();
+    await db.update(puzzleAttemptsTable)
+      .set({ paused_at: sql`now() - interval '1 minute'` })
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .execute();
+    const before = await db.select().from(puzzleAttemptsTable).where(eq(puzzleAttemptsTable.id, attempt.id)).execute();
+
+    const result = await pausePuzzleAttempt({ id: attempt.id }, attempt.user_id!);
+
+    expect(result.paused_at).toEqual(before[0].paused_at);
+  });
+
+  it('should refuse completed attempts', async () => {
+    const completed = await createTestAttempt();
+    await db.update(puzzleAttemptsTable)
+      .set({ is_completed: true, completion_time: 30, completed_at: new Date() })
+      .where(eq(puzzleAttemptsTable.id, completed.id))
+      .execute();
+    await expect(pausePuzzleAttempt({ id: completed.id }, completed.user_id!)).rejects.toThrow(/already completed/i);
+  });
+
+  it('should refuse restarted attempts', async () => {
+    const abandoned = await createTestAttempt();
+    await db.update(puzzleAttemptsTable)
+      .set({ abandoned_at: new Date() })
+      .where(eq(puzzleAttemptsTable.id, abandoned.id))
+      .execute();
+    await expect(pausePuzzleAttempt({ id: abandoned.id }, abandoned.user_id!)).rejects.toThrow(/restarted/i);
+  });
+
+  it('should refuse attempts of other players', async () => {
+    const attempt = await createTestAttempt();
+    await expect(pausePuzzleAttempt({ id: attempt.id }, attempt.user_id! + 1)).rejects.toThrow(/another player/i);
+  });
+
+  it('should throw error for non-existent attempt', async () => {
+    await expect(pausePuzzleAttempt({ id: 99999 }, 1)).rejects.toThrow(/attempt with id 99999 not found/i);
+  });
+});
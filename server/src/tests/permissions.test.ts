@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'bun:test';
+import { hasRole, canAuthorPuzzles, canManagePuzzle, canPlayPuzzle, canScheduleDailyPuzzles, canUnpublishPuzzles } from '../auth/permissions';
+import { type User, type UserRole } from '../schema';
+
+const userWithRole = (role: UserRole, id = 1): User => ({
+  id,
+  email: `${role}@example.com`,
+  display_name: role,
+  auth_provider: 'email',
+  auth_provider_id: `${role}@example.com`,
+  role,
+  created_at: new Date(),
+  updated_at: new Date()
+});
+
+describe('hasRole', () => {
+  it('should grant each role everything the roles below it can do', () => {
+    const moderator = userWithRole('moderator');
+
+    expect(hasRole(moderator, 'player')).toBe(true);
+    expect(hasRole(moderator, 'creator')).toBe(true);
+    expect(hasRole(moderator, 'moderator')).toBe(true);
+    expect(hasRole(moderator, 'admin')).toBe(false);
+  });
+
+  it('should only grant players the player role', () => {
+    const player = userWithRole('player');
+
+    expect(hasRole(player, 'player')).toBe(true);
+    expect(hasRole(player, 'creator')).toBe(false);
+  });
+});
+
+describe('puzzle permissions', () => {
+  it('should leave writing puzzles to creators and above', () => {
+    expect(canAuthorPuzzles(userWithRole('player'))).toBe(false);
+    expect(canAuthorPuzzles(userWithRole('creator'))).toBe(true);
+    expect(canAuthorPuzzles(userWithRole('admin'))).toBe(true);
+  });
+
+  it('should let creators manage only their own puzzles', () => {
+    const creator = userWithRole('creator', 7);
+
+    expect(canManagePuzzle(creator, { creator_id: 7 })).toBe(true);
+    expect(canManagePuzzle(creator, { creator_id: 8 })).toBe(false);
+    expect(canManagePuzzle(creator, { creator_id: null })).toBe(false);
+  });
+
+  it('should let admins manage and schedule any puzzle', () => {
+    const admin = userWithRole('admin');
+
+    expect(canManagePuzzle(admin, { creator_id: 8 })).toBe(true);
+    expect(canManagePuzzle(admin, { creator_id: null })).toBe(true);
+    expect(canScheduleDailyPuzzles(admin)).toBe(true);
+    expect(canScheduleDailyPuzzles(userWithRole('moderator'))).toBe(false);
+  });
+
+  it('should let moderators and admins unpublish puzzles', () => {
+    expect(canUnpublishPuzzles(userWithRole('admin'))).toBe(true);
+    expect(canUnpublishPuzzles(userWithRole('moderator'))).toBe(true);
+    expect(canUnpublishPuzzles(userWithRole('creator'))).toBe(false);
+    expect(canUnpublishPuzzles(userWithRole('player'))).toBe(false);
+  });
+
+  it('should only let the people who manage a draft play it', () => {
+    const draft = { creator_id: 7, is_published: false };
+
+    expect(canPlayPuzzle(userWithRole('creator', 7), draft)).toBe(true);
+    expect(canPlayPuzzle(userWithRole('admin'), draft)).toBe(true);
+    expect(canPlayPuzzle(userWithRole('player', 8), draft)).toBe(false);
+    expect(canPlayPuzzle(null, draft)).toBe(false);
+    expect(canPlayPuzzle(null, { ...draft, is_published: true })).toBe(true);
+  });
+});
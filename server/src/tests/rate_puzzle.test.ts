@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test';
+import { type RatePuzzleInput } from '../schema';
+import { ratePuzzle } from '../handlers/rate_puzzle';
+
+const testInput: RatePuzzleInput = {
+  grid_width: 3,
+  grid_height: 3,
+  board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0]]}, {"id": 2, "color": "blue", "cells": [[0,1]]}]}',
+  dominoes_data: '{"dominoes": [{"id": 1, "values": [5, 1]}]}',
+  conditions_data: '{"conditions": [{"region_id": 1, "type": "greater_than", "target": 4}, {"region_id": 2, "type": "less_than", "target": 2}]}'
+};
+
+// 10×10 board covered by one region whose sum is one more than the dominoes can give.
+// Nothing short of covering the whole board shows that, so the search runs out of time.
+const dominoes = Array.from({ length: 50 }, (_, i) => ({ id: i + 1, values: [i % 13, (i * 7) % 11] }));
+const dominoTotal = dominoes.reduce((total, { values: [a, b] }) => total + a + b, 0);
+const unsolvableInput = {
+  grid_width: 10,
+  grid_height: 10,
+  board_data: JSON.stringify({
+    regions: [{ id: 1, color: 'red', cells: Array.from({ length: 100 }, (_, i) => [Math.floor(i / 10), i % 10]) }]
+  }),
+  dominoes_data: JSON.stringify({ dominoes }),
+  conditions_data: JSON.stringify({ conditions: [{ region_id: 1, type: 'sum', target: dominoTotal + 1 }] })
+};
+
+describe('ratePuzzle', () => {
+  it('should suggest a difficulty for a puzzle', async () => {
+    const result = await ratePuzzle(testInput);
+
+    expect(result.rating).toBeGreaterThanOrEqual(0);
+    expect(result.rating).toBeLessThanOrEqual(100);
+    expect(result.suggested_difficulty).toEqual('Easy');
+  });
+
+  it('should reject puzzles without a solution', async () => {
+    await expect(ratePuzzle({
+      ...testInput,
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "greater_than", "target": 5}]}'
+    })).rejects.toThrow(/no solution/i);
+  });
+
+  it('should give up on puzzles that take too long to search', async () => {
+    const error = await ratePuzzle({ ...unsolvableInput }).catch(e => e);
+
+    expect(error.code).toEqual('BAD_REQUEST');
+    expect(error.message).toMatch(/too complex/i);
+    expect(error.cause.problem).toEqual('too_complex');
+  });
+
+  it('should reject malformed puzzle data', async () => {
+    await expect(ratePuzzle({ ...testInput, board_data: 'not json' }))
+      .rejects.toThrow(/invalid puzzle data/i);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzleAttemptsTable, puzzlesTable, usersTable } from '../db/schema';
+import { restartPuzzleAttempt } from '../handlers/restart_puzzle_attempt';
+import { getOrCreateActiveAttempt } from '../handlers/get_or_create_active_attempt';
+import { updatePuzzleAttempt } from '../handlers/update_puzzle_attempt';
+import { eq } from 'drizzle-orm';
+
+const createTestAttempt = async (values: Partial<typeof puzzleAttemptsTable.$inferInsert> = {}) => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' })
+    .returning()
+    .execute();
+  const puzzle = await db.insert(puzzlesTable)
+    .values({
+      title: 'Test Puzzle',
+      difficulty_level: 'Easy',
+      grid_width: 4,
+      grid_height: 4,
+      board_data: '{"regions": []}',
+      dominoes_data: '{"dominoes": []}',
+      conditions_data: '{"conditions": []}',
+      is_published: true
+    })
+    .returning()
+    .execute();
+  const attempt = await db.insert(puzzleAttemptsTable)
+    .values({ user_id: user[0].id, puzzle_id: puzzle[0].id, attempt_data: '{"progress": "halfway"}', hints_used: 2, ...values })
+    .returning()
+    .execute();
+  return attempt[0];
+};
+
+describe('restartPuzzleAttempt', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should start a fresh attempt and abandon the old one', async () => {
+    const attempt = await createTestAttempt();
+
+    const result = await restartPuzzleAttempt({ id: attempt.id, attempt_data: '{"placements": []}' }, attempt.user_id!);
+
+    expect(result.id).not.toEqual(attempt.id);
+    expect(result.user_id).toEqual(attempt.user_id);
+    expect(result.puzzle_id).toEqual(attempt.puzzle_id);
+    expect(result.attempt_data).toEqual('{"placements": []}');
+    expect(result.hints_used).toEqual(0);
+
+    const old = await db.select()
+      .from(puzzleAttemptsTable)
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .execute();
+    expect(old[0].abandoned_at).toBeInstanceOf(Date);
+    expect(old[0].attempt_data).toEqual('{"progress": "halfway"}');
+  });
+
+  it('should start the fresh attempt without mistakes', async () => {
+    const attempt = await createTestAttempt({ mistakes: 3 });
+
+    const result = await restartPuzzleAttempt({ id: attempt.id, attempt_data: '{"placements": []}' }, attempt.user_id!);
+
+    expect(result.mode).toEqual('practice');
+    expect(result.mistakes).toEqual(0);
+  });
+
+  it('should refuse to restart ranked attempts', async () => {
+    const attempt = await createTestAttempt({ mode: 'ranked' });
+
+    await expect(restartPuzzleAttempt({ id: attempt.id, attempt_data: '{"placements": []}' }, attempt.user_id!))
+      .rejects
+      .toThrow(/ranked/i);
+  });
+
+  it('should make the fresh attempt the one that is resumed', async () => {
+    const attempt = await createTestAttempt();
+    const fresh = await restartPuzzleAttempt({ id: attempt.id, attempt_data: '{"placements": []}' }, attempt.user_id!);
+
+    const resumed = await getOrCreateActiveAttempt({
+      user_id: attempt.user_id!,
+      puzzle_id: attempt.puzzle_id,
+      attempt_data: '{"placements": []}'
+    });
+
+    expect(resumed.id).toEqual(fresh.id);
+  });
+
+  it('should stop saving into the abandoned attempt', async () => {
+    const attempt = await createTestAttempt();
+    await restartPuzzleAttempt({ id: attempt.id, attempt_data: '{"placements": []}' }, attempt.user_id!);
+
+    await expect(updatePuzzleAttempt({ id: attempt.id, attempt_data: '{"placements": []}' }, attempt.user_id!))
+      .rejects
+      .toThrow(/restarted/i);
+  });
+
+  it('should refuse to restart completed or already restarted attempts', async () => {
+    const completed = await createTestAttempt({ is_completed: true, completion_time: 30, completed_at: new Date() });
+    await expect(restartPuzzleAttempt({ id: completed.id, attempt_data: '{}' }, completed.user_id!))
+      .rejects
+      .toThrow(/already completed/i);
+
+    await db.update(puzzleAttemptsTable)
+      .set({ is_completed: false, abandoned_at: new Date() })
+      .where(eq(puzzleAttemptsTable.id, completed.id))
+      .execute();
+    await expect(restartPuzzleAttempt({ id: completed.id, attempt_data: '{}' }, completed.user_id!))
+      .rejects
+      .toThrow(/restarted/i);
+  });
+
+  it('should throw error for non-existent attempt', async () => {
+    await expect(restartPuzzleAttempt({ id: 99999, attempt_data: '{}' }, 1))
+      .rejects
+      .toThrow(/Puzzle attempt with id 99999 not found/i);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzleAttemptsTable, puzzlesTable, usersTable } from '../db/schema';
+import { resumePuzzleAttempt } from '../handlers/resume_puzzle_attempt';
+import { eq, sql } from 'drizzle-orm';
+
+const createTestAttempt = async () => {
+  const user = await db.insert(usersTable)
+    .values({ email: 'player@example.com', display_name: 'Player', auth_provider: 'email', auth_provider_id: 'player' })
+    .returning()
+    .execute();
+  const puzzle = await db.insert(puzzlesTable)
+    .values({
+      title: 'Test Puzzle',
+      difficulty_level: 'Easy',
+      grid_width: 4,
+      grid_height: 4,
+      board_data: '{"regions": []}',
+      dominoes_data: '{"dominoes": []}',
+      conditions_data: '{"conditions": []}',
+      is_published: true
+    })
+    .returning()
+    .execute();
+  const attempt = await db.insert(puzzleAttemptsTable)
+    .values({ user_id: user[0].id, puzzle_id: puzzle[0].id, attempt_data: '{"placements": []}' })
+    .returning()
+    .execute();
+  return attempt[0];
+};
+
+describe('resumePuzzleAttempt', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add the paused time to the total', async () => {
+    const attempt = await createTestAttempt();
+    await db.update(puzzleAttemptsTable)
+      .set({ paused_at: sql`now() - interval '90 seconds'`, paused_ms: 5000 })
+      .where(eq(puzzleAttemptsTable.id, attempt.id))
+      .execute();
+
+    const result = await resumePuzzleAttempt({ id: attempt.id }, attempt.user_id!);
+
+    expect(result.paused_at).toBeNull();
+    expect(result.paused_ms).toBeGreaterThanOrEqual(95000);
+    expect(result.paused_ms).toBeLessThan(100000);
+  });
+
+  it('should leave a running attempt alone', async () => {
+    const attempt = await createTestAttempt();
+
+    const result = await resumePuzzleAttempt({ id: attempt.id }, attempt.user_id!);
+
+    expect(result.id).toEqual(attempt.id);
+    expect(result.paused_at).toBeNull();
+    expect(result.paused_ms).toEqual(0);
+  });
+
+  it('should refuse attempts of other players', async () => {
+    const attempt = await createTestAttempt();
+    await expect(resumePuzzleAttempt({ id: attempt.id }, attempt.user_id! + 1)).rejects.toThrow(/another player/i);
+  });
+
+  it('should throw error for non-existent attempt', async () => {
+    await expect(resumePuzzleAttempt({ id: 99999 }, 1)).rejects.toThrow(/attempt with id 99999 not found/i);
+  });
+});
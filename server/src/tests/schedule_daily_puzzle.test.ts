@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzlesTable } from '../db/schema';
+import { scheduleDailyPuzzle } from '../handlers/schedule_daily_puzzle';
+import { getDailyPuzzle } from '../handlers/get_daily_puzzle';
+import { eq } from 'drizzle-orm';
+
+const testPuzzle = {
+  title: 'Scheduled Puzzle',
+  difficulty_level: 'Medium' as const,
+  grid_width: 4,
+  grid_height: 4,
+  board_data: '{"regions": []}',
+  dominoes_data: '{"dominoes": []}',
+  conditions_data: '{"conditions": []}',
+  is_published: true
+};
+
+const createTestPuzzle = async (overrides: Partial<typeof puzzlesTable.$inferInsert> = {}) => {
+  const result = await db.insert(puzzlesTable)
+    .values({ ...testPuzzle, ...overrides })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('scheduleDailyPuzzle', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should make a published puzzle the daily puzzle for a date', async () => {
+    const puzzle = await createTestPuzzle();
+
+    const result = await scheduleDailyPuzzle({ puzzle_id: puzzle.id, date: new Date('2024-03-01') });
+
+    expect(result.is_daily_puzzle).toBe(true);
+    expect(result.daily_puzzle_date).toEqual(new Date('2024-03-01'));
+    const daily = await getDailyPuzzle(new Date('2024-03-01'));
+    expect(daily?.id).toEqual(puzzle.id);
+  });
+
+  it('should replace the puzzle already scheduled on that date', async () => {
+    const previous = await createTestPuzzle({ title: 'Previous', is_daily_puzzle: true, daily_puzzle_date: '2024-03-01' });
+    const puzzle = await createTestPuzzle();
+
+    await scheduleDailyPuzzle({ puzzle_id: puzzle.id, date: new Date('2024-03-01') });
+
+    const daily = await getDailyPuzzle(new Date('2024-03-01'));
+    expect(daily?.id).toEqual(puzzle.id);
+    const [unscheduled] = await db.select()
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, previous.id))
+      .execute();
+    expect(unscheduled.is_daily_puzzle).toBe(false);
+    expect(unscheduled.daily_puzzle_date).toBeNull();
+    expect(unscheduled.is_published).toBe(true);
+  });
+
+  it('should move a puzzle that was scheduled on another date', async () => {
+    const puzzle = await createTestPuzzle({ is_daily_puzzle: true, daily_puzzle_date: '2024-03-01' });
+
+    await scheduleDailyPuzzle({ puzzle_id: puzzle.id, date: new Date('2024-03-02') });
+
+    expect(await getDailyPuzzle(new Date('2024-03-01'))).toBeNull();
+    expect((await getDailyPuzzle(new Date('2024-03-02')))?.id).toEqual(puzzle.id);
+  });
+
+  it('should refuse unpublished puzzles', async () => {
+    const puzzle = await createTestPuzzle({ is_published: false });
+
+    await expect(scheduleDailyPuzzle({ puzzle_id: puzzle.id, date: new Date('2024-03-01') }))
+      .rejects.toThrow(/only published puzzles/i);
+  });
+
+  it('should throw for unknown puzzles', async () => {
+    await expect(scheduleDailyPuzzle({ puzzle_id: 999, date: new Date('2024-03-01') }))
+      .rejects.toThrow(/Puzzle with id 999 not found/i);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'bun:test';
+import { signSessionToken, verifySessionToken, loadSessionSecret, SESSION_TTL_MS } from '../auth/session';
+
+describe('session tokens', () => {
+  it('should verify a token back to the user it was issued to', () => {
+    const token = signSessionToken(42);
+
+    expect(verifySessionToken(token)).toEqual(42);
+  });
+
+  it('should reject tampered tokens', () => {
+    const [, signature] = signSessionToken(42).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ sub: 1, exp: Date.now() + SESSION_TTL_MS })).toString('base64url');
+
+    expect(verifySessionToken(`${forgedPayload}.${signature}`)).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    const issuedAt = Date.now() - SESSION_TTL_MS - 1;
+
+    expect(verifySessionToken(signSessionToken(42, issuedAt))).toBeNull();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(verifySessionToken('')).toBeNull();
+    expect(verifySessionToken('not-a-token')).toBeNull();
+    expect(verifySessionToken(`${signSessionToken(42)}.extra`)).toBeNull();
+  });
+
+  it('should refuse to run without SESSION_SECRET outside of tests', () => {
+    expect(loadSessionSecret({ SESSION_SECRET: 'configured' })).toEqual('configured');
+    expect(loadSessionSecret({ NODE_ENV: 'test' })).toHaveLength(64);
+    expect(() => loadSessionSecret({ NODE_ENV: 'production' })).toThrow(/SESSION_SECRET is not set/);
+    expect(() => loadSessionSecret({})).toThrow(/SESSION_SECRET is not set/);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { signInInputSchema } from '../schema';
+import { signIn, signInThrottle } from '../handlers/sign_in';
+import { signUp } from '../handlers/sign_up';
+import { resolveSessionUser } from '../auth/context';
+import { MAX_FAILED_SIGN_INS, MAX_SIGN_INS_PER_ADDRESS } from '../auth/throttle';
+
+const email = 'player@example.com';
+const password = 'correct horse battery staple';
+
+// Each test signs in from its own address, so the tests don't use up each other's limit
+let clientIp: string;
+let testCount = 0;
+
+describe('signIn', () => {
+  beforeEach(async () => {
+    clientIp = `203.0.113.${++testCount}`;
+    await createDB();
+    signInThrottle.reset(email);
+  });
+  afterEach(resetDB);
+
+  it('should issue a session that resolves to the user', async () => {
+    const { user } = await signUp({ email, display_name: 'Player', password }, clientIp);
+
+    const session = await signIn({ email, password }, clientIp);
+
+    expect(session.user.id).toEqual(user.id);
+    expect(session.user).not.toHaveProperty('password_hash');
+    const resolved = await resolveSessionUser(`Bearer ${session.token}`);
+    expect(resolved?.id).toEqual(user.id);
+    expect(resolved).not.toHaveProperty('password_hash');
+  });
+
+  it('should accept the email in any case', async () => {
+    const { user } = await signUp({ email, display_name: 'Player', password }, clientIp);
+
+    const session = await signIn(signInInputSchema.parse({ email: ' PLAYER@Example.com', password }), clientIp);
+
+    expect(session.user.id).toEqual(user.id);
+  });
+
+  it('should give the same answer for a wrong password and an unknown email', async () => {
+    await signUp({ email, display_name: 'Player', password }, clientIp);
+
+    await expect(signIn({ email, password: 'wrong password' }, clientIp)).rejects.toThrow(/incorrect email or password/i);
+    await expect(signIn({ email: 'nobody@example.com', password }, clientIp)).rejects.toThrow(/incorrect email or password/i);
+  });
+
+  it('should refuse accounts without a password', async () => {
+    await db.insert(usersTable)
+      .values({ email, display_name: 'Player', auth_provider: 'google', auth_provider_id: 'google-123' })
+      .execute();
+
+    await expect(signIn({ email, password }, clientIp)).rejects.toThrow(/incorrect email or password/i);
+  });
+
+  it('should lock the email out after repeated failures', async () => {
+    await signUp({ email, display_name: 'Player', password }, clientIp);
+
+    for (let i = 0; i < MAX_FAILED_SIGN_INS; i++) {
+      await expect(signIn({ email, password: 'wrong password' }, clientIp)).rejects.toThrow(/incorrect/i);
+    }
+
+    await expect(signIn({ email, password }, clientIp)).rejects.toThrow(/too many failed sign-in attempts/i);
+  });
+
+  it('should limit how many sign-ins an address can try across emails', async () => {
+    for (let i = 0; i < MAX_SIGN_INS_PER_ADDRESS; i++) {
+      await expect(signIn({ email: `player${i}@example.com`, password }, clientIp)).rejects.toThrow(/incorrect/i);
+    }
+
+    await expect(signIn({ email: 'one-more@example.com', password }, clientIp))
+      .rejects
+      .toThrow(/too many sign-in attempts from this address/i);
+  });
+});
+
+describe('resolveSessionUser', () => {
+  beforeEach(async () => {
+    clientIp = `203.0.113.${++testCount}`;
+    await createDB();
+  });
+  afterEach(resetDB);
+
+  it('should treat missing or invalid credentials as a guest', async () => {
+    await signUp({ email, display_name: 'Player', password }, clientIp);
+
+    expect(await resolveSessionUser(undefined)).toBeNull();
+    expect(await resolveSessionUser('Bearer not-a-token')).toBeNull();
+    expect(await resolveSessionUser('Basic cGxheWVyOnB3')).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { signUpInputSchema } from '../schema';
+import { signUp } from '../handlers/sign_up';
+import { verifyPassword } from '../auth/password';
+import { verifySessionToken } from '../auth/session';
+import { MAX_SIGN_UPS_PER_ADDRESS } from '../auth/throttle';
+
+const input = { email: 'player@example.com', display_name: 'Player', password: 'correct horse battery staple' };
+
+// Each test signs up from its own address, so the tests don't use up each other's limit
+let clientIp: string;
+let testCount = 0;
+
+describe('signUp', () => {
+  beforeEach(async () => {
+    clientIp = `203.0.113.${++testCount}`;
+    await createDB();
+  });
+  afterEach(resetDB);
+
+  it('should create an email account and log it in', async () => {
+    const session = await signUp(input, clientIp);
+
+    expect(session.user.email).toEqual('player@example.com');
+    expect(session.user.auth_provider).toEqual('email');
+    expect(session.user).not.toHaveProperty('password_hash');
+    expect(verifySessionToken(session.token)).toEqual(session.user.id);
+  });
+
+  it('should store only a hash of the password', async () => {
+    await signUp(input, clientIp);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users[0].password_hash).not.toContain(input.password);
+    expect(await verifyPassword(input.password, users[0].password_hash!)).toBe(true);
+  });
+
+  it('should refuse an email that is already registered', async () => {
+    await signUp(input, clientIp);
+
+    await expect(signUp({ ...input, display_name: 'Impostor' }, clientIp))
+      .rejects
+      .toThrow(/already exists/i);
+  });
+
+  it('should treat emails that differ only in case or spacing as the same', async () => {
+    const session = await signUp(signUpInputSchema.parse({ ...input, email: ' Player@Example.COM ' }), clientIp);
+    expect(session.user.email).toEqual('player@example.com');
+
+    const error = await signUp(signUpInputSchema.parse({ ...input, email: 'PLAYER@example.com' }), clientIp).catch(e => e);
+    expect(error.code).toEqual('CONFLICT');
+  });
+
+  it('should refuse the second of two simultaneous sign-ups with the same email', async () => {
+    const results = await Promise.allSettled([signUp(input, clientIp), signUp(input, clientIp)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason.code).toEqual('CONFLICT');
+  });
+
+  it('should limit how many sign-ups an address can make', async () => {
+    for (let i = 0; i < MAX_SIGN_UPS_PER_ADDRESS; i++) {
+      await signUp({ ...input, email: `player${i}@example.com` }, clientIp);
+    }
+
+    const error = await signUp({ ...input, email: 'one-more@example.com' }, clientIp).catch(e => e);
+    expect(error.code).toEqual('TOO_MANY_REQUESTS');
+    expect((await signUp({ ...input, email: 'one-more@example.com' }, '198.51.100.1')).user.email).toEqual('one-more@example.com');
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, expect, it } from 'bun:test';
+import { findSolutions } from '../puzzle/solver';
+import { type PuzzleContent } from '../puzzle/content';
+import { type Cell, type Region, type Domino, type RegionCondition } from '../schema';
+
+const buildContent = (
+  gridWidth: number,
+  gridHeight: number,
+  regions: Region[],
+  dominoes: Domino[],
+  conditions: RegionCondition[],
+  voids: Cell[] = []
+): PuzzleContent => ({
+  grid_width: gridWidth,
+  grid_height: gridHeight,
+  board_data: { regions, voids },
+  dominoes_data: { dominoes },
+  conditions_data: { conditions },
+  solution_data: null
+});
+
+// 2×2 board with a unique solution:
+//   1 2
+//   3 4
+const uniquePuzzle = buildContent(
+  2, 2,
+  [
+    { id: 1, color: 'red', cells: [[0, 0]] },
+    { id: 2, color: 'blue', cells: [[1, 0]] },
+    { id: 3, color: 'green', cells: [[0, 1], [1, 1]] }
+  ],
+  [
+    { id: 1, values: [1, 2] },
+    { id: 2, values: [3, 4] }
+  ],
+  [
+    { region_id: 1, type: 'less_than', target: 2 },
+    { region_id: 2, type: 'greater_than', target: 2 },
+    { region_id: 3, type: 'sum', target: 6 }
+  ]
+);
+
+describe('findSolutions', () => {
+  it('should find the unique solution of a puzzle', () => {
+    const result = findSolutions(uniquePuzzle);
+
+    expect(result.solution_count).toEqual(1);
+    expect(result.count_capped).toBe(false);
+    expect(result.search_complete).toBe(true);
+    expect(result.solution?.placement).toEqual([
+      { domino_id: 1, position: [[0, 0], [0, 1]] },
+      { domino_id: 2, position: [[1, 0], [1, 1]] }
+    ]);
+  });
+
+  it('should count flipped placements as separate solutions', () => {
+    const content = buildContent(
+      3, 1,
+      [{ id: 1, color: 'red', cells: [[0, 0], [0, 1]] }],
+      [{ id: 1, values: [5, 1] }],
+      [{ region_id: 1, type: 'sum', target: 6 }]
+    );
+
+    const result = findSolutions(content);
+
+    expect(result.solution_count).toEqual(2);
+    expect(result.count_capped).toBe(true);
+  });
+
+  it('should find solutions that lay a domino with its second value first', () => {
+    // Only 2 over 1 and 4 over 3 fit:
+    //   2 4
+    //   1 3
+    const content = buildContent(
+      2, 2,
+      [
+        { id: 1, color: 'red', cells: [[0, 0]] },
+        { id: 2, color: 'green', cells: [[0, 1]] },
+        { id: 3, color: 'blue', cells: [[1, 0], [1, 1]] }
+      ],
+      [
+        { id: 1, values: [1, 2] },
+        { id: 2, values: [3, 4] }
+      ],
+      [
+        { region_id: 1, type: 'exactly', target: 2 },
+        { region_id: 2, type: 'exactly', target: 4 },
+        { region_id: 3, type: 'sum', target: 4 }
+      ]
+    );
+
+    const result = findSolutions(content);
+
+    expect(result.solution_count).toEqual(1);
+    expect(result.solution?.placement).toContainEqual({ domino_id: 1, position: [[1, 0], [0, 0]] });
+    expect(result.solution?.placement).toContainEqual({ domino_id: 2, position: [[1, 1], [0, 1]] });
+  });
+
+  it('should report unsolvable puzzles', () => {
+    const content = buildContent(
+      3, 1,
+      [{ id: 1, color: 'red', cells: [[0, 0], [0, 1]] }],
+      [{ id: 1, values: [5, 1] }],
+      [{ region_id: 1, type: 'sum', target: 7 }]
+    );
+
+    const result = findSolutions(content);
+
+    expect(result.solution).toBeNull();
+    expect(result.solution_count).toEqual(0);
+    expect(result.search_complete).toBe(true);
+    expect(result.stats.backtracks).toBeGreaterThan(0);
+  });
+
+  it('should require every region cell to be covered', () => {
+    const content = buildContent(
+      3, 1,
+      [{ id: 1, color: 'red', cells: [[0, 0], [0, 2]] }],
+      [{ id: 1, values: [2, 2] }],
+      [{ region_id: 1, type: 'equality' }]
+    );
+
+    expect(findSolutions(content).solution_count).toEqual(0);
+  });
+
+  it('should place leftover dominoes outside of regions', () => {
+    const content = buildContent(
+      4, 1,
+      [{ id: 1, color: 'red', cells: [[0, 0], [0, 1]] }],
+      [
+        { id: 1, values: [5, 1] },
+        { id: 2, values: [2, 2] }
+      ],
+      [{ region_id: 1, type: 'sum', target: 6 }]
+    );
+
+    const result = findSolutions(content, { maxSolutions: 10 });
+
+    expect(result.solution_count).toEqual(2);
+    expect(result.solution?.placement).toHaveLength(2);
+    expect(result.solution?.placement[1]).toEqual({ domino_id: 2, position: [[0, 2], [0, 3]] });
+  });
+
+  it('should never place dominoes on void cells', () => {
+    // Same as above, with the free cells cut out of the board
+    const content = buildContent(
+      4, 2,
+      [{ id: 1, color: 'red', cells: [[0, 0], [0, 1]] }],
+      [
+        { id: 1, values: [5, 1] },
+        { id: 2, values: [2, 2] }
+      ],
+      [{ region_id: 1, type: 'sum', target: 6 }],
+      [[0, 2], [1, 0], [1, 1], [1, 2], [1, 3]]
+    );
+
+    expect(findSolutions(content, { maxSolutions: 10 }).solution_count).toEqual(0);
+
+    // With a 2×2 playable corner left, the spare domino only fits on the bottom row
+    const corner = findSolutions({ ...content, board_data: { ...content.board_data, voids: [[0, 3], [1, 2], [1, 3]] } }, { maxSolutions: 10 });
+    expect(corner.solution_count).toEqual(2);
+    corner.solutions.forEach(solution => {
+      expect(solution.placement).toContainEqual({ domino_id: 2, position: [[1, 0], [1, 1]] });
+    });
+  });
+
+  it('should not count swapped identical dominoes twice', () => {
+    const content = buildContent(
+      4, 1,
+      [],
+      [
+        { id: 1, values: [1, 2] },
+        { id: 2, values: [1, 2] }
+      ],
+      []
+    );
+
+    // Two slots, each domino either way round
+    expect(findSolutions(content, { maxSolutions: 100 }).solution_count).toEqual(4);
+  });
+
+  it('should stop counting at the solution cap', () => {
+    const content = buildContent(
+      4, 2,
+      [{ id: 1, color: 'red', cells: [[0, 0], [0, 1], [0, 2], [0, 3], [1, 0], [1, 1], [1, 2], [1, 3]] }],
+      [
+        { id: 1, values: [1, 2] },
+        { id: 2, values: [3, 4] },
+        { id: 3, values: [5, 6] },
+        { id: 4, values: [0, 1] }
+      ],
+      []
+    );
+
+    const result = findSolutions(content, { maxSolutions: 5 });
+
+    expect(result.solution_count).toEqual(5);
+    expect(result.count_capped).toBe(true);
+    expect(result.search_complete).toBe(true);
+  });
+
+  it('should measure how far wrong guesses ran before being taken back', () => {
+    // 3×2 board whose only solution is
+    //   1 0 0
+    //   2 2 3
+    // One of the solver's wrong guesses only fails after a second domino has gone down
+    const content = buildContent(
+      3, 2,
+      [
+        { id: 1, color: 'red', cells: [[0, 1], [1, 2]] },
+        { id: 2, color: 'blue', cells: [[0, 0]] },
+        { id: 3, color: 'green', cells: [[0, 2], [1, 0], [1, 1]] }
+      ],
+      [
+        { id: 1, values: [3, 0] },
+        { id: 2, values: [0, 1] },
+        { id: 3, values: [2, 2] }
+      ],
+      [
+        { region_id: 1, type: 'sum', target: 3 },
+        { region_id: 2, type: 'sum', target: 1 },
+        { region_id: 3, type: 'sum', target: 4 }
+      ]
+    );
+
+    const result = findSolutions(content);
+
+    expect(result.solution_count).toEqual(1);
+    expect(result.stats.backtrack_depth).toEqual(2);
+    expect(findSolutions(uniquePuzzle).stats.backtrack_depth).toEqual(0);
+  });
+
+  it('should give up when the node limit is reached', () => {
+    const result = findSolutions(uniquePuzzle, { maxNodes: 1 });
+
+    expect(result.search_complete).toBe(false);
+    expect(result.stats.nodes).toEqual(1);
+  });
+
+  it('should give up when the time limit is reached', () => {
+    const result = findSolutions(uniquePuzzle, { timeLimitMs: 0 });
+
+    expect(result.search_complete).toBe(false);
+    expect(result.solution_count).toEqual(0);
+  });
+
+  it('should collect search statistics', () => {
+    const { stats } = findSolutions(uniquePuzzle);
+
+    expect(stats.nodes).toBeGreaterThan(0);
+    expect(stats.max_depth).toEqual(2);
+    expect(stats.decision_points).toBeGreaterThan(0);
+    expect(stats.forced_moves).toBeGreaterThan(0);
+    expect(stats.average_branching).toBeGreaterThan(0);
+    expect(stats.elapsed_ms).toBeGreaterThanOrEqual(0);
+  });
+});
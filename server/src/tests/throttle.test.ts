@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import { LoginThrottle, RateLimiter } from '../auth/throttle';
+
+describe('LoginThrottle', () => {
+  it('should lock a key after too many failures in the window', () => {
+    const throttle = new LoginThrottle(3, 1000);
+
+    throttle.recordFailure('player', 0);
+    throttle.recordFailure('player', 100);
+    expect(throttle.retryAfter('player', 200)).toEqual(0);
+
+    throttle.recordFailure('player', 200);
+    expect(throttle.retryAfter('player', 300)).toEqual(700);
+    expect(throttle.retryAfter('other', 300)).toEqual(0);
+  });
+
+  it('should unlock once old failures age out of the window', () => {
+    const throttle = new LoginThrottle(2, 1000);
+
+    throttle.recordFailure('player', 0);
+    throttle.recordFailure('player', 500);
+
+    expect(throttle.retryAfter('player', 999)).toEqual(1);
+    expect(throttle.retryAfter('player', 1000)).toEqual(0);
+  });
+
+  it('should forget failures after a reset', () => {
+    const throttle = new LoginThrottle(1, 1000);
+
+    throttle.recordFailure('player', 0);
+    throttle.reset('player');
+
+    expect(throttle.retryAfter('player', 10)).toEqual(0);
+  });
+
+  it('should drop keys whose failures have all aged out', () => {
+    const throttle = new LoginThrottle(3, 1000);
+
+    throttle.recordFailure('sprayed@example.com', 0);
+    throttle.recordFailure('player@example.com', 900);
+    expect(throttle.size).toEqual(2);
+
+    throttle.recordFailure('player@example.com', 1500);
+    expect(throttle.size).toEqual(1);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should turn a key away after too many requests in the window', () => {
+    const limiter = new RateLimiter(2, 1000);
+
+    expect(limiter.take('player', 0)).toEqual(0);
+    expect(limiter.take('player', 100)).toEqual(0);
+    expect(limiter.take('player', 200)).toEqual(800);
+    expect(limiter.take('other', 200)).toEqual(0);
+  });
+
+  it('should let requests through again once old ones age out of the window', () => {
+    const limiter = new RateLimiter(1, 1000);
+
+    expect(limiter.take('player', 0)).toEqual(0);
+    expect(limiter.take('player', 999)).toEqual(1);
+    expect(limiter.take('player', 1000)).toEqual(0);
+  });
+
+  it('should drop keys that have gone quiet for a whole window', () => {
+    const limiter = new RateLimiter(1, 1000);
+
+    limiter.take('passing', 0);
+    limiter.take('regular', 900);
+    expect(limiter.size).toEqual(2);
+
+    limiter.take('regular', 1500);
+    expect(limiter.size).toEqual(1);
+  });
+});
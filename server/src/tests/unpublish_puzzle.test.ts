@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzlesTable } from '../db/schema';
+import { unpublishPuzzle } from '../handlers/unpublish_puzzle';
+import { getDailyPuzzle } from '../handlers/get_daily_puzzle';
+
+const testPuzzle = {
+  title: 'Published Puzzle',
+  difficulty_level: 'Easy' as const,
+  grid_width: 4,
+  grid_height: 4,
+  board_data: '{"regions": []}',
+  dominoes_data: '{"dominoes": []}',
+  conditions_data: '{"conditions": []}',
+  is_published: true
+};
+
+describe('unpublishPuzzle', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should unpublish a puzzle and take it off the daily schedule', async () => {
+    const [puzzle] = await db.insert(puzzlesTable)
+      .values({ ...testPuzzle, is_daily_puzzle: true, daily_puzzle_date: '2024-01-15' })
+      .returning()
+      .execute();
+
+    const result = await unpublishPuzzle(puzzle.id);
+
+    expect(result.is_published).toBe(false);
+    expect(result.is_daily_puzzle).toBe(false);
+    expect(result.daily_puzzle_date).toBeNull();
+    expect(result.title).toEqual('Published Puzzle');
+    expect(await getDailyPuzzle(new Date('2024-01-15'))).toBeNull();
+  });
+
+  it('should throw for unknown puzzles', async () => {
+    await expect(unpublishPuzzle(999)).rejects.toThrow(/Puzzle with id 999 not found/i);
+  });
+});
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { puzzlesTable } from '../db/schema';
+import { unscheduleDailyPuzzle } from '../handlers/unschedule_daily_puzzle';
+
+describe('unscheduleDailyPuzzle', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should take a puzzle off the daily schedule but leave it published', async () => {
+    const [puzzle] = await db.insert(puzzlesTable)
+      .values({
+        title: 'Daily Puzzle',
+        difficulty_level: 'Easy',
+        grid_width: 4,
+        grid_height: 4,
+        board_data: '{"regions": []}',
+        dominoes_data: '{"dominoes": []}',
+        conditions_data: '{"conditions": []}',
+        is_published: true,
+        is_daily_puzzle: true,
+        daily_puzzle_date: '2024-06-01'
+      })
+      .returning()
+      .execute();
+
+    const result = await unscheduleDailyPuzzle(puzzle.id);
+
+    expect(result.is_daily_puzzle).toBe(false);
+    expect(result.daily_puzzle_date).toBeNull();
+    expect(result.is_published).toBe(true);
+  });
+
+  it('should throw for unknown puzzles', async () => {
+    await expect(unscheduleDailyPuzzle(999)).rejects.toThrow(/Puzzle with id 999 not found/i);
+  });
+});
@@ -2,27 +2,32 @@ import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { puzzlesTable, usersTable } from '../db/schema';
-import { type UpdatePuzzleInput, type CreateUserInput } from '../schema';
+import { updatePuzzleInputSchema, type UpdatePuzzleInput, type User, type UserRole } from '../schema';
 import { updatePuzzle } from '../handlers/update_puzzle';
+import { PuzzlePublishError } from '../puzzle/publishing';
 import { eq } from 'drizzle-orm';
+import { ZodError } from 'zod';
 
 // Test helper to create a user
-const createTestUser = async (): Promise<number> => {
-  const userData: CreateUserInput = {
-    email: 'test@example.com',
-    display_name: 'Test User',
-    auth_provider: 'email',
-    auth_provider_id: 'test123'
-  };
-
+const createTestUser = async (email = 'test@example.com', role: UserRole = 'player'): Promise<User> => {
   const result = await db.insert(usersTable)
-    .values(userData)
+    .values({
+      email,
+      display_name: 'Test User',
+      auth_provider: 'email',
+      auth_provider_id: email,
+      role
+    })
     .returning()
     .execute();
 
-  return result[0].id;
+  return result[0];
 };
 
+// Single solution: [1, 2] across the top-left corner
+const testBoardData = '{"regions": [{"id": 1, "color": "red", "cells": [[0,0]]}, {"id": 2, "color": "blue", "cells": [[0,1]]}]}';
+const testConditionsData = '{"conditions": [{"region_id": 1, "type": "less_than", "target": 2}, {"region_id": 2, "type": "greater_than", "target": 1}]}';
+
 // Test helper to create a puzzle
 const createTestPuzzle = async (creatorId: number) => {
   const puzzleData = {
@@ -32,10 +37,10 @@ const createTestPuzzle = async (creatorId: number) => {
     difficulty_level: 'Easy' as const,
     grid_width: 5,
     grid_height: 5,
-    board_data: '{"regions": []}',
-    dominoes_data: '[{"value1": 1, "value2": 2}]',
-    conditions_data: '[{"type": "sum", "value": 10}]',
-    solution_data: '{"solution": "test"}',
+    board_data: testBoardData,
+    dominoes_data: '{"dominoes": [{"id": 1, "values": [1, 2]}]}',
+    conditions_data: testConditionsData,
+    solution_data: '{"placement": []}',
     is_published: false,
     is_daily_puzzle: false,
     daily_puzzle_date: null
@@ -54,15 +59,15 @@ describe('updatePuzzle', () => {
   afterEach(resetDB);
 
   it('should update puzzle title', async () => {
-    const userId = await createTestUser();
-    const puzzle = await createTestPuzzle(userId);
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
 
     const updateInput: UpdatePuzzleInput = {
       id: puzzle.id,
       title: 'Updated Title'
     };
 
-    const result = await updatePuzzle(updateInput);
+    const result = await updatePuzzle(updateInput, user);
 
     expect(result.title).toEqual('Updated Title');
     expect(result.description).toEqual('Original description'); // Unchanged
@@ -73,8 +78,8 @@ describe('updatePuzzle', () => {
   });
 
   it('should update multiple fields', async () => {
-    const userId = await createTestUser();
-    const puzzle = await createTestPuzzle(userId);
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
 
     const updateInput: UpdatePuzzleInput = {
       id: puzzle.id,
@@ -82,43 +87,37 @@ describe('updatePuzzle', () => {
       difficulty_level: 'Hard',
       grid_width: 8,
       grid_height: 6,
-      is_published: true,
-      is_daily_puzzle: true,
-      daily_puzzle_date: new Date('2024-01-15')
+      is_published: true
     };
 
-    const result = await updatePuzzle(updateInput);
+    const result = await updatePuzzle(updateInput, user);
 
     expect(result.title).toEqual('Multi-Updated Title');
     expect(result.difficulty_level).toEqual('Hard');
     expect(result.grid_width).toEqual(8);
     expect(result.grid_height).toEqual(6);
     expect(result.is_published).toBe(true);
-    expect(result.is_daily_puzzle).toBe(true);
-    expect(result.daily_puzzle_date).toEqual(new Date('2024-01-15'));
     
     // Unchanged fields
     expect(result.description).toEqual('Original description');
-    expect(result.creator_id).toEqual(userId);
-    expect(result.board_data).toEqual('{"regions": []}');
+    expect(result.creator_id).toEqual(user.id);
+    expect(result.board_data).toEqual(testBoardData);
   });
 
   it('should handle nullable fields correctly', async () => {
-    const userId = await createTestUser();
-    const puzzle = await createTestPuzzle(userId);
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
 
     const updateInput: UpdatePuzzleInput = {
       id: puzzle.id,
       description: null,
-      solution_data: null,
-      daily_puzzle_date: null
+      solution_data: null
     };
 
-    const result = await updatePuzzle(updateInput);
+    const result = await updatePuzzle(updateInput, user);
 
     expect(result.description).toBe(null);
     expect(result.solution_data).toBe(null);
-    expect(result.daily_puzzle_date).toBe(null);
     
     // Other fields should remain unchanged
     expect(result.title).toEqual('Original Puzzle');
@@ -126,21 +125,21 @@ describe('updatePuzzle', () => {
   });
 
   it('should update JSON data fields', async () => {
-    const userId = await createTestUser();
-    const puzzle = await createTestPuzzle(userId);
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
 
     const updateInput: UpdatePuzzleInput = {
       id: puzzle.id,
-      board_data: '{"regions": [{"id": 1, "cells": []}]}',
-      dominoes_data: '[{"value1": 3, "value2": 4}, {"value1": 5, "value2": 6}]',
-      conditions_data: '[{"type": "product", "value": 20}]'
+      board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0], [0,1]]}]}',
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [3, 4]}, {"id": 2, "values": [5, 6]}]}',
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "product", "target": 20}]}'
     };
 
-    const result = await updatePuzzle(updateInput);
+    const result = await updatePuzzle(updateInput, user);
 
-    expect(result.board_data).toEqual('{"regions": [{"id": 1, "cells": []}]}');
-    expect(result.dominoes_data).toEqual('[{"value1": 3, "value2": 4}, {"value1": 5, "value2": 6}]');
-    expect(result.conditions_data).toEqual('[{"type": "product", "value": 20}]');
+    expect(result.board_data).toEqual('{"regions": [{"id": 1, "color": "red", "cells": [[0,0], [0,1]]}]}');
+    expect(result.dominoes_data).toEqual('{"dominoes": [{"id": 1, "values": [3, 4]}, {"id": 2, "values": [5, 6]}]}');
+    expect(result.conditions_data).toEqual('{"conditions": [{"region_id": 1, "type": "product", "target": 20}]}');
     
     // Other fields should remain unchanged
     expect(result.title).toEqual('Original Puzzle');
@@ -148,8 +147,8 @@ describe('updatePuzzle', () => {
   });
 
   it('should persist changes to database', async () => {
-    const userId = await createTestUser();
-    const puzzle = await createTestPuzzle(userId);
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
 
     const updateInput: UpdatePuzzleInput = {
       id: puzzle.id,
@@ -157,7 +156,7 @@ describe('updatePuzzle', () => {
       difficulty_level: 'Medium'
     };
 
-    await updatePuzzle(updateInput);
+    await updatePuzzle(updateInput, user);
 
     // Query database directly to verify persistence
     const puzzles = await db.select()
@@ -173,24 +172,25 @@ describe('updatePuzzle', () => {
   });
 
   it('should throw error when puzzle does not exist', async () => {
+    const user = await createTestUser();
     const updateInput: UpdatePuzzleInput = {
       id: 999, // Non-existent puzzle ID
       title: 'Updated Title'
     };
 
-    await expect(updatePuzzle(updateInput)).rejects.toThrow(/Puzzle with id 999 not found/i);
+    await expect(updatePuzzle(updateInput, user)).rejects.toThrow(/Puzzle with id 999 not found/i);
   });
 
   it('should handle updating only updated_at when no other fields provided', async () => {
-    const userId = await createTestUser();
-    const puzzle = await createTestPuzzle(userId);
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
 
     const updateInput: UpdatePuzzleInput = {
       id: puzzle.id
       // No other fields provided
     };
 
-    const result = await updatePuzzle(updateInput);
+    const result = await updatePuzzle(updateInput, user);
 
     // All original fields should remain the same except updated_at
     expect(result.title).toEqual('Original Puzzle');
@@ -207,29 +207,198 @@ describe('updatePuzzle', () => {
   });
 
   it('should update boolean fields correctly', async () => {
-    const userId = await createTestUser();
-    const puzzle = await createTestPuzzle(userId);
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
 
     // First update: set booleans to true
     const updateInput1: UpdatePuzzleInput = {
       id: puzzle.id,
-      is_published: true,
-      is_daily_puzzle: true
+      is_published: true
     };
 
-    const result1 = await updatePuzzle(updateInput1);
+    const result1 = await updatePuzzle(updateInput1, user);
     expect(result1.is_published).toBe(true);
-    expect(result1.is_daily_puzzle).toBe(true);
 
     // Second update: set booleans back to false
     const updateInput2: UpdatePuzzleInput = {
       id: puzzle.id,
-      is_published: false,
-      is_daily_puzzle: false
+      is_published: false
     };
 
-    const result2 = await updatePuzzle(updateInput2);
+    const result2 = await updatePuzzle(updateInput2, user);
     expect(result2.is_published).toBe(false);
-    expect(result2.is_daily_puzzle).toBe(false);
   });
-});
\ No newline at end of file
+
+  it('should reject malformed puzzle data with field-level errors', async () => {
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
+
+    const updateInput: UpdatePuzzleInput = {
+      id: puzzle.id,
+      conditions_data: '{"conditions": [{"region_id": 7, "type": "sum", "target": 5}]}'
+    };
+
+    const error = await updatePuzzle(updateInput, user).catch(e => e);
+
+    expect(error.message).toMatch(/invalid puzzle data/i);
+    expect(error.cause).toBeInstanceOf(ZodError);
+    expect(error.cause.issues[0].path).toEqual(['conditions_data', 'conditions', 0, 'region_id']);
+
+    // Stored puzzle should be untouched
+    const puzzles = await db.select()
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, puzzle.id))
+      .execute();
+    expect(puzzles[0].conditions_data).toEqual(testConditionsData);
+  });
+
+  it('should validate new grid size against stored board data', async () => {
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
+
+    await updatePuzzle({
+      id: puzzle.id,
+      board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0]]}, {"id": 2, "color": "blue", "cells": [[4,4]]}]}'
+    }, user);
+
+    await expect(updatePuzzle({ id: puzzle.id, grid_width: 3, grid_height: 3 }, user))
+      .rejects.toThrow(/invalid puzzle data/i);
+  });
+
+  it('should store the verified solution when publishing', async () => {
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
+
+    const result = await updatePuzzle({ id: puzzle.id, is_published: true }, user);
+
+    expect(result.is_published).toBe(true);
+    expect(result.solution_data).toEqual('{"placement":[{"domino_id":1,"position":[[0,0],[0,1]]}]}');
+  });
+
+  it('should refuse to publish an ambiguous puzzle', async () => {
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
+
+    await updatePuzzle({ id: puzzle.id, conditions_data: '{"conditions": []}' }, user);
+    const error = await updatePuzzle({ id: puzzle.id, is_published: true }, user).catch(e => e);
+
+    expect(error.message).toMatch(/more than one solution/i);
+    expect(error.cause).toBeInstanceOf(PuzzlePublishError);
+    expect(error.cause.problem).toEqual('multiple_solutions');
+
+    const puzzles = await db.select()
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, puzzle.id))
+      .execute();
+    expect(puzzles[0].is_published).toBe(false);
+  });
+
+  it('should re-verify published puzzles when their content changes', async () => {
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
+    await updatePuzzle({ id: puzzle.id, is_published: true }, user);
+
+    const error = await updatePuzzle({
+      id: puzzle.id,
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [3, 4]}]}'
+    }, user).catch(e => e);
+
+    expect(error.cause.problem).toEqual('no_solution');
+  });
+
+  it('should rate puzzles when publishing and drop the rating when a draft changes', async () => {
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
+
+    const published = await updatePuzzle({ id: puzzle.id, is_published: true }, user);
+    expect(published.difficulty_rating).not.toBeNull();
+    expect(published.suggested_difficulty).toEqual('Easy');
+
+    const renamed = await updatePuzzle({ id: puzzle.id, title: 'Renamed' }, user);
+    expect(renamed.difficulty_rating).toEqual(published.difficulty_rating);
+
+    const draft = await updatePuzzle({ id: puzzle.id, is_published: false, conditions_data: '{"conditions": []}' }, user);
+    expect(draft.difficulty_rating).toBeNull();
+    expect(draft.suggested_difficulty).toBeNull();
+  });
+
+  it('should allow unpublished edits without a unique solution', async () => {
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
+
+    const result = await updatePuzzle({
+      id: puzzle.id,
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [3, 4]}]}'
+    }, user);
+
+    expect(result.dominoes_data).toEqual('{"dominoes": [{"id": 1, "values": [3, 4]}]}');
+    expect(result.is_published).toBe(false);
+  });
+
+  it('should clear the stored solution when a draft changes and solve it again on publishing', async () => {
+    const user = await createTestUser();
+    const puzzle = await createTestPuzzle(user.id);
+
+    const draft = await updatePuzzle({
+      id: puzzle.id,
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "greater_than", "target": 1}, {"region_id": 2, "type": "less_than", "target": 2}]}'
+    }, user);
+    expect(draft.solution_data).toBeNull();
+
+    const renamed = await updatePuzzle({ id: puzzle.id, title: 'Renamed' }, user);
+    expect(renamed.solution_data).toBeNull();
+
+    const published = await updatePuzzle({ id: puzzle.id, is_published: true }, user);
+    expect(published.solution_data).toEqual('{"placement":[{"domino_id":1,"position":[[0,1],[0,0]]}]}');
+  });
+
+  it('should refuse changes from anyone but the creator', async () => {
+    const creator = await createTestUser();
+    const other = await createTestUser('other@example.com');
+    const puzzle = await createTestPuzzle(creator.id);
+
+    const error = await updatePuzzle({ id: puzzle.id, title: 'Hijacked' }, other).catch(e => e);
+
+    expect(error.code).toEqual('FORBIDDEN');
+    const puzzles = await db.select()
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, puzzle.id))
+      .execute();
+    expect(puzzles[0].title).toEqual('Original Puzzle');
+  });
+
+  it('should let admins change puzzles they did not create', async () => {
+    const creator = await createTestUser();
+    const admin = await createTestUser('admin@example.com', 'admin');
+    const puzzle = await createTestPuzzle(creator.id);
+
+    const result = await updatePuzzle({ id: puzzle.id, title: 'Moderated' }, admin);
+
+    expect(result.title).toEqual('Moderated');
+    expect(result.creator_id).toEqual(creator.id);
+  });
+
+  it('should leave the daily schedule alone, even for admins', async () => {
+    const admin = await createTestUser('admin@example.com', 'admin');
+    const puzzle = await createTestPuzzle(admin.id);
+
+    // Only scheduleDailyPuzzle changes the schedule; updates drop the fields
+    const input = updatePuzzleInputSchema.parse({
+      id: puzzle.id,
+      title: 'Renamed',
+      is_daily_puzzle: true,
+      daily_puzzle_date: '2024-01-15'
+    });
+    expect(input).not.toHaveProperty('is_daily_puzzle');
+    expect(input).not.toHaveProperty('daily_puzzle_date');
+
+    await updatePuzzle(input, admin);
+
+    const puzzles = await db.select()
+      .from(puzzlesTable)
+      .where(eq(puzzlesTable.id, puzzle.id))
+      .execute();
+    expect(puzzles[0].is_daily_puzzle).toBe(false);
+    expect(puzzles[0].daily_puzzle_date).toBe(null);
+  });
+});
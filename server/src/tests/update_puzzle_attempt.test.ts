@@ -4,7 +4,12 @@ import { db } from '../db';
 import { usersTable, puzzlesTable, puzzleAttemptsTable } from '../db/schema';
 import { type UpdatePuzzleAttemptInput, type CreateUserInput, type CreatePuzzleInput, type CreatePuzzleAttemptInput } from '../schema';
 import { updatePuzzleAttempt } from '../handlers/update_puzzle_attempt';
-import { eq } from 'drizzle-orm';
+import { createAchievement } from '../handlers/create_achievement';
+import { eq, sql } from 'drizzle-orm';
+
+// Single solution: [1, 2] across the top-left corner
+const solvedBoard = '{"placements": [{"domino_id": 1, "position": [[0,0], [0,1]]}]}';
+const flippedBoard = '{"placements": [{"domino_id": 1, "position": [[0,1], [0,0]]}]}';
 
 // Helper function to create a test user
 const createTestUser = async (): Promise<number> => {
@@ -33,10 +38,10 @@ const createTestPuzzle = async (creatorId?: number): Promise<number> => {
       difficulty_level: 'Easy',
       grid_width: 4,
       grid_height: 4,
-      board_data: '{"regions": []}',
-      dominoes_data: '{"dominoes": []}',
-      conditions_data: '{"conditions": []}',
-      solution_data: '{"solution": []}',
+      board_data: '{"regions": [{"id": 1, "color": "red", "cells": [[0,0]]}, {"id": 2, "color": "blue", "cells": [[0,1]]}]}',
+      dominoes_data: '{"dominoes": [{"id": 1, "values": [1, 2]}]}',
+      conditions_data: '{"conditions": [{"region_id": 1, "type": "less_than", "target": 2}, {"region_id": 2, "type": "greater_than", "target": 1}]}',
+      solution_data: '{"placement": [{"domino_id": 1, "position": [[0,0], [0,1]]}]}',
       is_published: true,
       is_daily_puzzle: false,
       daily_puzzle_date: null
@@ -81,7 +86,7 @@ describe('updatePuzzleAttempt', () => {
       attempt_data: '{"progress": "halfway"}'
     };
 
-    const result = await updatePuzzleAttempt(updateInput);
+    const result = await updatePuzzleAttempt(updateInput, userId);
 
     expect(result.id).toBe(attemptId);
     expect(result.attempt_data).toBe('{"progress": "halfway"}');
@@ -90,68 +95,120 @@ describe('updatePuzzleAttempt', () => {
     expect(result.completed_at).toBe(null); // Should remain unchanged
   });
 
-  it('should mark attempt as completed with completion time', async () => {
+  it('should complete the attempt when the submitted board solves the puzzle', async () => {
     const userId = await createTestUser();
     const puzzleId = await createTestPuzzle(userId);
     const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
 
-    const completedAt = new Date();
-    const updateInput: UpdatePuzzleAttemptInput = {
-      id: attemptId,
-      attempt_data: '{"progress": "complete"}',
-      is_completed: true,
-      completion_time: 300, // 5 minutes in seconds
-      completed_at: completedAt
-    };
-
-    const result = await updatePuzzleAttempt(updateInput);
+    const result = await updatePuzzleAttempt({ id: attemptId, attempt_data: solvedBoard }, userId);
 
-    expect(result.id).toBe(attemptId);
-    expect(result.attempt_data).toBe('{"progress": "complete"}');
+    expect(result.attempt_data).toBe(solvedBoard);
     expect(result.is_completed).toBe(true);
-    expect(result.completion_time).toBe(300);
-    expect(result.completed_at).toEqual(completedAt);
+    expect(result.completion_time).toBeGreaterThanOrEqual(1);
+    expect(result.completed_at).toBeInstanceOf(Date);
   });
 
-  it('should update partial fields only', async () => {
+  it('should time completion with server timestamps', async () => {
     const userId = await createTestUser();
     const puzzleId = await createTestPuzzle(userId);
     const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
 
-    // First, get the original attempt to verify unchanged fields
-    const originalAttempt = await db.select()
-      .from(puzzleAttemptsTable)
+    // Started five minutes ago
+    await db.update(puzzleAttemptsTable)
+      .set({ started_at: sql`now() - interval '300 seconds'` })
       .where(eq(puzzleAttemptsTable.id, attemptId))
       .execute();
 
-    const updateInput: UpdatePuzzleAttemptInput = {
-      id: attemptId,
-      is_completed: true // Only update completion status
-    };
+    const result = await updatePuzzleAttempt({ id: attemptId, attempt_data: solvedBoard }, userId);
 
-    const result = await updatePuzzleAttempt(updateInput);
+    expect(result.completion_time).toBeGreaterThanOrEqual(300);
+    expect(result.completion_time).toBeLessThan(310);
+  });
 
-    expect(result.id).toBe(attemptId);
-    expect(result.is_completed).toBe(true);
-    // These fields should remain unchanged
-    expect(result.attempt_data).toBe(originalAttempt[0].attempt_data);
-    expect(result.completion_time).toBe(originalAttempt[0].completion_time);
-    expect(result.completed_at).toBe(originalAttempt[0].completed_at);
+  it('should leave paused time out of the completion time', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle(userId);
+    const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
+
+    // Started five minutes ago, four of them spent paused
+    await db.update(puzzleAttemptsTable)
+      .set({ started_at: sql`now() - interval '300 seconds'`, paused_ms: 240000 })
+      .where(eq(puzzleAttemptsTable.id, attemptId))
+      .execute();
+
+    const result = await updatePuzzleAttempt({ id: attemptId, attempt_data: solvedBoard }, userId);
+
+    expect(result.completion_time).toBeGreaterThanOrEqual(60);
+    expect(result.completion_time).toBeLessThan(70);
   });
 
-  it('should persist changes to database', async () => {
+  it('should keep paused time from costing a ranked attempt the cookie trifecta', async () => {
     const userId = await createTestUser();
     const puzzleId = await createTestPuzzle(userId);
     const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
 
-    const updateInput: UpdatePuzzleAttemptInput = {
+    // Started five minutes ago, all but half a minute of them spent paused
+    await db.update(puzzleAttemptsTable)
+      .set({ mode: 'ranked', started_at: sql`now() - interval '300 seconds'`, paused_ms: 270000 })
+      .where(eq(puzzleAttemptsTable.id, attemptId))
+      .execute();
+
+    const result = await updatePuzzleAttempt({ id: attemptId, attempt_data: solvedBoard }, userId);
+    const achievement = await createAchievement({ attempt_id: attemptId }, userId);
+
+    expect(result.completion_time).toBeLessThan(40);
+    expect(achievement.is_cookie_trifecta).toBe(true);
+  });
+
+  it('should refuse changes while the attempt is paused', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle(userId);
+    const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
+    await db.update(puzzleAttemptsTable)
+      .set({ paused_at: sql`now()` })
+      .where(eq(puzzleAttemptsTable.id, attemptId))
+      .execute();
+
+    await expect(updatePuzzleAttempt({ id: attemptId, attempt_data: solvedBoard }, userId))
+      .rejects
+      .toThrow(/paused/i);
+  });
+
+  it('should ignore completion fields sent by the client', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle(userId);
+    const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
+
+    const result = await updatePuzzleAttempt({
       id: attemptId,
-      attempt_data: '{"progress": "final"}',
+      attempt_data: '{"progress": "complete"}',
       is_completed: true,
-      completion_time: 450
-    };
+      completion_time: 1,
+      completed_at: new Date()
+    } as UpdatePuzzleAttemptInput, userId);
+
+    expect(result.is_completed).toBe(false);
+    expect(result.completion_time).toBe(null);
+    expect(result.completed_at).toBe(null);
+  });
+
+  it('should not complete an attempt whose board breaks a condition', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle(userId);
+    const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
+
+    const result = await updatePuzzleAttempt({ id: attemptId, attempt_data: flippedBoard }, userId);
+
+    expect(result.attempt_data).toBe(flippedBoard);
+    expect(result.is_completed).toBe(false);
+  });
 
-    await updatePuzzleAttempt(updateInput);
+  it('should persist changes to database', async () => {
+    const userId = await createTestUser();
+    const puzzleId = await createTestPuzzle(userId);
+    const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
+
+    await updatePuzzleAttempt({ id: attemptId, attempt_data: solvedBoard }, userId);
 
     // Verify changes were saved to database
     const savedAttempt = await db.select()
@@ -160,16 +217,16 @@ describe('updatePuzzleAttempt', () => {
       .execute();
 
     expect(savedAttempt).toHaveLength(1);
-    expect(savedAttempt[0].attempt_data).toBe('{"progress": "final"}');
+    expect(savedAttempt[0].attempt_data).toBe(solvedBoard);
     expect(savedAttempt[0].is_completed).toBe(true);
-    expect(savedAttempt[0].completion_time).toBe(450);
+    expect(savedAttempt[0].completion_time).toBeGreaterThanOrEqual(1);
   });
 
-  it('should handle guest attempt updates (null user_id)', async () => {
+  it('should refuse updates to attempts of other players', async () => {
     const userId = await createTestUser();
     const puzzleId = await createTestPuzzle(userId);
 
-    // Create a guest attempt (null user_id)
+    // A guest attempt (null user_id) belongs to no logged-in player
     const guestAttempt = await db.insert(puzzleAttemptsTable)
       .values({
         user_id: null,
@@ -184,11 +241,9 @@ describe('updatePuzzleAttempt', () => {
       attempt_data: '{"progress": "guest_updated"}'
     };
 
-    const result = await updatePuzzleAttempt(updateInput);
-
-    expect(result.id).toBe(guestAttempt[0].id);
-    expect(result.user_id).toBe(null);
-    expect(result.attempt_data).toBe('{"progress": "guest_updated"}');
+    await expect(updatePuzzleAttempt(updateInput, userId))
+      .rejects
+      .toThrow(/another player/i);
   });
 
   it('should throw error for non-existent attempt', async () => {
@@ -197,36 +252,19 @@ describe('updatePuzzleAttempt', () => {
       attempt_data: '{"progress": "updated"}'
     };
 
-    await expect(updatePuzzleAttempt(updateInput))
+    await expect(updatePuzzleAttempt(updateInput, 1))
       .rejects
       .toThrow(/Puzzle attempt with id 99999 not found/i);
   });
 
-  it('should handle null values correctly', async () => {
+  it('should refuse changes to a completed attempt', async () => {
     const userId = await createTestUser();
     const puzzleId = await createTestPuzzle(userId);
     const attemptId = await createTestPuzzleAttempt(userId, puzzleId);
+    await updatePuzzleAttempt({ id: attemptId, attempt_data: solvedBoard }, userId);
 
-    // First complete the attempt
-    await updatePuzzleAttempt({
-      id: attemptId,
-      is_completed: true,
-      completion_time: 300,
-      completed_at: new Date()
-    });
-
-    // Then reset completion fields to null
-    const updateInput: UpdatePuzzleAttemptInput = {
-      id: attemptId,
-      is_completed: false,
-      completion_time: null,
-      completed_at: null
-    };
-
-    const result = await updatePuzzleAttempt(updateInput);
-
-    expect(result.is_completed).toBe(false);
-    expect(result.completion_time).toBe(null);
-    expect(result.completed_at).toBe(null);
+    await expect(updatePuzzleAttempt({ id: attemptId, attempt_data: '{"placements": []}' }, userId))
+      .rejects
+      .toThrow(/already completed/i);
   });
-});
\ No newline at end of file
+});
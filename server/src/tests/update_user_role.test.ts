@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { updateUserRole } from '../handlers/update_user_role';
+import { type UserRole } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const createTestUser = async (name: string, role: UserRole = 'player') => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: `${name}@example.com`,
+      display_name: name,
+      auth_provider: 'email',
+      auth_provider_id: `${name}@example.com`,
+      role
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('updateUserRole', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should change a user\'s role', async () => {
+    const admin = await createTestUser('admin', 'admin');
+    const player = await createTestUser('player');
+
+    const result = await updateUserRole({ user_id: player.id, role: 'moderator' }, admin.id);
+
+    expect(result.role).toEqual('moderator');
+    expect(result).not.toHaveProperty('password_hash');
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, player.id))
+      .execute();
+    expect(users[0].role).toEqual('moderator');
+  });
+
+  it('should default new accounts to players', async () => {
+    const result = await db.insert(usersTable)
+      .values({ email: 'new@example.com', display_name: 'New', auth_provider: 'email', auth_provider_id: 'new@example.com' })
+      .returning()
+      .execute();
+
+    expect(result[0].role).toEqual('player');
+  });
+
+  it('should not let admins change their own role', async () => {
+    const admin = await createTestUser('admin', 'admin');
+
+    await expect(updateUserRole({ user_id: admin.id, role: 'player' }, admin.id))
+      .rejects.toThrow(/your own role/i);
+  });
+
+  it('should throw for unknown users', async () => {
+    const admin = await createTestUser('admin', 'admin');
+
+    await expect(updateUserRole({ user_id: 999, role: 'creator' }, admin.id))
+      .rejects.toThrow(/User with id 999 not found/i);
+  });
+});